@@ -1,9 +1,19 @@
 // src/App.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { OrderTable } from './components/OrderTable';
 import { Auth } from './components/Auth';
-import { Order, TabType, ImportCategory, Alert } from './types';
+import { RulesEditor } from './components/RulesEditor';
+import { ListManager } from './components/ListManager';
+import { ColumnMapper } from './components/ColumnMapper';
+import { DisputeReviewQueue } from './components/DisputeReviewQueue';
+import { ImportPreview } from './components/ImportPreview';
+import { ImportHistory } from './components/ImportHistory';
+import { TemplateEditor } from './components/TemplateEditor';
+import { OrderDetailPanel } from './components/OrderDetailPanel';
+import { RebuttalEditor } from './components/RebuttalEditor';
+import { LetterQueuePanel } from './components/LetterQueuePanel';
+import { Order, TabType, ImportCategory, Alert, RiskRule, ListEntry, ListEntryKind, ListType, ColumnMapping, ImportProfile, DisputeReviewItem, ImportBatch, RebuttalTemplate, TemplateReason, DraftSource, LetterQueue, LetterJob, DeliveryStatus } from './types';
 import {
   LogOut,
   CheckCircle,
@@ -19,13 +29,58 @@ import {
   Bell,
   Info,
   ChevronRight,
-  Database
+  Database,
+  Sparkles,
+  RefreshCw
 } from 'lucide-react';
-import { parseShopifyCSV } from './services/csvService';
+import { importShopifyCsvFile } from './services/csvService';
+import { CsvImportProgress } from './services/csvRowCollector';
+import { readCsvPreview, CsvPreview } from './services/csvParser';
+import { suggestMapping, restrictMapping, missingRequiredFields } from './services/csvColumns';
+import { fetchImportProfiles, saveImportProfile, findProfileForHeaders } from './services/importProfileService';
+import {
+  reconcileDisputeExport,
+  applyDisputeRecord,
+  fetchDisputeReviewQueue,
+  queueUnmatchedDisputes,
+  removeFromReviewQueue,
+  PROCESSOR_LABELS,
+  MATCH_METHOD_LABELS
+} from './services/processorDisputeService';
+import { diffImport, ImportDiff } from './services/importDiffService';
+import { recordOrderChanges } from './services/auditService';
+import { alertOrderId } from './services/orderTimelineService';
+import { assembleEvidencePacket, renderEvidencePacketPdf, saveEvidencePacket, packetFileName, loadPacketAttachments, PacketAttachment } from './services/evidencePacketService';
+import { commitImportBatch, fetchImportBatches, rollbackImportBatch } from './services/batchService';
+import { fetchRebuttalTemplates, saveRebuttalTemplate } from './services/templateService';
+import { createLlmProvider, LLM_PROVIDER_LABELS, LlmProviderId } from './services/llmService';
+import {
+  LetterQueueRunner,
+  runLetterQueue,
+  draftQueuedLetter,
+  enqueueLetters,
+  retryFailedLetters,
+  markLetterOpened,
+  isLetterQueueEligible,
+  isLetterQueueActive,
+  isLetterJobPending,
+  letterQueueCounts,
+  loadLetterQueue,
+  saveLetterQueue,
+  clearLetterQueue
+} from './services/letterQueueService';
+import { createCarrierAdapter, refreshOrderTracking, TRACKING_ADAPTER_LABELS, TrackingAdapterId } from './services/trackingService';
 import { supabase } from './lib/supabase';
-import { fetchSavedDisputes } from './services/disputeService';
-import { loadOrdersFromDb, saveOrdersToDb } from './services/storageService';
+import { fetchSavedDisputes, fetchUserProfile, saveUserProfile, applyRebuttalSubmission } from './services/disputeService';
+import { loadOrdersFromDb, loadOrdersByIds, saveOrdersToDb, mergeImportedOrder } from './services/storageService';
 import { fetchAlerts, createAlert, markAlertsRead, clearAlerts } from './services/alertService';
+import { syncShopifyOrders, loadSyncCheckpoint, SyncWindow, SyncProgress } from './services/syncService';
+import { fetchUserSettings, saveUserSettings, UserSettings, DEFAULT_SETTINGS, PaymentProcessor } from './services/settingsService';
+import { escalateDeadlines } from './services/deadlineService';
+import { fetchRiskRules, saveRiskRules, DEFAULT_RULES } from './services/rulesService';
+import { classifyOrders, ClassificationConfig } from './services/classificationService';
+import { backtestRule } from './services/backtestService';
+import { fetchListEntries, addListEntry, deleteListEntry } from './services/listService';
 import { 
     revalidateDatabase, 
     applyFixesAndRevalidate, 
@@ -37,6 +92,19 @@ const App: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+
+  // --- SHOPIFY SYNC STATE ---
+  const [profile, setProfile] = useState<any>(null);
+  const [storeForm, setStoreForm] = useState({ domain: '', token: '', useProxy: true });
+  const [syncWindow, setSyncWindow] = useState<SyncWindow>({ createdAfter: '', createdBefore: '', query: '', incremental: true });
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [importProgress, setImportProgress] = useState<CsvImportProgress | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [rules, setRules] = useState<RiskRule[]>(DEFAULT_RULES);
+  const [listEntries, setListEntries] = useState<ListEntry[]>([]);
+  // What every import, sync and revalidation runs orders through
+  const classification: ClassificationConfig = { rules, riskThresholds: settings.riskThresholds, listEntries };
   
   // --- ALERT SYSTEM STATE ---
   const [toasts, setToasts] = useState<Alert[]>([]); 
@@ -45,15 +113,34 @@ const App: React.FC = () => {
   const [selectedAlert, setSelectedAlert] = useState<Alert | null>(null);
   
   const [activeTab, setActiveTab] = useState<TabType>('RISK');
+  // Order shown in the detail drawer; by ID so it follows the live order after edits
+  const [detailOrderId, setDetailOrderId] = useState<string | null>(null);
+  const detailOrder = detailOrderId ? orders.find((o) => o.id === detailOrderId) : undefined;
+  const [rebuttal, setRebuttal] = useState<{ orderId: string; generated?: { text: string; source: DraftSource } } | null>(null);
+  const rebuttalOrder = rebuttal ? orders.find((o) => o.id === rebuttal.orderId) : undefined;
+  const [letterQueue, setLetterQueue] = useState<LetterQueue | null>(null);
+  const [letterQueueRunning, setLetterQueueRunning] = useState(false);
+  const letterRunner = useRef<LetterQueueRunner | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const disputeFileInputRef = useRef<HTMLInputElement>(null);
 
   // CSV Import State
   const [pendingFile, setPendingFile] = useState<File | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importCategory, setImportCategory] = useState<ImportCategory>('DISPUTE_OPEN');
+  const [importPreview, setImportPreview] = useState<CsvPreview | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [importProfile, setImportProfile] = useState<ImportProfile | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<DisputeReviewItem[]>([]);
+  // Parsed import waiting for the user to review and commit
+  const [stagedImport, setStagedImport] = useState<{ fileName: string; category: ImportCategory; diff: ImportDiff; rows: Order[]; rowCount: number } | null>(null);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [rebuttalTemplates, setRebuttalTemplates] = useState<RebuttalTemplate[]>([]);
 
   // --- HELPER: ADD ALERT ---
-  const addToast = async (title: string, message: string, type: 'success' | 'error', details?: any) => {
+  // Shows a toast only; used when the alert has already been saved elsewhere.
+  const addLocalToast = (title: string, message: string, type: 'success' | 'error', details?: any): Alert => {
     const tempId = Math.random().toString(36).substring(7);
     const tempToast: Alert = {
       id: tempId,
@@ -70,6 +157,12 @@ const App: React.FC = () => {
       setToasts((prev) => prev.filter((t) => t.id !== tempId));
     }, 5000);
 
+    return tempToast;
+  };
+
+  const addToast = async (title: string, message: string, type: 'success' | 'error', details?: any) => {
+    const tempToast = addLocalToast(title, message, type, details);
+
     const savedAlert = await createAlert(title, message, type, details);
     if (savedAlert) {
         setAlertHistory((prev) => [savedAlert, ...prev]);
@@ -96,14 +189,86 @@ const App: React.FC = () => {
     }
   }, [session]);
 
+  // 3. Re-check chargeback deadlines while the app stays open
+  const ordersRef = useRef<Order[]>([]);
+  useEffect(() => { ordersRef.current = orders; }, [orders]);
+
+  // 4. A letter queue left by the last visit waits for Resume
+  useEffect(() => {
+    if (!session) return;
+    setLetterQueue(loadLetterQueue(session.user.id));
+    return () => letterRunner.current?.stop();
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(() => {
+      runDeadlineEscalation(ordersRef.current, settings);
+    }, 30 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [session, settings]);
+
+  const runDeadlineEscalation = async (currentOrders: Order[], currentSettings: UserSettings) => {
+    try {
+      const result = await escalateDeadlines(currentOrders, currentSettings);
+      if (result.alerts.length === 0) return;
+      setOrders(result.orders);
+      setAlertHistory((prev) => [...result.alerts, ...prev]);
+      const overdue = result.alerts.filter((a) => a.title === 'Chargeback Overdue').length;
+      addLocalToast(
+        'Chargeback Deadlines',
+        overdue > 0
+          ? `${overdue} chargeback${overdue === 1 ? ' is' : 's are'} overdue. Check the Chargebacks tab.`
+          : `${result.alerts.length} chargeback${result.alerts.length === 1 ? ' is' : 's are'} due soon.`,
+        'error'
+      );
+    } catch (err) {
+      console.error('Deadline escalation failed:', err);
+    }
+  };
+
+  // The saved key wins; without one Gemini falls back to the build-time API_KEY
+  const llmProvider = useMemo(
+    () => createLlmProvider(settings.llmProvider, profile?.gemini_api_key),
+    [settings.llmProvider, profile?.gemini_api_key]
+  );
+
+  const trackingAdapter = useMemo(() => createCarrierAdapter(settings.trackingAdapter), [settings.trackingAdapter]);
+
   const loadInitialData = async () => {
     setLoading(true);
     try {
-      const [dbOrders, dbAlerts] = await Promise.all([
+      const [dbOrders, dbAlerts, dbProfile, dbSettings, dbRules, dbListEntries, dbImportProfiles, dbReviewQueue, dbImportBatches, dbTemplates] = await Promise.all([
         loadOrdersFromDb(),
-        fetchAlerts()
+        fetchAlerts(),
+        fetchUserProfile(),
+        fetchUserSettings(),
+        fetchRiskRules(),
+        fetchListEntries(),
+        fetchImportProfiles(),
+        fetchDisputeReviewQueue(),
+        fetchImportBatches(),
+        fetchRebuttalTemplates()
       ]);
 
+      setSettings(dbSettings);
+      setRules(dbRules);
+      setListEntries(dbListEntries);
+      setImportProfiles(dbImportProfiles);
+      setReviewQueue(dbReviewQueue);
+      setImportBatches(dbImportBatches);
+      setRebuttalTemplates(dbTemplates);
+
+      if (dbProfile) {
+        setProfile(dbProfile);
+        setStoreForm((prev) => ({
+          ...prev,
+          domain: dbProfile.shopify_domain || '',
+          token: dbProfile.shopify_access_token || ''
+        }));
+        setApiKeyInput(dbProfile.gemini_api_key || '');
+      }
+
       if (dbOrders.length > 0) {
         setOrders(dbOrders);
         setActiveTab('ALL'); 
@@ -113,6 +278,8 @@ const App: React.FC = () => {
         setAlertHistory(dbAlerts);
       }
 
+      await runDeadlineEscalation(dbOrders, dbSettings);
+
     } catch (err: any) {
       console.error(err);
       addToast('Load Error', 'Failed to load data from database.', 'error', err);
@@ -121,63 +288,239 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      try {
+        // A saved profile for this header layout wins over guessed columns
+        const preview = await readCsvPreview(file);
+        const profile = findProfileForHeaders(importProfiles, preview.headers);
+        setImportPreview(preview);
+        setImportProfile(profile);
+        setColumnMapping(profile ? restrictMapping(profile.mapping, preview.headers) : suggestMapping(preview.headers));
+      } catch (err: any) {
+        addToast('Import Failed', 'Could not read the file.', 'error', err);
+        return;
+      }
       setPendingFile(file);
       setImportCategory('DISPUTE_OPEN'); 
       setShowImportModal(true);
-      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
-  const processImport = () => {
+  const handleSaveImportProfile = async (name: string) => {
+    if (!importPreview) return;
+    try {
+      // Saving under the matched profile's name updates it instead of adding a copy
+      const existingId = importProfile && importProfile.name === name.trim() ? importProfile.id : undefined;
+      const saved = await saveImportProfile(name, importPreview.headers, columnMapping, existingId);
+      setImportProfiles((prev) => [...prev.filter((p) => p.id !== saved.id), saved]);
+      setImportProfile(saved);
+      addToast('Profile Saved', `Files with these columns will use "${saved.name}" automatically.`, 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save the import profile.', 'error', err);
+    }
+  };
+
+  const closeImportModal = () => {
+    setShowImportModal(false);
+    setPendingFile(null);
+    setImportPreview(null);
+    setImportProfile(null);
+  };
+
+  const processImport = async () => {
     if (!pendingFile) return;
 
     setLoading(true);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const text = e.target?.result as string;
-        console.log('Parsing CSV with category:', importCategory);
+    try {
+      console.log('Parsing CSV with category:', importCategory);
 
-        const parsedOrders = parseShopifyCSV(text, importCategory);
+      // Parsed in a worker, chunk by chunk, so large exports don't freeze the page
+      let rowCount = 0;
+      const parsedOrders = await importShopifyCsvFile(pendingFile, importCategory, (progress) => {
+        rowCount = progress.rows;
+        setImportProgress(progress);
+      }, columnMapping);
 
-        const savedDisputes = await fetchSavedDisputes();
-        const mergedOrders = parsedOrders.map((order) => {
-          const saved = savedDisputes.find((d) => d.order_id === order.id);
-          return saved ? { ...order, savedDispute: saved } : order;
-        });
+      const savedDisputes = await fetchSavedDisputes();
+      const withDrafts = parsedOrders.map((order) => {
+        const saved = savedDisputes.find((d) => d.order_id === order.id);
+        return saved ? { ...order, savedDispute: saved } : order;
+      });
+      // Dry run: compare against what is stored; nothing is written until the user commits.
+      // Rows are merged into the stored orders, so dispute history, tracking,
+      // quarantine and manual tags survive a re-import
+      const storedOrders = await loadOrdersFromDb();
+      const storedById = new Map(storedOrders.map((o) => [o.id, o]));
+      const mergedOrders = classifyOrders(
+        withDrafts.map((order) => mergeImportedOrder(storedById.get(order.id), order)),
+        classification,
+        storedOrders
+      );
 
-        await saveOrdersToDb(mergedOrders);
+      setStagedImport({ fileName: pendingFile.name, category: importCategory, diff: diffImport(mergedOrders, storedOrders), rows: withDrafts, rowCount });
+    } catch (err: any) {
+      console.error('CSV Import Error:', err);
+      addToast(
+          'Import Failed', 
+          err.message || 'Unknown error occurred during import.', 
+          'error',
+          err
+      );
+    } finally {
+      setLoading(false);
+      setImportProgress(null);
+      closeImportModal();
+    }
+  };
 
-        setOrders(mergedOrders);
-        
-        addToast(
-            'Import Successful', 
-            `Successfully imported ${parsedOrders.length} orders.`, 
-            'success'
-        );
-        
-        if (importCategory === 'RISK') setActiveTab('RISK');
-        if (importCategory === 'DISPUTE_OPEN' || importCategory === 'DISPUTE_SUBMITTED') setActiveTab('DISPUTES');
-        if (importCategory === 'DISPUTE_WON' || importCategory === 'DISPUTE_LOST') setActiveTab('HISTORY');
-        
-      } catch (err: any) {
-        console.error('CSV Import Error:', err);
-        addToast(
-            'Import Failed', 
-            err.message || 'Unknown error occurred during import.', 
-            'error',
-            err
-        );
-      } finally {
-        setLoading(false);
-        setPendingFile(null);
-        setShowImportModal(false);
-      }
-    };
-    reader.readAsText(pendingFile);
+  const commitImport = async (selected: Order[]) => {
+    if (!stagedImport) return;
+    const { fileName, category, diff, rows, rowCount } = stagedImport;
+    try {
+      // A sync or edit may have landed while the preview was open, so the
+      // rows are merged again into fresh copies, which also become the
+      // batch's rollback snapshots
+      const ids = new Set(selected.map((o) => o.id));
+      const fresh = await loadOrdersByIds(Array.from(ids));
+      const previous = new Map(fresh.map((o) => [o.id, o]));
+      const staged = new Map(diff.entries.map((e) => [e.id, e.existing]));
+      const moved = Array.from(ids).filter((id) => JSON.stringify(previous.get(id)) !== JSON.stringify(staged.get(id)));
+      const context = [...orders.filter((o) => !previous.has(o.id)), ...fresh];
+      const toSave = classifyOrders(
+        rows.filter((row) => ids.has(row.id)).map((row) => mergeImportedOrder(previous.get(row.id), row)),
+        classification,
+        context
+      );
+      const { batch, orders: saved } = await commitImportBatch({ source: 'csv', fileName, category }, toSave, previous, rowCount);
+      if (batch) setImportBatches((prev) => [batch, ...prev]);
+
+      const byId = new Map(saved.map((o) => [o.id, o]));
+      setOrders((prev) => {
+        const known = new Set(prev.map((o) => o.id));
+        return [...saved.filter((o) => !known.has(o.id)), ...prev.map((o) => byId.get(o.id) || o)];
+      });
+      setStagedImport(null);
+
+      addToast(
+          'Import Successful', 
+          `Successfully imported ${selected.length} orders.${moved.length > 0 ? ` ${moved.length} changed after the preview and were merged with their latest version.` : ''}`,
+          'success'
+      );
+
+      if (category === 'RISK') setActiveTab('RISK');
+      if (category === 'DISPUTE_OPEN' || category === 'DISPUTE_SUBMITTED') setActiveTab('DISPUTES');
+      if (category === 'DISPUTE_WON' || category === 'DISPUTE_LOST') setActiveTab('HISTORY');
+    } catch (err: any) {
+      console.error('CSV Import Error:', err);
+      addToast('Import Failed', err.message || 'Unknown error occurred during import.', 'error', err);
+    }
+  };
+
+  // --- PROCESSOR DISPUTE IMPORT ---
+
+  const mergeIntoOrders = (updated: Order[]) => {
+    const byId = new Map(updated.map((o) => [o.id, o]));
+    setOrders((prev) => prev.map((o) => byId.get(o.id) || o));
+  };
+
+  const handleDisputeFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (disputeFileInputRef.current) disputeFileInputRef.current.value = '';
+
+    setLoading(true);
+    try {
+      const result = reconcileDisputeExport(await file.text(), orders);
+      const classified = classifyOrders(result.updated, classification, orders);
+      const previous = new Map(orders.map((o) => [o.id, o]));
+      const { batch, orders: saved } = await commitImportBatch(
+        { source: 'dispute_export', fileName: file.name },
+        classified,
+        previous,
+        result.matches.length + result.unmatched.length
+      );
+      if (batch) setImportBatches((prev) => [batch, ...prev]);
+
+      const queued = await queueUnmatchedDisputes(result.unmatched);
+      // Rows queued by an earlier import that match now
+      await removeFromReviewQueue(result.processor, result.matches.map((m) => m.record.disputeId));
+
+      mergeIntoOrders(saved);
+      setReviewQueue(await fetchDisputeReviewQueue());
+
+      const byMethod = new Map<string, number>();
+      result.matches.forEach((m) => byMethod.set(MATCH_METHOD_LABELS[m.method], (byMethod.get(MATCH_METHOD_LABELS[m.method]) || 0) + 1));
+      const breakdown = Array.from(byMethod.entries()).map(([label, count]) => `${count} by ${label}`).join(', ');
+
+      addToast(
+        `${PROCESSOR_LABELS[result.processor]} Disputes Imported`,
+        `Matched ${result.matches.length} dispute${result.matches.length === 1 ? '' : 's'}${breakdown ? ` (${breakdown})` : ''}. ${queued.length} need${queued.length === 1 ? 's' : ''} review.`,
+        'success'
+      );
+      if (queued.length > 0) setActiveTab('REVIEW');
+    } catch (err: any) {
+      console.error('Dispute Import Error:', err);
+      addToast('Import Failed', err.message || 'Could not import the dispute export.', 'error', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAssignReviewItem = async (item: DisputeReviewItem, orderId: string) => {
+    const wanted = orderId.replace(/^#/, '');
+    const order = orders.find((o) => o.id === orderId || o.id.replace(/^#/, '') === wanted);
+    if (!order) {
+      addToast('Assign Failed', `No order "${orderId}" found.`, 'error');
+      return;
+    }
+    try {
+      const [updated] = classifyOrders([applyDisputeRecord(order, item.record)], classification, orders);
+      await saveOrdersToDb([updated]);
+      await recordOrderChanges([{ before: order, after: updated }], 'edit');
+      await removeFromReviewQueue(item.processor, [item.dispute_id]);
+      mergeIntoOrders([updated]);
+      setReviewQueue((prev) => prev.filter((i) => i.id !== item.id));
+      addToast('Dispute Assigned', `${item.record.disputeId} is now on order ${order.id}.`, 'success');
+    } catch (err: any) {
+      addToast('Assign Failed', 'Could not save the dispute.', 'error', err);
+    }
+  };
+
+  const handleDismissReviewItem = async (item: DisputeReviewItem) => {
+    try {
+      await removeFromReviewQueue(item.processor, [item.dispute_id]);
+      setReviewQueue((prev) => prev.filter((i) => i.id !== item.id));
+    } catch (err: any) {
+      addToast('Dismiss Failed', 'Could not remove the dispute from the queue.', 'error', err);
+    }
+  };
+
+  // --- IMPORT HISTORY ---
+
+  const handleRollbackBatch = async (batch: ImportBatch) => {
+    try {
+      const result = await rollbackImportBatch(batch);
+      const [dbOrders, dbBatches] = await Promise.all([loadOrdersFromDb(), fetchImportBatches()]);
+      setOrders(dbOrders);
+      setImportBatches(dbBatches);
+
+      const leftAlone = (ids: string[], reason: string) => ids.length > 0
+        ? ` ${ids.length} order${ids.length === 1 ? ' was' : 's were'} left alone (${reason}): ${ids.slice(0, 5).join(', ')}${ids.length > 5 ? ', …' : ''}.`
+        : '';
+      addToast(
+        'Import Rolled Back',
+        `Restored ${result.restored} order${result.restored === 1 ? '' : 's'} and removed ${result.removed}.` +
+          leftAlone(result.skipped, 'changed by a later import') +
+          leftAlone(result.changed, 'edited or worked on since'),
+        'success'
+      );
+    } catch (err: any) {
+      console.error('Rollback Error:', err);
+      addToast('Rollback Failed', err.message || 'Could not roll back the import.', 'error', err);
+    }
   };
 
   const handleRefresh = async () => {
@@ -196,11 +539,132 @@ const App: React.FC = () => {
     }
   };
 
+  // --- SHOPIFY HANDLERS ---
+  const handleSaveStore = async () => {
+    try {
+      await saveUserProfile(storeForm.domain, storeForm.token, profile?.gemini_api_key || '');
+      setProfile((prev: any) => ({ ...prev, shopify_domain: storeForm.domain, shopify_access_token: storeForm.token }));
+      addToast('Store Saved', 'Shopify connection details updated.', 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save store settings.', 'error', err);
+    }
+  };
+
+  const handleSaveAiSettings = async () => {
+    try {
+      await saveUserProfile(profile?.shopify_domain || '', profile?.shopify_access_token || '', apiKeyInput.trim());
+      await saveUserSettings(settings);
+      setProfile((prev: any) => ({ ...prev, gemini_api_key: apiKeyInput.trim() }));
+      addToast('AI Settings Saved', `Rebuttal drafts now use ${LLM_PROVIDER_LABELS[settings.llmProvider]}.`, 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save AI settings.', 'error', err);
+    }
+  };
+
+  const handleSaveTrackingSettings = async () => {
+    try {
+      await saveUserSettings(settings);
+      addToast('Tracking Settings Saved', `Carrier tracking: ${TRACKING_ADAPTER_LABELS[settings.trackingAdapter]}.`, 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save tracking settings.', 'error', err);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      await saveUserSettings(settings);
+      addToast('Settings Saved', 'Deadline and risk settings updated. Run Validate Data to re-score existing orders.', 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save settings.', 'error', err);
+    }
+  };
+
+  const handleSaveRules = async (updated: RiskRule[]) => {
+    try {
+      await saveRiskRules(updated);
+      setRules(updated);
+      addToast('Rules Saved', 'New imports and syncs use these rules. Run Validate Data to re-classify existing orders.', 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save risk rules.', 'error', err);
+    }
+  };
+
+  const handleSaveTemplate = async (reason: TemplateReason, body: string) => {
+    try {
+      const saved = await saveRebuttalTemplate(reason, body);
+      setRebuttalTemplates((prev) => [saved, ...prev]);
+      addToast('Template Saved', `Saved as version ${saved.version}. New letters for this reason use it.`, 'success');
+    } catch (err: any) {
+      addToast('Save Failed', 'Could not save the template.', 'error', err);
+    }
+  };
+
+  const handleAddListEntry = async (list: ListType, kind: ListEntryKind, value: string, reason: string, expiresAt: string | null) => {
+    try {
+      const entry = await addListEntry(list, kind, value, reason, expiresAt);
+      setListEntries((prev) => [entry, ...prev]);
+      addToast('Entry Added', `Added to the ${list === 'block' ? 'blocklist' : 'allowlist'}. Run Validate Data to apply it to existing orders.`, 'success');
+    } catch (err: any) {
+      addToast('Add Failed', err.message, 'error', err);
+    }
+  };
+
+  const handleRemoveListEntry = async (entry: ListEntry) => {
+    try {
+      await deleteListEntry(entry.id);
+      setListEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err: any) {
+      addToast('Remove Failed', 'Could not remove the entry.', 'error', err);
+    }
+  };
+
+  const handleShopifySync = async () => {
+    if (!storeForm.domain || !storeForm.token) {
+      addToast('Sync Failed', 'Add your store domain and Admin API access token first.', 'error');
+      return;
+    }
+
+    setShowSettings(false);
+    setLoading(true);
+    try {
+      const result = await syncShopifyOrders(
+        { shopDomain: storeForm.domain, accessToken: storeForm.token, useProxy: storeForm.useProxy },
+        syncWindow,
+        setSyncProgress,
+        classification
+      );
+      const dbOrders = await loadOrdersFromDb();
+      setOrders(dbOrders);
+      setImportBatches(await fetchImportBatches());
+      if (result.syncCursor) {
+        setProfile((prev: any) => ({ ...prev, last_synced_updated_at: result.syncCursor }));
+      }
+      addToast(
+        'Sync Complete',
+        `${result.resumed ? 'Resumed sync and fetched' : 'Fetched'} ${result.ordersFetched} orders across ${result.pagesFetched} pages` +
+          (result.disputesFetched !== null ? ` and ${result.disputesFetched} disputes.` : '.'),
+        'success'
+      );
+      result.warnings.forEach((warning) => addToast('Sync Warning', warning, 'error'));
+    } catch (err: any) {
+      // Pages saved before the failure are already in the database
+      const dbOrders = await loadOrdersFromDb();
+      setOrders(dbOrders);
+      setImportBatches(await fetchImportBatches());
+      addToast('Sync Interrupted', `${err.message} Progress was saved; run the sync again to resume.`, 'error', err);
+    } finally {
+      setLoading(false);
+      setSyncProgress(null);
+    }
+  };
+
+  const pendingCheckpoint = storeForm.domain ? loadSyncCheckpoint(storeForm.domain) : null;
+
   // --- VALIDATION HANDLERS ---
   const handleRevalidate = async () => {
     setLoading(true);
     try {
-        const changes = await revalidateDatabase();
+        const changes = await revalidateDatabase(classification);
         if (changes > 0) {
             const dbOrders = await loadOrdersFromDb();
             setOrders(dbOrders);
@@ -218,8 +682,9 @@ const App: React.FC = () => {
   const handleEditOrder = async (originalOrder: Order, updates: Partial<Order>) => {
       setLoading(true);
       try {
-          const updatedOrder = applyFixesAndRevalidate(originalOrder, updates);
+          const [updatedOrder] = classifyOrders([applyFixesAndRevalidate(originalOrder, updates, rules)], classification, orders);
           await saveOrdersToDb([updatedOrder]);
+          await recordOrderChanges([{ before: originalOrder, after: updatedOrder }], 'edit');
           
           const newOrders = orders.map(o => o.id === originalOrder.id ? updatedOrder : o);
           setOrders(newOrders);
@@ -241,8 +706,9 @@ const App: React.FC = () => {
       
       setLoading(true);
       try {
-          const approved = forceApproveOrder(order);
+          const [approved] = classifyOrders([forceApproveOrder(order, rules)], classification, orders);
           await saveOrdersToDb([approved]);
+          await recordOrderChanges([{ before: order, after: approved }], 'approve');
           
           const newOrders = orders.map(o => o.id === order.id ? approved : o);
           setOrders(newOrders);
@@ -256,6 +722,162 @@ const App: React.FC = () => {
       }
   };
 
+  // --- EVIDENCE PACKETS ---
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // --- BULK LETTERS ---
+  const startLetterQueue = (queue: LetterQueue) => {
+    const userId = session.user.id;
+    const context = { provider: llmProvider, templates: rebuttalTemplates, merchantName: profile?.shopify_domain };
+    const runner = runLetterQueue(queue, {
+      draft: async (orderId) => {
+        const order = ordersRef.current.find((o) => o.id === orderId);
+        if (!order) throw new Error('Order not found. It may have been deleted.');
+        return draftQueuedLetter(order, context);
+      },
+      onChange: (next) => {
+        setLetterQueue(next);
+        saveLetterQueue(userId, next);
+      },
+    });
+    letterRunner.current = runner;
+    setLetterQueueRunning(true);
+
+    runner.done.then((final) => {
+      if (letterRunner.current === runner) {
+        letterRunner.current = null;
+        setLetterQueueRunning(false);
+      }
+      if (final.haltedReason) {
+        addLocalToast('Letter Queue Paused', final.haltedReason, 'error');
+      } else if (!isLetterQueueActive(final)) {
+        const counts = letterQueueCounts(final);
+        addToast(
+          'Letters Drafted',
+          `${counts.saved} saved as drafts, ${counts.review} need review, ${counts.failed} failed.`,
+          counts.failed > 0 ? 'error' : 'success'
+        );
+      }
+    });
+  };
+
+  const handleQueueLetters = async (targets: Order[]) => {
+    const ids = targets.filter(isLetterQueueEligible).map((o) => o.id);
+    if (ids.length === 0) {
+      addLocalToast('Nothing to Queue', 'Only chargebacks that need a response can be queued.', 'error');
+      return;
+    }
+    // A running queue is stopped and restarted with the new orders appended
+    let current = letterQueue;
+    const running = letterRunner.current;
+    if (running) {
+      running.stop();
+      current = await running.done;
+    }
+    startLetterQueue(enqueueLetters(current, ids));
+    addLocalToast('Letters Queued', `${ids.length} letter${ids.length === 1 ? '' : 's'} queued${ids.length < targets.length ? `; ${targets.length - ids.length} orders without an open chargeback were skipped` : ''}.`, 'success');
+  };
+
+  const editLetterQueue = (change: (queue: LetterQueue) => LetterQueue) => {
+    if (letterRunner.current) {
+      letterRunner.current.edit(change);
+      return;
+    }
+    if (!letterQueue) return;
+    const next = change(letterQueue);
+    setLetterQueue(next);
+    saveLetterQueue(session.user.id, next);
+  };
+
+  const handleReviewQueuedLetter = (job: LetterJob) => {
+    if (!job.text) return;
+    setRebuttal({ orderId: job.orderId, generated: { text: job.text, source: 'ai' } });
+    editLetterQueue((queue) => markLetterOpened(queue, job.orderId));
+  };
+
+  const handleDismissLetterQueue = () => {
+    if (!letterQueue) return;
+    const waiting = letterQueue.jobs.filter((job) => job.status === 'review' || isLetterJobPending(job)).length;
+    if (waiting > 0 && !window.confirm(`${waiting} letters are still queued or waiting for review. Discard them?`)) return;
+    clearLetterQueue(session.user.id);
+    setLetterQueue(null);
+  };
+
+  // --- SHIPMENT TRACKING ---
+  const handleRefreshTracking = async (targets: Order[]) => {
+    if (!trackingAdapter) {
+      addLocalToast('Tracking Lookups Off', 'Choose a carrier adapter under Carrier Tracking in Store Settings.', 'error');
+      return;
+    }
+    const tracked = targets.filter((o) => o.shipments && o.shipments.length > 0);
+    if (tracked.length === 0) {
+      addLocalToast('No Tracking Numbers', 'These orders have no tracking numbers from Shopify or a CSV import.', 'error');
+      return;
+    }
+
+    // One order at a time; real carrier APIs rate limit hard
+    const updated: Order[] = [];
+    const errors: string[] = [];
+    for (const order of tracked) {
+      const result = await refreshOrderTracking(order, trackingAdapter);
+      updated.push(result.order);
+      errors.push(...result.errors.map((e) => `${order.id} ${e}`));
+    }
+
+    try {
+      await saveOrdersToDb(updated);
+      await recordOrderChanges(tracked.map((before, i) => ({ before, after: updated[i] })), 'tracking');
+    } catch (err: any) {
+      addToast('Save Failed', 'Tracking was looked up but could not be saved.', 'error', err);
+      return;
+    }
+    const byId = new Map(updated.map((o) => [o.id, o]));
+    setOrders((prev) => prev.map((o) => byId.get(o.id) || o));
+
+    const delivered = updated.filter((o) => o.deliveryStatus === DeliveryStatus.DELIVERED).length;
+    addToast(
+      'Tracking Updated',
+      `${updated.length} order${updated.length === 1 ? '' : 's'} checked with ${trackingAdapter.label}; ${delivered} delivered.${errors.length > 0 ? ` ${errors.length} lookups failed.` : ''}`,
+      errors.length > 0 ? 'error' : 'success',
+      errors.length > 0 ? errors : undefined
+    );
+  };
+
+  const handleRebuttalSubmitted = async (order: Order, submittedAt: string) => {
+    const updated = applyRebuttalSubmission(order, submittedAt);
+    await saveOrdersToDb([updated]);
+    await recordOrderChanges([{ before: order, after: updated }], 'edit');
+    setOrders((prev) => prev.map((o) => (o.id === order.id ? updated : o)));
+    addToast('Rebuttal Submitted', `Order ${order.id} is now Under Review.`, 'success');
+  };
+
+  const handleExportPacket = async (order: Order, letter: string) => {
+    let attachments: PacketAttachment[] = [];
+    try {
+      attachments = await loadPacketAttachments(order.id);
+    } catch (err: any) {
+      addToast('Attachments Skipped', 'Uploaded evidence could not be read, so the packet only contains order data.', 'error', err);
+    }
+    const content = assembleEvidencePacket(order, letter, attachments, profile?.shopify_domain);
+    const { blob, pageCount } = renderEvidencePacketPdf(content, order.id);
+    // The download never depends on the upload succeeding
+    downloadBlob(blob, packetFileName(order.id));
+    try {
+      await saveEvidencePacket(order, blob, content.exhibits.length, pageCount);
+      addToast('Evidence Packet Saved', `${pageCount} pages with ${content.exhibits.length} exhibits, saved against order ${order.id}.`, 'success');
+    } catch (err: any) {
+      addToast('Packet Not Saved', 'The PDF was downloaded but could not be stored with the dispute.', 'error', err);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     setOrders([]);
@@ -291,11 +913,18 @@ const App: React.FC = () => {
         accept=".csv"
         className="hidden"
       />
+      <input
+        type="file"
+        ref={disputeFileInputRef}
+        onChange={handleDisputeFileSelect}
+        accept=".csv"
+        className="hidden"
+      />
 
       {/* --- SETTINGS MODAL --- */}
       {showSettings && (
         <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-            <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm border border-zinc-200">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md border border-zinc-200 flex flex-col max-h-[90vh]">
                 <div className="px-6 py-4 border-b border-zinc-100 flex justify-between items-center bg-zinc-50 rounded-t-xl">
                     <h3 className="font-bold text-zinc-900 flex items-center gap-2">
                         <Database className="w-4 h-4" /> Store Settings
@@ -303,9 +932,137 @@ const App: React.FC = () => {
                     <button onClick={() => setShowSettings(false)} className="text-zinc-400 hover:text-zinc-600"><X className="w-5 h-5"/></button>
                 </div>
                 
-                <div className="p-6 text-center text-sm text-zinc-500">
-                    <p>Current Store: <span className="font-medium text-zinc-900">CSV Mode (Offline)</span></p>
-                    <p className="mt-2 text-xs">To connect a live store, please configure API keys in the environment variables.</p>
+                <div className="p-6 space-y-4 text-sm overflow-y-auto">
+                    <div>
+                        <label className="block text-xs font-semibold text-zinc-500 uppercase mb-1">Store Domain</label>
+                        <input value={storeForm.domain} onChange={e => setStoreForm({ ...storeForm, domain: e.target.value })} placeholder="your-shop.myshopify.com" className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-zinc-500 uppercase mb-1">Admin API Access Token</label>
+                        <input type="password" value={storeForm.token} onChange={e => setStoreForm({ ...storeForm, token: e.target.value })} placeholder="shpat_..." className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-zinc-600">
+                        <input type="checkbox" checked={storeForm.useProxy} onChange={e => setStoreForm({ ...storeForm, useProxy: e.target.checked })} className="rounded border-zinc-300" />
+                        Route requests through a CORS proxy
+                    </label>
+
+                    <div className="pt-4 border-t border-zinc-100">
+                        <div className="text-xs font-semibold text-zinc-500 uppercase mb-2">Sync Window</div>
+                        {profile?.last_synced_updated_at && (
+                            <label className="flex items-start gap-2 text-xs text-zinc-600 mb-3">
+                                <input type="checkbox" checked={!!syncWindow.incremental} onChange={e => setSyncWindow({ ...syncWindow, incremental: e.target.checked })} className="rounded border-zinc-300 mt-0.5" />
+                                <span>
+                                    Only fetch changes since last sync
+                                    <span className="block text-[11px] text-zinc-400">Updated after {new Date(profile.last_synced_updated_at).toLocaleString()}</span>
+                                </span>
+                            </label>
+                        )}
+                        <div className="grid grid-cols-2 gap-3 mb-3">
+                            <div>
+                                <label className="block text-[11px] text-zinc-500 mb-1">Created after</label>
+                                <input type="date" value={syncWindow.createdAfter} onChange={e => setSyncWindow({ ...syncWindow, createdAfter: e.target.value })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                            </div>
+                            <div>
+                                <label className="block text-[11px] text-zinc-500 mb-1">Created before</label>
+                                <input type="date" value={syncWindow.createdBefore} onChange={e => setSyncWindow({ ...syncWindow, createdBefore: e.target.value })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                            </div>
+                        </div>
+                        <label className="block text-[11px] text-zinc-500 mb-1">Search filter (Shopify query syntax)</label>
+                        <input value={syncWindow.query} onChange={e => setSyncWindow({ ...syncWindow, query: e.target.value })} placeholder="e.g. tag:chargeback OR financial_status:refunded" className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                        {pendingCheckpoint && (
+                            <p className="mt-2 text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded px-2 py-1.5">
+                                An earlier sync stopped after {pendingCheckpoint.ordersFetched} orders. Syncing with the same window will resume from there.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="pt-4 border-t border-zinc-100">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="text-xs font-semibold text-zinc-500 uppercase">Response Deadlines</div>
+                            <button onClick={handleSaveSettings} className="text-[11px] text-blue-700 font-medium hover:underline">Save defaults</button>
+                        </div>
+                        <p className="text-[11px] text-zinc-400 mb-2">Days to respond when the processor does not report a due date.</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            {([
+                                ['shopify_payments', 'Shopify Payments'],
+                                ['stripe', 'Stripe'],
+                                ['paypal', 'PayPal'],
+                                ['other', 'Other'],
+                            ] as [PaymentProcessor, string][]).map(([key, label]) => (
+                                <div key={key}>
+                                    <label className="block text-[11px] text-zinc-500 mb-1">{label}</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={settings.deadlineDays[key]}
+                                        onChange={e => setSettings({ ...settings, deadlineDays: { ...settings.deadlineDays, [key]: Math.max(1, parseInt(e.target.value) || 1) } })}
+                                        className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-zinc-100">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="text-xs font-semibold text-zinc-500 uppercase">Risk Thresholds</div>
+                            <button onClick={handleSaveSettings} className="text-[11px] text-blue-700 font-medium hover:underline">Save thresholds</button>
+                        </div>
+                        <p className="text-[11px] text-zinc-400 mb-2">Risk score (0–100) at which an order is flagged.</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-[11px] text-zinc-500 mb-1">Medium risk from</label>
+                                <input type="number" min={0} max={100} value={settings.riskThresholds.medium} onChange={e => setSettings({ ...settings, riskThresholds: { ...settings.riskThresholds, medium: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) } })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                            </div>
+                            <div>
+                                <label className="block text-[11px] text-zinc-500 mb-1">High risk from</label>
+                                <input type="number" min={0} max={100} value={settings.riskThresholds.high} onChange={e => setSettings({ ...settings, riskThresholds: { ...settings.riskThresholds, high: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) } })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-zinc-100">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="text-xs font-semibold text-zinc-500 uppercase flex items-center gap-1"><Sparkles className="w-3 h-3" /> AI Letters</div>
+                            <button onClick={handleSaveAiSettings} className="text-[11px] text-blue-700 font-medium hover:underline">Save AI settings</button>
+                        </div>
+                        <label className="block text-[11px] text-zinc-500 mb-1">Provider</label>
+                        <select value={settings.llmProvider} onChange={e => setSettings({ ...settings, llmProvider: e.target.value as LlmProviderId })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm bg-white mb-3">
+                            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map((id) => (
+                                <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>
+                            ))}
+                        </select>
+                        {settings.llmProvider === 'gemini' ? (
+                            <>
+                                <label className="block text-[11px] text-zinc-500 mb-1">Gemini API key</label>
+                                <input type="password" value={apiKeyInput} onChange={e => setApiKeyInput(e.target.value)} placeholder="Uses the deployment's API_KEY when empty" className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm" />
+                            </>
+                        ) : (
+                            <p className="text-[11px] text-zinc-400">Drafts are the filled-in rebuttal template, produced offline without calling a model.</p>
+                        )}
+                    </div>
+
+                    <div className="pt-4 border-t border-zinc-100">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="text-xs font-semibold text-zinc-500 uppercase">Carrier Tracking</div>
+                            <button onClick={handleSaveTrackingSettings} className="text-[11px] text-blue-700 font-medium hover:underline">Save tracking settings</button>
+                        </div>
+                        <select value={settings.trackingAdapter} onChange={e => setSettings({ ...settings, trackingAdapter: e.target.value as TrackingAdapterId })} className="w-full px-3 py-2 border border-zinc-300 rounded-lg text-sm bg-white mb-1">
+                            {(Object.keys(TRACKING_ADAPTER_LABELS) as TrackingAdapterId[]).map((id) => (
+                                <option key={id} value={id}>{TRACKING_ADAPTER_LABELS[id]}</option>
+                            ))}
+                        </select>
+                        <p className="text-[11px] text-zinc-400">
+                            {settings.trackingAdapter === 'mock'
+                                ? 'Invents repeatable delivery events from each tracking number. For trying the flow only; never submit letters built on mock tracking.'
+                                : 'Tracking numbers and Shopify delivery dates are still imported; no carrier is asked for scan events.'}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-zinc-100 bg-zinc-50 flex gap-3 justify-end rounded-b-xl">
+                    <button onClick={handleSaveStore} className="px-4 py-2 bg-white border border-zinc-300 text-zinc-700 rounded-lg text-sm font-medium hover:bg-zinc-100">Save</button>
+                    <button onClick={handleShopifySync} disabled={loading} className="px-4 py-2 bg-zinc-900 text-white rounded-lg text-sm font-medium hover:bg-zinc-800 disabled:opacity-50 flex items-center gap-2"><RefreshCw className="w-4 h-4" /> Sync Orders</button>
                 </div>
             </div>
         </div>
@@ -339,17 +1096,49 @@ const App: React.FC = () => {
                     )}
                 </div>
 
-                <div className="p-4 border-t border-zinc-100 bg-zinc-50 flex justify-end">
+                <div className="p-4 border-t border-zinc-100 bg-zinc-50 flex justify-end gap-2">
+                    {(() => {
+                        const orderId = alertOrderId(selectedAlert);
+                        return orderId && orders.some((o) => o.id === orderId) ? (
+                            <button onClick={() => { setSelectedAlert(null); setDetailOrderId(orderId); }} className="px-4 py-2 bg-zinc-900 text-white font-medium rounded-lg hover:bg-zinc-800 transition-colors">View Order</button>
+                        ) : null;
+                    })()}
                     <button onClick={() => setSelectedAlert(null)} className="px-4 py-2 bg-white border border-zinc-300 text-zinc-700 font-medium rounded-lg hover:bg-zinc-100 transition-colors">Close</button>
                 </div>
             </div>
         </div>
       )}
 
+      {/* --- ORDER DETAIL DRAWER --- */}
+      {detailOrder && (
+        <OrderDetailPanel
+          order={detailOrder}
+          orders={orders}
+          alerts={alertHistory}
+          importBatches={importBatches}
+          onClose={() => setDetailOrderId(null)}
+          onOpenOrder={setDetailOrderId}
+          onOpenRebuttal={(order) => setRebuttal({ orderId: order.id })}
+          onRefreshTracking={(order) => handleRefreshTracking([order])}
+        />
+      )}
+
+      {/* --- REBUTTAL EDITOR --- */}
+      {rebuttalOrder && rebuttal && (
+        <RebuttalEditor
+          key={rebuttalOrder.id}
+          order={rebuttalOrder}
+          generated={rebuttal.generated}
+          onClose={() => setRebuttal(null)}
+          onExportPacket={handleExportPacket}
+          onSubmitted={handleRebuttalSubmitted}
+        />
+      )}
+
       {/* --- IMPORT MODAL --- */}
       {showImportModal && pendingFile && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
-          <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 border border-zinc-200">
+          <div className={`bg-white rounded-xl shadow-2xl w-full ${importPreview ? 'max-w-5xl' : 'max-w-md'} p-6 border border-zinc-200 max-h-[90vh] overflow-y-auto`}>
             <div className="flex items-center gap-3 mb-4">
               <div className="bg-blue-100 p-2.5 rounded-lg text-blue-600">
                 <FileSpreadsheet className="w-6 h-6" />
@@ -360,73 +1149,114 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <p className="text-sm text-zinc-600 mb-4 font-medium">Select the status for these orders:</p>
-
-            <div className="space-y-2 mb-6 max-h-[50vh] overflow-y-auto pr-1">
-              <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_OPEN' ? 'border-amber-500 bg-amber-50 ring-1 ring-amber-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
-                <input type="radio" name="cat" checked={importCategory === 'DISPUTE_OPEN'} onChange={() => setImportCategory('DISPUTE_OPEN')} className="accent-amber-600 w-4 h-4" />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
-                    <AlertTriangle className="w-4 h-4 text-amber-600" />
-                    Chargeback Open
-                  </div>
-                  <div className="text-xs text-zinc-500 pl-6">Action Required / Response Needed</div>
-                </div>
-              </label>
-
-              <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_SUBMITTED' ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
-                <input type="radio" name="cat" checked={importCategory === 'DISPUTE_SUBMITTED'} onChange={() => setImportCategory('DISPUTE_SUBMITTED')} className="accent-blue-600 w-4 h-4" />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
-                    <Clock className="w-4 h-4 text-blue-600" />
-                    Chargeback Submitted
-                  </div>
-                  <div className="text-xs text-zinc-500 pl-6">Evidence sent / Under Review</div>
-                </div>
-              </label>
-
-              <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_WON' ? 'border-green-500 bg-green-50 ring-1 ring-green-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
-                <input type="radio" name="cat" checked={importCategory === 'DISPUTE_WON'} onChange={() => setImportCategory('DISPUTE_WON')} className="accent-green-600 w-4 h-4" />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
-                    <ThumbsUp className="w-4 h-4 text-green-600" />
-                    Dispute Won
-                  </div>
-                  <div className="text-xs text-zinc-500 pl-6">Case closed in your favor</div>
+            <div className={importPreview ? 'grid grid-cols-1 md:grid-cols-5 gap-6' : ''}>
+              {importPreview && (
+                <div className="md:col-span-3">
+                  <p className="text-sm text-zinc-600 mb-3 font-medium">Match the file's columns to order fields:</p>
+                  <ColumnMapper
+                    preview={importPreview}
+                    mapping={columnMapping}
+                    onChange={setColumnMapping}
+                    profile={importProfile}
+                    onSaveProfile={handleSaveImportProfile}
+                  />
                 </div>
-              </label>
-
-              <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_LOST' ? 'border-zinc-500 bg-zinc-100 ring-1 ring-zinc-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
-                <input type="radio" name="cat" checked={importCategory === 'DISPUTE_LOST'} onChange={() => setImportCategory('DISPUTE_LOST')} className="accent-zinc-600 w-4 h-4" />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
-                    <ThumbsDown className="w-4 h-4 text-zinc-600" />
-                    Dispute Lost
-                  </div>
-                  <div className="text-xs text-zinc-500 pl-6">Funds lost</div>
-                </div>
-              </label>
-
-              <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'RISK' ? 'border-red-500 bg-red-50 ring-1 ring-red-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
-                <input type="radio" name="cat" checked={importCategory === 'RISK'} onChange={() => setImportCategory('RISK')} className="accent-red-600 w-4 h-4" />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
-                    <ShieldAlert className="w-4 h-4 text-red-600" />
-                    High Risk / Fraud
-                  </div>
-                  <div className="text-xs text-zinc-500 pl-6">Suspicious orders (No dispute yet)</div>
+              )}
+
+              <div className={importPreview ? 'md:col-span-2' : ''}>
+                <p className="text-sm text-zinc-600 mb-4 font-medium">Select the status for these orders:</p>
+
+                <div className="space-y-2 mb-6 max-h-[50vh] overflow-y-auto pr-1">
+                  <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_OPEN' ? 'border-amber-500 bg-amber-50 ring-1 ring-amber-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
+                    <input type="radio" name="cat" checked={importCategory === 'DISPUTE_OPEN'} onChange={() => setImportCategory('DISPUTE_OPEN')} className="accent-amber-600 w-4 h-4" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
+                        <AlertTriangle className="w-4 h-4 text-amber-600" />
+                        Chargeback Open
+                      </div>
+                      <div className="text-xs text-zinc-500 pl-6">Action Required / Response Needed</div>
+                    </div>
+                  </label>
+
+                  <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_SUBMITTED' ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
+                    <input type="radio" name="cat" checked={importCategory === 'DISPUTE_SUBMITTED'} onChange={() => setImportCategory('DISPUTE_SUBMITTED')} className="accent-blue-600 w-4 h-4" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
+                        <Clock className="w-4 h-4 text-blue-600" />
+                        Chargeback Submitted
+                      </div>
+                      <div className="text-xs text-zinc-500 pl-6">Evidence sent / Under Review</div>
+                    </div>
+                  </label>
+
+                  <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_WON' ? 'border-green-500 bg-green-50 ring-1 ring-green-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
+                    <input type="radio" name="cat" checked={importCategory === 'DISPUTE_WON'} onChange={() => setImportCategory('DISPUTE_WON')} className="accent-green-600 w-4 h-4" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
+                        <ThumbsUp className="w-4 h-4 text-green-600" />
+                        Dispute Won
+                      </div>
+                      <div className="text-xs text-zinc-500 pl-6">Case closed in your favor</div>
+                    </div>
+                  </label>
+
+                  <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'DISPUTE_LOST' ? 'border-zinc-500 bg-zinc-100 ring-1 ring-zinc-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
+                    <input type="radio" name="cat" checked={importCategory === 'DISPUTE_LOST'} onChange={() => setImportCategory('DISPUTE_LOST')} className="accent-zinc-600 w-4 h-4" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
+                        <ThumbsDown className="w-4 h-4 text-zinc-600" />
+                        Dispute Lost
+                      </div>
+                      <div className="text-xs text-zinc-500 pl-6">Funds lost</div>
+                    </div>
+                  </label>
+
+                  <label className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${importCategory === 'RISK' ? 'border-red-500 bg-red-50 ring-1 ring-red-500 shadow-sm' : 'border-zinc-200 hover:bg-zinc-50'}`}>
+                    <input type="radio" name="cat" checked={importCategory === 'RISK'} onChange={() => setImportCategory('RISK')} className="accent-red-600 w-4 h-4" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 font-medium text-sm text-zinc-900">
+                        <ShieldAlert className="w-4 h-4 text-red-600" />
+                        High Risk / Fraud
+                      </div>
+                      <div className="text-xs text-zinc-500 pl-6">Suspicious orders (No dispute yet)</div>
+                    </div>
+                  </label>
                 </div>
-              </label>
+              </div>
             </div>
 
             <div className="flex gap-3 pt-2">
-              <button onClick={() => { setShowImportModal(false); setPendingFile(null); }} className="flex-1 py-2.5 bg-white border border-zinc-300 text-zinc-700 rounded-lg font-medium hover:bg-zinc-50 shadow-sm transition-colors">Cancel</button>
-              <button onClick={processImport} disabled={loading} className="flex-1 py-2.5 bg-zinc-900 text-white rounded-lg font-medium hover:bg-zinc-800 disabled:opacity-50 shadow-md transition-all active:scale-95">{loading ? 'Processing...' : 'Import Orders'}</button>
+              <button onClick={closeImportModal} className="flex-1 py-2.5 bg-white border border-zinc-300 text-zinc-700 rounded-lg font-medium hover:bg-zinc-50 shadow-sm transition-colors">Cancel</button>
+              <button onClick={processImport} disabled={loading || missingRequiredFields(columnMapping).length > 0} className="flex-1 py-2.5 bg-zinc-900 text-white rounded-lg font-medium hover:bg-zinc-800 disabled:opacity-50 shadow-md transition-all active:scale-95">{loading ? 'Processing...' : 'Preview Import'}</button>
             </div>
           </div>
         </div>
       )}
 
+      {/* --- IMPORT PREVIEW --- */}
+      {stagedImport && (
+        <ImportPreview
+          fileName={stagedImport.fileName}
+          diff={stagedImport.diff}
+          onCommit={commitImport}
+          onCancel={() => setStagedImport(null)}
+        />
+      )}
+
+      {/* --- BULK LETTER QUEUE --- */}
+      {letterQueue && (
+        <LetterQueuePanel
+          queue={letterQueue}
+          running={letterQueueRunning}
+          onPause={() => letterRunner.current?.stop()}
+          onResume={() => startLetterQueue(letterQueue)}
+          onRetryFailed={() => startLetterQueue(retryFailedLetters(letterQueue))}
+          onReview={handleReviewQueuedLetter}
+          onOpenOrder={setDetailOrderId}
+          onDismiss={handleDismissLetterQueue}
+        />
+      )}
+
       {/* --- FLOATING TOAST STACK --- */}
       <div className="fixed bottom-6 right-6 z-[100] flex flex-col gap-3 pointer-events-none">
         {toasts.map((toast) => (
@@ -464,8 +1294,9 @@ const App: React.FC = () => {
           activeTab={activeTab}
           onTabChange={setActiveTab}
           onOpenSettings={() => setShowSettings(true)}
-          onClearData={() => { setOrders([]); addToast('Data Purged', 'All records cleared.', 'success'); }}
+          onClearData={() => { setOrders([]); setImportBatches([]); addToast('Data Purged', 'All records cleared.', 'success'); }}
           orders={orders}
+          reviewCount={reviewQueue.length}
         />
       </div>
 
@@ -476,8 +1307,20 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2">
             <h1 className="text-lg font-bold text-zinc-800 text-red-600">Dispute Management v2</h1>
             <span className="px-2 py-0.5 bg-zinc-100 text-zinc-600 text-xs rounded-full font-medium border border-zinc-200 flex items-center gap-1">
-               Offline / CSV Mode
+               {profile?.shopify_domain ? profile.shopify_domain : 'Offline / CSV Mode'}
             </span>
+            {syncProgress && (
+              <span className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full font-medium border border-blue-200 flex items-center gap-1">
+                <RefreshCw className="w-3 h-3 animate-spin" />
+                {syncProgress.resumed ? 'Resuming' : 'Syncing'}: {syncProgress.ordersFetched} orders ({syncProgress.pagesFetched} pages)
+              </span>
+            )}
+            {importProgress && (
+              <span className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full font-medium border border-blue-200 flex items-center gap-1">
+                <RefreshCw className="w-3 h-3 animate-spin" />
+                Importing: {Math.round((importProgress.bytesRead / Math.max(importProgress.totalBytes, 1)) * 100)}% ({importProgress.rows} rows)
+              </span>
+            )}
           </div>
 
           <div className="flex items-center gap-4">
@@ -531,6 +1374,9 @@ const App: React.FC = () => {
             <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 flex items-center gap-2 shadow-sm transition-colors" title="Import Shopify CSV">
               <Upload className="w-4 h-4" /> Import CSV
             </button>
+            <button onClick={() => disputeFileInputRef.current?.click()} className="px-3 py-1.5 bg-white border border-zinc-300 text-zinc-700 text-sm font-medium rounded-md hover:bg-zinc-50 flex items-center gap-2 shadow-sm transition-colors" title="Import a Stripe or PayPal dispute export">
+              <Upload className="w-4 h-4" /> Import Disputes
+            </button>
             <div className="text-sm text-zinc-500 hidden md:block">{session.user.email}</div>
             <button onClick={handleSignOut} className="p-2 text-zinc-500 hover:bg-zinc-100 rounded-full" title="Sign Out">
               <LogOut className="w-5 h-5" />
@@ -555,7 +1401,23 @@ const App: React.FC = () => {
               </div>
             ) : null}
 
-            {orders.length > 0 || loading ? (
+            {activeTab === 'RULES' ? (
+              <RulesEditor rules={rules} onSave={handleSaveRules} onBacktest={(rule) => backtestRule(rule, classification)} />
+            ) : activeTab === 'LISTS' ? (
+              <ListManager entries={listEntries} onAdd={handleAddListEntry} onRemove={handleRemoveListEntry} />
+            ) : activeTab === 'REVIEW' ? (
+              <DisputeReviewQueue
+                items={reviewQueue}
+                orders={orders}
+                onImport={() => disputeFileInputRef.current?.click()}
+                onAssign={handleAssignReviewItem}
+                onDismiss={handleDismissReviewItem}
+              />
+            ) : activeTab === 'TEMPLATES' ? (
+              <TemplateEditor templates={rebuttalTemplates} orders={orders} merchantName={profile?.shopify_domain} onSave={handleSaveTemplate} />
+            ) : activeTab === 'IMPORTS' ? (
+              <ImportHistory batches={importBatches} onRollback={handleRollbackBatch} />
+            ) : orders.length > 0 || loading ? (
               <OrderTable
                 orders={orders}
                 activeTab={activeTab}
@@ -563,6 +1425,14 @@ const App: React.FC = () => {
                 onValidate={handleRevalidate} // Pass the handler
                 onEdit={handleEditOrder}
                 onApprove={handleForceApprove}
+                onOpenOrder={setDetailOrderId}
+                onOpenRebuttal={(order, generated) => setRebuttal({ orderId: order.id, generated })}
+                onQueueLetters={handleQueueLetters}
+                onRefreshTracking={handleRefreshTracking}
+                llmProvider={llmProvider}
+                templates={rebuttalTemplates}
+                merchantName={profile?.shopify_domain}
+                settings={settings}
               />
             ) : (
               <div className="flex-1 flex flex-col items-center justify-center p-12 text-center">
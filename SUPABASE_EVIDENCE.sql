@@ -0,0 +1,60 @@
+-- Evidence packets and attachments.
+-- Run once in the Supabase SQL editor. Files live in the private 'evidence'
+-- bucket under <user id>/<order>/..., and every row and object belongs to the
+-- user who created it.
+
+-- 1. STORAGE BUCKET
+insert into storage.buckets (id, name, public)
+values ('evidence', 'evidence', false)
+on conflict (id) do nothing;
+
+-- 2. TABLES
+create table if not exists public.evidence_packets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_id text not null,
+  dispute_id text,
+  file_path text not null,
+  exhibit_count integer not null default 0,
+  page_count integer not null default 0,
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.evidence_attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_id text not null,
+  dispute_id text,
+  file_path text not null,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes bigint not null,
+  evidence_type text not null default 'other'
+    check (evidence_type in ('proof_of_delivery', 'customer_communication', 'refund_policy', 'avs_cvv', 'other')),
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists evidence_packets_order_idx on public.evidence_packets (user_id, order_id);
+create index if not exists evidence_attachments_order_idx on public.evidence_attachments (user_id, order_id);
+
+-- 3. ROW LEVEL SECURITY
+alter table public.evidence_packets enable row level security;
+alter table public.evidence_attachments enable row level security;
+
+create policy "Own evidence packets" on public.evidence_packets
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Own evidence attachments" on public.evidence_attachments
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 4. STORAGE POLICIES (first path segment is the owner's user id)
+create policy "Read own evidence files" on storage.objects
+  for select using (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Upload own evidence files" on storage.objects
+  for insert with check (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Delete own evidence files" on storage.objects
+  for delete using (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,194 @@
+-- Tables and columns the app needs beyond the original setup, in the order
+-- the features were added. Run once in the Supabase SQL editor. Every table
+-- belongs to the user who created its rows; the orders, disputes, alerts and
+-- profiles tables are expected to exist already.
+
+-- 1. INCREMENTAL SYNC
+-- Newest Shopify updatedAt already stored; incremental syncs start after it.
+alter table public.profiles add column if not exists last_synced_updated_at timestamptz;
+
+-- 2. DISPUTE MODEL
+-- The processor dispute a saved rebuttal answers.
+alter table public.disputes add column if not exists dispute_id text;
+
+-- 3. USER SETTINGS
+-- Deadline windows, processor and the other Store Settings, as one JSON object.
+alter table public.profiles add column if not exists settings jsonb;
+
+-- 4. RISK RULES (one rule set per user, saved with upsert on user_id)
+create table if not exists public.risk_rules (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  rules jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.risk_rules enable row level security;
+
+create policy "Own risk rules" on public.risk_rules
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 5. BLOCK / ALLOW LISTS
+create table if not exists public.list_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  list text not null check (list in ('block', 'allow')),
+  kind text not null check (kind in ('email', 'address', 'ip', 'card_bin', 'card_last4')),
+  -- Normalized for matching; label is what the user typed
+  value text not null,
+  label text not null,
+  reason text not null default '',
+  expires_at timestamptz,
+  added_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists list_entries_user_idx on public.list_entries (user_id, list);
+
+alter table public.list_entries enable row level security;
+
+create policy "Own list entries" on public.list_entries
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 6. IMPORT PROFILES
+create table if not exists public.import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  -- Normalized, sorted headers; files with the same signature reuse the profile
+  header_signature text not null,
+  mapping jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists import_profiles_user_idx on public.import_profiles (user_id);
+
+alter table public.import_profiles enable row level security;
+
+create policy "Own import profiles" on public.import_profiles
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 7. DISPUTE REVIEW QUEUE (export rows that matched no order)
+create table if not exists public.dispute_review_queue (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  processor text not null,
+  dispute_id text not null,
+  record jsonb not null,
+  note text not null default '',
+  created_at timestamptz not null default now(),
+  -- Re-importing an export updates its rows instead of adding copies
+  unique (user_id, processor, dispute_id)
+);
+
+alter table public.dispute_review_queue enable row level security;
+
+create policy "Own dispute review queue" on public.dispute_review_queue
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 8. IMPORT BATCHES
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source text not null check (source in ('csv', 'shopify_sync', 'dispute_export')),
+  -- File name, or the store domain for a sync
+  file_name text not null,
+  category text,
+  row_count integer not null default 0,
+  order_count integer not null default 0,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  rolled_back_at timestamptz
+);
+
+-- Each order a batch wrote, before (null when the batch created it) and after
+create table if not exists public.import_batch_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  batch_id uuid not null references public.import_batches (id) on delete cascade,
+  order_id text not null,
+  before jsonb,
+  after jsonb not null,
+  -- A sync can write an order twice; the first snapshot is kept
+  unique (batch_id, order_id)
+);
+
+create index if not exists import_batches_user_idx on public.import_batches (user_id, created_at desc);
+create index if not exists import_batch_orders_order_idx on public.import_batch_orders (user_id, order_id);
+
+alter table public.import_batches enable row level security;
+alter table public.import_batch_orders enable row level security;
+
+create policy "Own import batches" on public.import_batches
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Own import batch orders" on public.import_batch_orders
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 9. AUDIT LOG
+-- Append-only: owners may insert and read their rows, and no policy allows
+-- an update or delete. batch_id has no foreign key so clearing import
+-- history leaves the log intact.
+create table if not exists public.order_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_id text not null,
+  -- Dotted path into the order; '*' when the whole order was created or deleted
+  field_path text not null,
+  old_value jsonb,
+  new_value jsonb,
+  actor text not null,
+  source text not null,
+  batch_id uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_audit_log_order_idx on public.order_audit_log (user_id, order_id, created_at desc);
+
+alter table public.order_audit_log enable row level security;
+
+create policy "Read own audit log" on public.order_audit_log
+  for select using (auth.uid() = user_id);
+
+create policy "Append own audit log" on public.order_audit_log
+  for insert with check (auth.uid() = user_id);
+
+-- 10. REBUTTAL TEMPLATES
+-- Saves never overwrite: each one adds the next version of a reason.
+create table if not exists public.rebuttal_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null,
+  version integer not null,
+  body text not null,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, reason, version)
+);
+
+alter table public.rebuttal_templates enable row level security;
+
+create policy "Own rebuttal templates" on public.rebuttal_templates
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 11. REBUTTAL EDITOR
+-- Date the rebuttal was sent to the processor.
+alter table public.disputes add column if not exists submitted_at timestamptz;
+
+-- Snapshots of every generated draft and editing session
+create table if not exists public.dispute_draft_versions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_id text not null,
+  version integer not null,
+  text text not null,
+  source text not null check (source in ('ai', 'template', 'edit')),
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, order_id, version)
+);
+
+alter table public.dispute_draft_versions enable row level security;
+
+create policy "Own draft versions" on public.dispute_draft_versions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
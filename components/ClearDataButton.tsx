@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Trash2, AlertTriangle, X, Loader2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { removeUserEvidence } from '../services/evidenceStorage';
 
 interface ClearDataButtonProps {
   onCleared: () => void;
@@ -30,7 +31,19 @@ const ClearDataButton: React.FC<ClearDataButtonProps> = ({ onCleared }) => {
 
       if (countError) throw new Error("Could not verify data: " + countError.message);
 
-      // 2. DELETE DISPUTES
+      // 2. DELETE EVIDENCE (rows are looked up by order number, so a re-import would pick them up again)
+      await removeUserEvidence(user.id);
+
+      for (const table of ['evidence_packets', 'evidence_attachments', 'dispute_review_queue']) {
+        const { error: evidenceError } = await supabase
+          .from(table)
+          .delete()
+          .eq('user_id', user.id);
+
+        if (evidenceError) throw new Error("Evidence delete failed: " + evidenceError.message);
+      }
+
+      // 2a. DELETE DISPUTES
       const { error: disputeError } = await supabase
         .from('disputes')
         .delete()
@@ -38,6 +51,28 @@ const ClearDataButton: React.FC<ClearDataButtonProps> = ({ onCleared }) => {
 
       if (disputeError) throw new Error("Dispute delete failed: " + disputeError.message);
 
+      const { error: versionError } = await supabase
+        .from('dispute_draft_versions')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (versionError) throw new Error("Dispute delete failed: " + versionError.message);
+
+      // 2b. DELETE IMPORT HISTORY (its snapshots would restore the purged orders)
+      const { error: batchOrderError } = await supabase
+        .from('import_batch_orders')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (batchOrderError) throw new Error("Import history delete failed: " + batchOrderError.message);
+
+      const { error: batchError } = await supabase
+        .from('import_batches')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (batchError) throw new Error("Import history delete failed: " + batchError.message);
+
       // 3. DELETE ORDERS
       const { error: orderError, count: deletedCount } = await supabase
         .from('orders')
@@ -104,7 +139,7 @@ const ClearDataButton: React.FC<ClearDataButtonProps> = ({ onCleared }) => {
             {/* Body */}
             <div className="p-6">
               <p className="text-sm text-zinc-600 leading-relaxed">
-                You are about to permanently remove <strong>all imported orders</strong> and <strong>dispute drafts</strong> from your database.
+                You are about to permanently remove <strong>all imported orders</strong>, <strong>dispute drafts</strong>, <strong>uploaded evidence and packets</strong>, the dispute review queue and import history from your database.
               </p>
               <div className="mt-4 p-3 bg-zinc-50 rounded-lg border border-zinc-200 text-xs text-zinc-500">
                 Your Shopify Store connection and API keys will <strong>not</strong> be deleted.
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bookmark, Wand2, Save, Loader2, AlertTriangle } from 'lucide-react';
+import { ColumnMapping, CsvField, ImportProfile } from '../types';
+import { CsvPreview } from '../services/csvParser';
+import { CSV_FIELDS, missingRequiredFields, suggestMapping } from '../services/csvColumns';
+
+interface ColumnMapperProps {
+  preview: CsvPreview;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  // The saved profile the mapping came from, if any
+  profile: ImportProfile | null;
+  onSaveProfile: (name: string) => Promise<void>;
+}
+
+const selectClass = 'w-full px-2 py-1.5 border border-zinc-300 rounded-md text-xs focus:ring-2 focus:ring-zinc-900 outline-none bg-white';
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ preview, mapping, onChange, profile, onSaveProfile }) => {
+  const [profileName, setProfileName] = useState(profile?.name || '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setProfileName(profile?.name || '');
+  }, [profile]);
+
+  const missing = useMemo(() => missingRequiredFields(mapping), [mapping]);
+  const mappedFields = CSV_FIELDS.filter((def) => mapping[def.field]);
+
+  const sampleValue = (header?: string, row: string[] = preview.rows[0] || []) => {
+    if (!header) return '';
+    const index = preview.headers.indexOf(header);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+
+  const setField = (field: CsvField, header: string) => {
+    const next = { ...mapping };
+    if (header) next[field] = header;
+    else delete next[field];
+    onChange(next);
+  };
+
+  const handleSave = async () => {
+    if (!profileName.trim()) return;
+    setSaving(true);
+    try {
+      await onSaveProfile(profileName);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs text-zinc-600">
+          {profile ? (
+            <><Bookmark className="w-3.5 h-3.5 text-blue-600" /> Using saved profile <span className="font-semibold text-zinc-900">{profile.name}</span></>
+          ) : (
+            <><Wand2 className="w-3.5 h-3.5 text-zinc-500" /> Columns suggested from the file's headers</>
+          )}
+        </div>
+        <button
+          onClick={() => onChange(suggestMapping(preview.headers))}
+          className="text-xs text-zinc-500 hover:text-zinc-900 underline-offset-2 hover:underline"
+        >
+          Reset to suggestions
+        </button>
+      </div>
+
+      <div className="border border-zinc-200 rounded-lg max-h-64 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead className="bg-zinc-50 sticky top-0 border-b border-zinc-200">
+            <tr className="text-[11px] uppercase tracking-wide text-zinc-500">
+              <th className="px-3 py-2 font-medium w-1/3">Field</th>
+              <th className="px-3 py-2 font-medium w-1/3">Column in file</th>
+              <th className="px-3 py-2 font-medium">First row</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {CSV_FIELDS.map((def) => (
+              <tr key={def.field} className="text-xs text-zinc-700">
+                <td className="px-3 py-1.5">
+                  {def.label}
+                  {def.required && <span className="text-red-500 ml-0.5">*</span>}
+                </td>
+                <td className="px-3 py-1.5">
+                  <select value={mapping[def.field] || ''} onChange={(e) => setField(def.field, e.target.value)} className={selectClass}>
+                    <option value="">— Not mapped —</option>
+                    {preview.headers.map((header, i) => (
+                      <option key={`${header}-${i}`} value={header}>{header || `(Column ${i + 1})`}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-1.5 font-mono text-[11px] text-zinc-500 truncate max-w-[160px]" title={sampleValue(mapping[def.field])}>
+                  {sampleValue(mapping[def.field]) || '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          Map {missing.map((def) => def.label).join(', ')} to import this file.
+        </div>
+      )}
+
+      {preview.rows.length > 0 && mappedFields.length > 0 && (
+        <div>
+          <div className="text-[11px] uppercase tracking-wide text-zinc-500 font-medium mb-1">Preview ({preview.rows.length} rows)</div>
+          <div className="border border-zinc-200 rounded-lg overflow-x-auto">
+            <table className="text-left whitespace-nowrap">
+              <thead className="bg-zinc-50 border-b border-zinc-200">
+                <tr className="text-[11px] text-zinc-500">
+                  {mappedFields.map((def) => <th key={def.field} className="px-3 py-1.5 font-medium">{def.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100">
+                {preview.rows.map((row, i) => (
+                  <tr key={i} className="text-[11px] text-zinc-700 font-mono">
+                    {mappedFields.map((def) => (
+                      <td key={def.field} className="px-3 py-1 max-w-[180px] truncate">{sampleValue(mapping[def.field], row)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name, e.g. Stripe payments"
+          className="flex-1 px-3 py-1.5 border border-zinc-300 rounded-lg text-xs focus:ring-2 focus:ring-zinc-900 outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!profileName.trim() || saving || missing.length > 0}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border border-zinc-300 bg-white text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          {profile && profile.name === profileName.trim() ? 'Update profile' : 'Save as profile'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Inbox, Upload, Link2, X, Loader2 } from 'lucide-react';
+import { DisputeReviewItem, Order } from '../types';
+import { PROCESSOR_LABELS } from '../services/processorDisputeService';
+import { formatDisputeReason } from '../services/disputeService';
+import { normalizeEmail } from '../services/customerService';
+
+interface DisputeReviewQueueProps {
+  items: DisputeReviewItem[];
+  orders: Order[];
+  onImport: () => void;
+  onAssign: (item: DisputeReviewItem, orderId: string) => Promise<void>;
+  onDismiss: (item: DisputeReviewItem) => Promise<void>;
+}
+
+const MAX_SUGGESTIONS = 3;
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount);
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+/**
+ * Orders worth offering for a queued dispute: same amount or same customer.
+ */
+const suggestOrders = (item: DisputeReviewItem, orders: Order[]): Order[] => {
+  const email = normalizeEmail(item.record.email);
+  return orders
+    .filter((o) => o.import_category !== 'INVALID')
+    .map((order) => {
+      let score = 0;
+      if (Math.abs(order.total - item.record.amount) < 0.01) score += 2;
+      if (email && normalizeEmail(order.customer?.email) === email) score += 3;
+      return { order, score };
+    })
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((s) => s.order);
+};
+
+export const DisputeReviewQueue: React.FC<DisputeReviewQueueProps> = ({ items, orders, onImport, onAssign, onDismiss }) => {
+  const [orderInputs, setOrderInputs] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const suggestions = useMemo(
+    () => new Map(items.map((item) => [item.id, suggestOrders(item, orders)])),
+    [items, orders]
+  );
+
+  const run = async (item: DisputeReviewItem, action: () => Promise<void>) => {
+    setBusyId(item.id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const assign = (item: DisputeReviewItem, orderId: string) => run(item, () => onAssign(item, orderId.trim()));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-none px-6 py-4 border-b border-zinc-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900">Dispute Review</h2>
+          <p className="text-xs text-zinc-500 mt-1 max-w-2xl">
+            Disputes from Stripe or PayPal exports that could not be matched to an order by order number, charge ID,
+            email and amount, or payment date. Assign each one to its order, or dismiss it.
+          </p>
+        </div>
+        <button onClick={onImport} className="shrink-0 px-3 py-1.5 bg-zinc-900 text-white text-sm font-medium rounded-md hover:bg-zinc-800 flex items-center gap-2 shadow-sm">
+          <Upload className="w-4 h-4" /> Import Dispute Export
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 text-sm text-zinc-400 py-16">
+            <Inbox className="w-8 h-8" />
+            Nothing to review.
+          </div>
+        ) : (
+          <ul className="divide-y divide-zinc-100">
+            {items.map((item) => {
+              const { record } = item;
+              const busy = busyId === item.id;
+              const typed = orderInputs[item.id] || '';
+              return (
+                <li key={item.id} className="px-6 py-4 flex flex-col gap-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="text-[13px] text-zinc-700 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-zinc-100 text-zinc-600 border border-zinc-200">{PROCESSOR_LABELS[item.processor]}</span>
+                        <span className="font-mono text-xs">{record.disputeId}</span>
+                        <span className="font-semibold text-zinc-900">{formatMoney(record.amount, record.currency)}</span>
+                        <span className="text-zinc-500">· {formatDisputeReason(record.reason)} · {record.status}</span>
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {record.email || 'No email'} · Opened {formatDate(record.openedAt)} · Due {formatDate(record.evidenceDueBy)}
+                        {record.chargeId && <> · Charge <span className="font-mono">{record.chargeId}</span></>}
+                        {record.orderRef && <> · Order ref {record.orderRef}</>}
+                      </div>
+                      <div className="text-[11px] text-amber-700">{item.note}</div>
+                    </div>
+                    <button
+                      onClick={() => run(item, () => onDismiss(item))}
+                      disabled={busy}
+                      className="p-1.5 text-zinc-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                      title="Dismiss"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(suggestions.get(item.id) || []).map((order) => (
+                      <button
+                        key={order.id}
+                        onClick={() => assign(item, order.id)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-zinc-200 bg-white hover:bg-zinc-50 disabled:opacity-50"
+                        title={`${order.customer?.email || ''} · ${new Date(order.created_at).toLocaleDateString()}`}
+                      >
+                        <Link2 className="w-3 h-3" /> {order.id} · {formatMoney(order.total, order.currency || 'USD')}
+                      </button>
+                    ))}
+                    <input
+                      value={typed}
+                      onChange={(e) => setOrderInputs({ ...orderInputs, [item.id]: e.target.value })}
+                      placeholder="Order #"
+                      className="w-28 px-2 py-1 border border-zinc-300 rounded-md text-xs focus:ring-2 focus:ring-zinc-900 outline-none"
+                    />
+                    <button
+                      onClick={() => assign(item, typed)}
+                      disabled={busy || !typed.trim()}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Link2 className="w-3 h-3" />} Assign
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
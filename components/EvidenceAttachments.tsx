@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Paperclip, Upload, Loader2, Trash2, ExternalLink, FileText, Image as ImageIcon, Eye, EyeOff } from 'lucide-react';
+import { Order, EvidenceAttachment, EvidenceType } from '../types';
+import {
+  EVIDENCE_TYPE_LABELS,
+  ACCEPTED_ATTACHMENT_TYPES,
+  validateAttachmentFile,
+  uploadAttachment,
+  updateAttachmentType,
+  deleteAttachment,
+  downloadAttachment
+} from '../services/attachmentService';
+import { getEvidenceUrl } from '../services/evidenceStorage';
+
+interface EvidenceAttachmentsProps {
+  order: Order;
+  attachments: EvidenceAttachment[];
+  onChange: (attachments: EvidenceAttachment[]) => void;
+}
+
+const EVIDENCE_TYPES = Object.keys(EVIDENCE_TYPE_LABELS) as EvidenceType[];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const isImage = (attachment: EvidenceAttachment) => attachment.mime_type.startsWith('image/');
+const isText = (attachment: EvidenceAttachment) => attachment.mime_type.startsWith('text/');
+
+export const EvidenceAttachments: React.FC<EvidenceAttachmentsProps> = ({ order, attachments, onChange }) => {
+  const [evidenceType, setEvidenceType] = useState<EvidenceType>('proof_of_delivery');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Signed URLs for image thumbnails, keyed by attachment id
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previewText, setPreviewText] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const missing = attachments.filter((a) => isImage(a) && !thumbnails[a.id]);
+    if (missing.length === 0) return;
+    Promise.all(missing.map(async (a) => [a.id, await getEvidenceUrl(a.file_path)] as const))
+      .then((entries) => {
+        if (!cancelled) setThumbnails((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+      })
+      .catch((err) => console.error('Error loading attachment previews:', err));
+    return () => { cancelled = true; };
+  }, [attachments]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    const problems = Array.from(files).map(validateAttachmentFile).filter(Boolean) as string[];
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return;
+    }
+    setUploading(true);
+    const uploaded: EvidenceAttachment[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        uploaded.push(await uploadAttachment(order, file, evidenceType));
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+      if (uploaded.length > 0) onChange([...attachments, ...uploaded]);
+    }
+  };
+
+  const handleTypeChange = async (attachment: EvidenceAttachment, type: EvidenceType) => {
+    try {
+      const updated = await updateAttachmentType(attachment, type);
+      onChange(attachments.map((a) => (a.id === updated.id ? updated : a)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (attachment: EvidenceAttachment) => {
+    if (!window.confirm(`Delete ${attachment.file_name}? It will no longer be included in letters or evidence packets.`)) return;
+    try {
+      await deleteAttachment(attachment);
+      if (previewId === attachment.id) setPreviewId(null);
+      onChange(attachments.filter((a) => a.id !== attachment.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const openAttachment = async (attachment: EvidenceAttachment) => {
+    try {
+      window.open(await getEvidenceUrl(attachment.file_path), '_blank', 'noopener');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const togglePreview = async (attachment: EvidenceAttachment) => {
+    if (previewId === attachment.id) {
+      setPreviewId(null);
+      return;
+    }
+    setPreviewId(attachment.id);
+    setPreviewText(null);
+    if (isText(attachment)) {
+      try {
+        setPreviewText(new TextDecoder().decode(await downloadAttachment(attachment)));
+      } catch (err: any) {
+        setError(err.message);
+      }
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <select
+          value={evidenceType}
+          onChange={(e) => setEvidenceType(e.target.value as EvidenceType)}
+          className="px-2 py-1 border border-zinc-300 rounded-md text-xs bg-white"
+        >
+          {EVIDENCE_TYPES.map((type) => <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>)}
+        </select>
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={uploading}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-zinc-300 hover:bg-zinc-50 disabled:opacity-50"
+        >
+          {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          {uploading ? 'Uploading…' : 'Attach files'}
+        </button>
+        <span className="text-[11px] text-zinc-400">Images, PDFs or text, up to 10 MB each</span>
+      </div>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {attachments.length === 0 ? (
+        <p className="text-xs text-zinc-400">No attachments. Add receipts, tracking screenshots or chat logs to include them in letters and evidence packets.</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="border border-zinc-200 rounded-md p-2">
+              <div className="flex items-center gap-2">
+                {isImage(attachment) && thumbnails[attachment.id] ? (
+                  <img src={thumbnails[attachment.id]} alt={attachment.file_name} className="w-10 h-10 object-cover rounded border border-zinc-200 shrink-0" />
+                ) : (
+                  <span className="w-10 h-10 flex items-center justify-center rounded bg-zinc-100 text-zinc-500 shrink-0">
+                    {isImage(attachment) ? <ImageIcon className="w-4 h-4" /> : attachment.mime_type === 'application/pdf' ? <FileText className="w-4 h-4" /> : <Paperclip className="w-4 h-4" />}
+                  </span>
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs font-medium text-zinc-900 truncate" title={attachment.file_name}>{attachment.file_name}</div>
+                  <div className="text-[11px] text-zinc-400">{formatSize(attachment.size_bytes)} · {attachment.created_by} · {new Date(attachment.created_at).toLocaleDateString()}</div>
+                </div>
+                <select
+                  value={attachment.evidence_type}
+                  onChange={(e) => handleTypeChange(attachment, e.target.value as EvidenceType)}
+                  className="px-1.5 py-0.5 border border-zinc-200 rounded text-[11px] bg-white"
+                >
+                  {EVIDENCE_TYPES.map((type) => <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>)}
+                </select>
+                <button onClick={() => togglePreview(attachment)} title="Preview" className="p-1 text-zinc-400 hover:text-zinc-700">
+                  {previewId === attachment.id ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                </button>
+                <button onClick={() => openAttachment(attachment)} title="Open in new tab" className="p-1 text-zinc-400 hover:text-zinc-700">
+                  <ExternalLink className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(attachment)} title="Delete" className="p-1 text-zinc-400 hover:text-red-600">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {previewId === attachment.id && (
+                <div className="mt-2">
+                  {isImage(attachment) && thumbnails[attachment.id] && (
+                    <img src={thumbnails[attachment.id]} alt={attachment.file_name} className="max-h-96 mx-auto rounded border border-zinc-200" />
+                  )}
+                  {attachment.mime_type === 'application/pdf' && <PdfPreview attachment={attachment} />}
+                  {isText(attachment) && (
+                    <pre className="p-2 bg-zinc-50 border border-zinc-200 rounded font-mono text-[11px] whitespace-pre-wrap max-h-64 overflow-y-auto">
+                      {previewText ?? 'Loading…'}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const PdfPreview: React.FC<{ attachment: EvidenceAttachment }> = ({ attachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getEvidenceUrl(attachment.file_path)
+      .then((signed) => { if (!cancelled) setUrl(signed); })
+      .catch((err) => console.error('Error loading PDF preview:', err));
+    return () => { cancelled = true; };
+  }, [attachment.file_path]);
+
+  if (!url) return <p className="text-xs text-zinc-400">Loading…</p>;
+  return <iframe src={url} title={attachment.file_name} className="w-full h-96 rounded border border-zinc-200" />;
+};
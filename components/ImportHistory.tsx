@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { History, Undo2, Loader2 } from 'lucide-react';
+import { ImportBatch } from '../types';
+import { BATCH_SOURCE_LABELS } from '../services/batchService';
+
+interface ImportHistoryProps {
+  batches: ImportBatch[];
+  onRollback: (batch: ImportBatch) => Promise<void>;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+export const ImportHistory: React.FC<ImportHistoryProps> = ({ batches, onRollback }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const rollback = async (batch: ImportBatch) => {
+    const confirmed = window.confirm(
+      `Roll back "${batch.file_name}"?\n\nOrders it changed go back to how they were before, and orders it created are deleted. Orders changed since, by a later import or by hand, are left alone.`
+    );
+    if (!confirmed) return;
+
+    setBusyId(batch.id);
+    try {
+      await onRollback(batch);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-none px-6 py-4 border-b border-zinc-200">
+        <h2 className="text-sm font-semibold text-zinc-900">Import History</h2>
+        <p className="text-xs text-zinc-500 mt-1 max-w-2xl">
+          Every CSV import, Shopify sync and dispute export import. Rolling one back restores the orders it changed and
+          removes the orders it created.
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {batches.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 text-sm text-zinc-400 py-16">
+            <History className="w-8 h-8" />
+            No imports yet.
+          </div>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="bg-zinc-50 sticky top-0 border-b border-zinc-200">
+              <tr className="text-[11px] uppercase tracking-wide text-zinc-500">
+                <th className="px-6 py-2 font-medium">Date</th>
+                <th className="px-3 py-2 font-medium">Source</th>
+                <th className="px-3 py-2 font-medium">File</th>
+                <th className="px-3 py-2 font-medium">Category</th>
+                <th className="px-3 py-2 font-medium text-right">Rows</th>
+                <th className="px-3 py-2 font-medium text-right">Orders</th>
+                <th className="px-3 py-2 font-medium">By</th>
+                <th className="px-6 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100">
+              {batches.map((batch) => {
+                const rolledBack = Boolean(batch.rolled_back_at);
+                return (
+                  <tr key={batch.id} className={`text-[13px] ${rolledBack ? 'text-zinc-400' : 'text-zinc-700'}`}>
+                    <td className="px-6 py-2 whitespace-nowrap">{formatDateTime(batch.created_at)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{BATCH_SOURCE_LABELS[batch.source]}</td>
+                    <td className="px-3 py-2 max-w-[240px] truncate" title={batch.file_name}>{batch.file_name}</td>
+                    <td className="px-3 py-2">{batch.category || '—'}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{batch.row_count}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{batch.order_count}</td>
+                    <td className="px-3 py-2 max-w-[180px] truncate">{batch.created_by}</td>
+                    <td className="px-6 py-2 text-right whitespace-nowrap">
+                      {rolledBack ? (
+                        <span className="text-xs">Rolled back {formatDateTime(batch.rolled_back_at as string)}</span>
+                      ) : (
+                        <button
+                          onClick={() => rollback(batch)}
+                          disabled={busyId !== null}
+                          className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-zinc-200 bg-white text-zinc-700 hover:bg-red-50 hover:text-red-700 hover:border-red-200 disabled:opacity-50"
+                        >
+                          {busyId === batch.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Undo2 className="w-3 h-3" />} Roll back
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { FileSearch, Loader2, ArrowRight, AlertTriangle } from 'lucide-react';
+import { Order } from '../types';
+import { ImportDiff, ImportChangeKind, CHANGE_KIND_LABELS } from '../services/importDiffService';
+
+interface ImportPreviewProps {
+  fileName: string;
+  diff: ImportDiff;
+  onCommit: (orders: Order[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+const KIND_ORDER: ImportChangeKind[] = ['new', 'changed', 'quarantine', 'unchanged'];
+
+// Large exports would otherwise render hundreds of thousands of rows
+const MAX_ROWS = 500;
+
+const KIND_STYLES: Record<ImportChangeKind, string> = {
+  new: 'bg-green-50 text-green-700 border-green-200',
+  changed: 'bg-blue-50 text-blue-700 border-blue-200',
+  quarantine: 'bg-red-50 text-red-700 border-red-200',
+  unchanged: 'bg-zinc-100 text-zinc-500 border-zinc-200',
+};
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ fileName, diff, onCommit, onCancel }) => {
+  // Unchanged rows would write the same data back, so they start unselected
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(diff.entries.filter((e) => e.kind !== 'unchanged').map((e) => e.id))
+  );
+  const [filter, setFilter] = useState<ImportChangeKind | null>(null);
+  const [committing, setCommitting] = useState(false);
+
+  const visible = useMemo(
+    () => (filter ? diff.entries.filter((e) => e.kind === filter) : diff.entries),
+    [diff, filter]
+  );
+  const overwritesWithQuarantine = diff.entries.filter((e) => e.kind === 'quarantine' && e.existing).length;
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const setVisible = (checked: boolean) => {
+    const next = new Set(selected);
+    visible.forEach((e) => (checked ? next.add(e.id) : next.delete(e.id)));
+    setSelected(next);
+  };
+
+  const commit = async (ids: Set<string>) => {
+    setCommitting(true);
+    try {
+      await onCommit(diff.entries.filter((e) => ids.has(e.id)).map((e) => e.order));
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl border border-zinc-200 flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-zinc-100">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2.5 rounded-lg text-blue-600">
+              <FileSearch className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-zinc-900">Review Import</h2>
+              <p className="text-sm text-zinc-500 max-w-[400px] truncate">{fileName} · nothing has been saved yet</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 mt-4">
+            <button
+              onClick={() => setFilter(null)}
+              className={`px-3 py-1 text-xs font-medium rounded-md border ${filter === null ? 'bg-zinc-900 text-white border-zinc-900' : 'bg-white text-zinc-600 border-zinc-200 hover:bg-zinc-50'}`}
+            >
+              All {diff.entries.length}
+            </button>
+            {KIND_ORDER.map((kind) => (
+              <button
+                key={kind}
+                onClick={() => setFilter(kind)}
+                disabled={diff.counts[kind] === 0}
+                className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-40 ${filter === kind ? 'ring-2 ring-zinc-900 ring-offset-1' : ''} ${KIND_STYLES[kind]}`}
+              >
+                {CHANGE_KIND_LABELS[kind]} {diff.counts[kind]}
+              </button>
+            ))}
+          </div>
+
+          {overwritesWithQuarantine > 0 && (
+            <div className="flex items-start gap-2 mt-3 text-xs text-red-800 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              {overwritesWithQuarantine} stored order{overwritesWithQuarantine === 1 ? '' : 's'} would be replaced by invalid rows and moved to Data Issues.
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="bg-zinc-50 sticky top-0 border-b border-zinc-200">
+              <tr className="text-[11px] uppercase tracking-wide text-zinc-500">
+                <th className="px-6 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={visible.length > 0 && visible.every((e) => selected.has(e.id))}
+                    onChange={(e) => setVisible(e.target.checked)}
+                    className="accent-zinc-900"
+                  />
+                </th>
+                <th className="px-3 py-2 font-medium">Order</th>
+                <th className="px-3 py-2 font-medium">Result</th>
+                <th className="px-3 py-2 font-medium">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100">
+              {visible.slice(0, MAX_ROWS).map((entry) => (
+                <tr key={entry.id} className="text-[13px] text-zinc-700 align-top">
+                  <td className="px-6 py-2">
+                    <input type="checkbox" checked={selected.has(entry.id)} onChange={() => toggle(entry.id)} className="accent-zinc-900" />
+                  </td>
+                  <td className="px-3 py-2 font-medium text-zinc-900 whitespace-nowrap">{entry.id}</td>
+                  <td className="px-3 py-2">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-[11px] font-medium border ${KIND_STYLES[entry.kind]}`}>
+                      {CHANGE_KIND_LABELS[entry.kind]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    {entry.kind === 'quarantine' && (
+                      <div className="text-red-600 mb-1">{entry.order.import_error || 'Invalid row'}</div>
+                    )}
+                    {entry.kind === 'new' && (
+                      <div className="text-zinc-500">{entry.order.import_category || 'AUTO'} · {entry.order.customer?.email}</div>
+                    )}
+                    {entry.changes.map((change) => (
+                      <div key={change.field} className="flex items-center gap-1.5">
+                        <span className="text-zinc-500 w-28 shrink-0">{change.label}</span>
+                        <span className="line-through text-zinc-400">{change.before}</span>
+                        <ArrowRight className="w-3 h-3 text-zinc-400 shrink-0" />
+                        <span className="text-zinc-900">{change.after}</span>
+                      </div>
+                    ))}
+                    {entry.kind === 'unchanged' && <span className="text-zinc-400">No changes</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length > MAX_ROWS && (
+            <div className="px-6 py-3 text-xs text-zinc-500 border-t border-zinc-100">
+              Showing the first {MAX_ROWS} of {visible.length} orders. The header checkbox selects all of them.
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-zinc-100 bg-zinc-50 flex items-center justify-between gap-3 rounded-b-xl">
+          <button onClick={onCancel} disabled={committing} className="px-4 py-2 bg-white border border-zinc-300 text-zinc-700 rounded-lg font-medium hover:bg-zinc-50 shadow-sm transition-colors disabled:opacity-50">
+            Cancel
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => commit(selected)}
+              disabled={committing || selected.size === 0}
+              className="px-4 py-2 bg-white border border-zinc-300 text-zinc-700 rounded-lg font-medium hover:bg-zinc-50 shadow-sm disabled:opacity-50"
+            >
+              Commit selected ({selected.size})
+            </button>
+            <button
+              onClick={() => commit(new Set(diff.entries.map((e) => e.id)))}
+              disabled={committing}
+              className="px-4 py-2 bg-zinc-900 text-white rounded-lg font-medium hover:bg-zinc-800 disabled:opacity-50 shadow-md flex items-center gap-2"
+            >
+              {committing && <Loader2 className="w-4 h-4 animate-spin" />} Commit all ({diff.entries.length})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Sparkles,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  X,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  AlertTriangle,
+  Clock,
+  PenLine
+} from 'lucide-react';
+import { LetterQueue, LetterJob, LetterJobStatus } from '../types';
+import { LETTER_JOB_LABELS, letterQueueCounts, isLetterQueueActive } from '../services/letterQueueService';
+
+interface LetterQueuePanelProps {
+  queue: LetterQueue;
+  running: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onRetryFailed: () => void;
+  // Opens a held letter in the rebuttal editor
+  onReview: (job: LetterJob) => void;
+  onOpenOrder?: (orderId: string) => void;
+  onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<LetterJobStatus, string> = {
+  queued: 'text-zinc-400',
+  running: 'text-purple-600',
+  retrying: 'text-amber-600',
+  saved: 'text-green-600',
+  review: 'text-red-600',
+  opened: 'text-zinc-500',
+  failed: 'text-red-600',
+};
+
+const statusIcon = (status: LetterJobStatus) => {
+  const className = `w-3.5 h-3.5 shrink-0 ${STATUS_STYLES[status]}`;
+  if (status === 'running') return <Loader2 className={`${className} animate-spin`} />;
+  if (status === 'saved' || status === 'opened') return <CheckCircle2 className={className} />;
+  if (status === 'review' || status === 'failed') return <AlertTriangle className={className} />;
+  return <Clock className={className} />;
+};
+
+export const LetterQueuePanel: React.FC<LetterQueuePanelProps> = ({
+  queue,
+  running,
+  onPause,
+  onResume,
+  onRetryFailed,
+  onReview,
+  onOpenOrder,
+  onDismiss
+}) => {
+  const [expanded, setExpanded] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  const counts = letterQueueCounts(queue);
+  const total = queue.jobs.length;
+  const finished = counts.saved + counts.review + counts.opened + counts.failed;
+  const active = isLetterQueueActive(queue);
+
+  // Ticks the retry countdowns
+  useEffect(() => {
+    if (counts.retrying === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [counts.retrying]);
+
+  const detail = (job: LetterJob) => {
+    if (job.status === 'retrying' && job.retryAt) {
+      return `Retry ${job.attempts + 1} in ${Math.max(0, Math.ceil((job.retryAt - now) / 1000))}s`;
+    }
+    if (job.status === 'review') return `${job.flaggedClaims} flagged claim${job.flaggedClaims === 1 ? '' : 's'}`;
+    return job.error || '';
+  };
+
+  return (
+    <div className="fixed bottom-6 left-6 z-[90] w-96 bg-white rounded-lg shadow-xl border border-zinc-200 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-100">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-purple-600" />
+          <div>
+            <h4 className="text-sm font-semibold text-zinc-900">Letter queue</h4>
+            <p className="text-[11px] text-zinc-500">
+              {finished} of {total} done · {counts.saved} saved{counts.review > 0 ? ` · ${counts.review} to review` : ''}{counts.failed > 0 ? ` · ${counts.failed} failed` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          {running ? (
+            <button onClick={onPause} className="p-1.5 rounded hover:bg-zinc-100 text-zinc-600" title="Pause after the current letters">
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          ) : active ? (
+            <button onClick={onResume} className="p-1.5 rounded hover:bg-zinc-100 text-purple-700" title="Resume">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          ) : null}
+          {!running && counts.failed > 0 && (
+            <button onClick={onRetryFailed} className="p-1.5 rounded hover:bg-zinc-100 text-zinc-600" title="Retry failed letters">
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="p-1.5 rounded hover:bg-zinc-100 text-zinc-500" title={expanded ? 'Collapse' : 'Expand'}>
+            {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronUp className="w-3.5 h-3.5" />}
+          </button>
+          {!running && (
+            <button onClick={onDismiss} className="p-1.5 rounded hover:bg-zinc-100 text-zinc-500" title={active ? 'Discard the remaining letters' : 'Close'}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-1 bg-zinc-100">
+        <div className="h-1 bg-purple-600 transition-all" style={{ width: `${total > 0 ? (finished / total) * 100 : 0}%` }} />
+      </div>
+
+      {queue.haltedReason && (
+        <p className="px-4 py-2 text-[11px] text-red-700 bg-red-50 border-b border-red-100">Paused: {queue.haltedReason}</p>
+      )}
+      {!running && active && !queue.haltedReason && (
+        <p className="px-4 py-2 text-[11px] text-zinc-600 bg-zinc-50 border-b border-zinc-100">
+          {counts.queued + counts.retrying} letters still to draft. Press play to carry on.
+        </p>
+      )}
+
+      {expanded && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-zinc-50">
+          {queue.jobs.map((job) => (
+            <li key={job.orderId} className="flex items-center gap-2 px-4 py-1.5 text-xs">
+              {statusIcon(job.status)}
+              <button onClick={() => onOpenOrder?.(job.orderId)} className="font-medium text-zinc-800 hover:underline">{job.orderId}</button>
+              <span className="text-zinc-500">{LETTER_JOB_LABELS[job.status]}</span>
+              <span className="flex-1 min-w-0 truncate text-[11px] text-zinc-400" title={detail(job)}>{detail(job)}</span>
+              {job.status === 'review' && (
+                <button onClick={() => onReview(job)} className="inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded border border-red-200 text-red-700 hover:bg-red-50">
+                  <PenLine className="w-3 h-3" /> Review
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
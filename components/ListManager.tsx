@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { Ban, ShieldCheck, Trash2, Plus, Loader2 } from 'lucide-react';
+import { ListEntry, ListEntryKind, ListType } from '../types';
+import { LIST_KIND_LABELS, isEntryActive } from '../services/listService';
+
+interface ListManagerProps {
+  entries: ListEntry[];
+  onAdd: (list: ListType, kind: ListEntryKind, value: string, reason: string, expiresAt: string | null) => Promise<void>;
+  onRemove: (entry: ListEntry) => Promise<void>;
+}
+
+const VALUE_PLACEHOLDERS: Record<ListEntryKind, string> = {
+  email: 'fraudster@example.com',
+  address: '123 Main St, 10001, US',
+  ip: '203.0.113.7',
+  card_bin: '411111',
+  card_last4: '4242',
+};
+
+const inputClass = 'px-3 py-2 border border-zinc-300 rounded-lg text-sm focus:ring-2 focus:ring-zinc-900 outline-none bg-white';
+
+export const ListManager: React.FC<ListManagerProps> = ({ entries, onAdd, onRemove }) => {
+  const [activeList, setActiveList] = useState<ListType>('block');
+  const [form, setForm] = useState({ kind: 'email' as ListEntryKind, value: '', reason: '', expiresAt: '' });
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const visible = useMemo(() => entries.filter((e) => e.list === activeList), [entries, activeList]);
+  const counts = useMemo(() => ({
+    block: entries.filter((e) => e.list === 'block').length,
+    allow: entries.filter((e) => e.list === 'allow').length,
+  }), [entries]);
+
+  const handleAdd = async () => {
+    if (!form.value.trim()) return;
+    setSaving(true);
+    try {
+      // Expiry is picked as a date; the entry stays active through that day
+      const expiresAt = form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null;
+      await onAdd(activeList, form.kind, form.value, form.reason, expiresAt);
+      setForm({ ...form, value: '', reason: '', expiresAt: '' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: ListEntry) => {
+    setRemovingId(entry.id);
+    try {
+      await onRemove(entry);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-none px-6 py-4 border-b border-zinc-200">
+        <h2 className="text-sm font-semibold text-zinc-900">Block / Allow Lists</h2>
+        <p className="text-xs text-zinc-500 mt-1 max-w-2xl">
+          Orders matching a blocklist entry are flagged high risk on import, sync and Validate Data.
+          Orders matching an allowlist entry have their risk flags cleared, unless they are also blocklisted.
+        </p>
+        <div className="flex items-center gap-1 mt-3">
+          {([
+            { id: 'block' as ListType, label: 'Blocklist', icon: <Ban className="w-3 h-3" /> },
+            { id: 'allow' as ListType, label: 'Allowlist', icon: <ShieldCheck className="w-3 h-3" /> },
+          ]).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveList(tab.id)}
+              className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border ${activeList === tab.id ? 'bg-white border-zinc-300 text-zinc-900 shadow-sm' : 'bg-transparent border-transparent text-zinc-500 hover:bg-zinc-100'}`}
+            >
+              {tab.icon} {tab.label}
+              <span className="ml-1 inline-flex items-center justify-center rounded-full px-1.5 text-[10px] border bg-zinc-100 text-zinc-600">{counts[tab.id]}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-none px-6 py-4 border-b border-zinc-100 bg-zinc-50">
+        <div className="grid grid-cols-12 gap-2 items-end">
+          <label className="col-span-2 text-[11px] text-zinc-500">
+            Type
+            <select value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as ListEntryKind })} className={`${inputClass} w-full mt-1`}>
+              {(Object.keys(LIST_KIND_LABELS) as ListEntryKind[]).map((kind) => (
+                <option key={kind} value={kind}>{LIST_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-4 text-[11px] text-zinc-500">
+            Value
+            <input value={form.value} onChange={(e) => setForm({ ...form, value: e.target.value })} placeholder={VALUE_PLACEHOLDERS[form.kind]} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className="col-span-3 text-[11px] text-zinc-500">
+            Reason
+            <input value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} placeholder={activeList === 'block' ? 'Two lost chargebacks' : 'Wholesale buyer'} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className="col-span-2 text-[11px] text-zinc-500">
+            Expires (optional)
+            <input type="date" value={form.expiresAt} onChange={(e) => setForm({ ...form, expiresAt: e.target.value })} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <button
+            onClick={handleAdd}
+            disabled={!form.value.trim() || saving}
+            className="col-span-1 h-[38px] inline-flex items-center justify-center gap-1 text-sm rounded-lg bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Add
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {visible.length === 0 ? (
+          <div className="text-center text-sm text-zinc-400 py-12">No entries yet.</div>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="bg-white sticky top-0 border-b border-zinc-200">
+              <tr className="text-[11px] uppercase tracking-wide text-zinc-500">
+                <th className="px-6 py-2 font-medium">Type</th>
+                <th className="px-4 py-2 font-medium">Value</th>
+                <th className="px-4 py-2 font-medium">Reason</th>
+                <th className="px-4 py-2 font-medium">Added by</th>
+                <th className="px-4 py-2 font-medium">Expires</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100">
+              {visible.map((entry) => {
+                const active = isEntryActive(entry);
+                return (
+                  <tr key={entry.id} className={`text-[13px] ${active ? 'text-zinc-700' : 'text-zinc-400'}`}>
+                    <td className="px-6 py-2">{LIST_KIND_LABELS[entry.kind]}</td>
+                    <td className="px-4 py-2 font-mono text-xs" title={entry.value}>{entry.label}</td>
+                    <td className="px-4 py-2">{entry.reason || '—'}</td>
+                    <td className="px-4 py-2 text-xs">
+                      <div>{entry.added_by}</div>
+                      <div className="text-[11px] text-zinc-400">{new Date(entry.created_at).toLocaleDateString()}</div>
+                    </td>
+                    <td className="px-4 py-2 text-xs">
+                      {entry.expires_at ? (active ? new Date(entry.expires_at).toLocaleDateString() : 'Expired') : 'Never'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        disabled={removingId === entry.id}
+                        className="p-1.5 text-zinc-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                        title="Remove entry"
+                      >
+                        {removingId === entry.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,457 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  X,
+  History,
+  Loader2,
+  ArrowRight,
+  ShoppingBag,
+  Users,
+  AlertOctagon,
+  FileText,
+  Bell,
+  Package,
+  Database,
+  ShieldAlert,
+  FileDown,
+  Paperclip,
+  PenLine,
+  Truck,
+  RefreshCw
+} from 'lucide-react';
+import { Order, Alert, AuditEntry, SavedDispute, ImportBatch, EvidencePacket, EvidenceAttachment } from '../types';
+import { getDisputeStatus, formatDisputeReason, fetchSavedDisputesForOrder } from '../services/disputeService';
+import { fetchOrderAuditLog, WHOLE_ORDER_PATH } from '../services/auditService';
+import { linkCustomers } from '../services/customerService';
+import { buildOrderTimeline, alertOrderId, TimelineKind } from '../services/orderTimelineService';
+import { BATCH_SOURCE_LABELS } from '../services/batchService';
+import { fetchEvidencePackets } from '../services/evidencePacketService';
+import { getEvidenceUrl } from '../services/evidenceStorage';
+import { fetchAttachments } from '../services/attachmentService';
+import { SHIPMENT_STATUS_LABELS } from '../services/trackingService';
+import { EvidenceAttachments } from './EvidenceAttachments';
+
+interface OrderDetailPanelProps {
+  order: Order;
+  orders: Order[];
+  alerts: Alert[];
+  importBatches: ImportBatch[];
+  onClose: () => void;
+  // Opens another order (e.g. one linked to the same customer)
+  onOpenOrder: (orderId: string) => void;
+  // Opens the saved rebuttal in the editor
+  onOpenRebuttal?: (order: Order) => void;
+  // Asks the carrier adapter for the latest tracking events
+  onRefreshTracking?: (order: Order) => Promise<void>;
+}
+
+type DetailSection = 'TIMELINE' | 'DETAILS' | 'DATA';
+
+const SECTIONS: { id: DetailSection; label: string }[] = [
+  { id: 'TIMELINE', label: 'Timeline' },
+  { id: 'DETAILS', label: 'Details' },
+  { id: 'DATA', label: 'CSV / Raw Data' },
+];
+
+const KIND_ICONS: Record<TimelineKind, React.ReactNode> = {
+  order: <ShoppingBag className="w-3.5 h-3.5" />,
+  linked_order: <Users className="w-3.5 h-3.5" />,
+  dispute: <AlertOctagon className="w-3.5 h-3.5" />,
+  draft: <FileText className="w-3.5 h-3.5" />,
+  packet: <FileDown className="w-3.5 h-3.5" />,
+  attachment: <Paperclip className="w-3.5 h-3.5" />,
+  shipment: <Truck className="w-3.5 h-3.5" />,
+  alert: <Bell className="w-3.5 h-3.5" />,
+  audit: <History className="w-3.5 h-3.5" />,
+};
+
+const KIND_STYLES: Record<TimelineKind, string> = {
+  order: 'bg-zinc-100 text-zinc-600',
+  linked_order: 'bg-indigo-50 text-indigo-600',
+  dispute: 'bg-amber-50 text-amber-700',
+  draft: 'bg-purple-50 text-purple-600',
+  packet: 'bg-emerald-50 text-emerald-600',
+  attachment: 'bg-teal-50 text-teal-600',
+  shipment: 'bg-sky-50 text-sky-600',
+  alert: 'bg-red-50 text-red-600',
+  audit: 'bg-blue-50 text-blue-600',
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const formatMoney = (amount: number, currency?: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount || 0);
+
+const SectionHeading: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h4 className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase mb-2">{icon} {children}</h4>
+);
+
+export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({ order, orders, alerts, importBatches, onClose, onOpenOrder, onOpenRebuttal, onRefreshTracking }) => {
+  const [section, setSection] = useState<DetailSection>('TIMELINE');
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [drafts, setDrafts] = useState<SavedDispute[]>([]);
+  const [packets, setPackets] = useState<EvidencePacket[]>([]);
+  const [attachments, setAttachments] = useState<EvidenceAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dataFilter, setDataFilter] = useState('');
+  const [refreshingTracking, setRefreshingTracking] = useState(false);
+
+  // Refetched whenever the order changes, so edits show up right away
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      fetchOrderAuditLog(order.id),
+      fetchSavedDisputesForOrder(order.id),
+      fetchEvidencePackets(order.id),
+      fetchAttachments(order.id)
+    ]).then(([log, saved, savedPackets, savedAttachments]) => {
+      if (cancelled) return;
+      setAudit(log);
+      setDrafts(saved);
+      setPackets(savedPackets);
+      setAttachments(savedAttachments);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [order]);
+
+  const cluster = useMemo(() => linkCustomers(orders).byOrderId.get(order.id), [orders, order.id]);
+  const linkedOrders = useMemo(() => {
+    if (!cluster) return [];
+    const ids = new Set(cluster.orderIds.filter((id) => id !== order.id));
+    return orders.filter((o) => ids.has(o.id));
+  }, [cluster, orders, order.id]);
+
+  const orderAlerts = useMemo(() => alerts.filter((a) => alertOrderId(a) === order.id), [alerts, order.id]);
+
+  const timeline = useMemo(
+    () => buildOrderTimeline({ order, linkedOrders, drafts, packets, attachments, alerts: orderAlerts, audit }),
+    [order, linkedOrders, drafts, packets, attachments, orderAlerts, audit]
+  );
+
+  const batch = order.import_batch_id ? importBatches.find((b) => b.id === order.import_batch_id) : undefined;
+
+  const additionalData = useMemo(() => {
+    const needle = dataFilter.trim().toLowerCase();
+    return Object.entries(order.additional_data || {})
+      .filter(([key, value]) => !needle || key.toLowerCase().includes(needle) || String(value).toLowerCase().includes(needle));
+  }, [order.additional_data, dataFilter]);
+
+  const dispute = order.dispute;
+
+  const refreshTracking = async () => {
+    if (!onRefreshTracking) return;
+    setRefreshingTracking(true);
+    try {
+      await onRefreshTracking(order);
+    } finally {
+      setRefreshingTracking(false);
+    }
+  };
+
+  const openPacket = async (packet: EvidencePacket) => {
+    try {
+      window.open(await getEvidenceUrl(packet.file_path), '_blank', 'noopener');
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="w-full max-w-2xl h-full bg-white shadow-2xl border-l border-zinc-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-200 bg-zinc-50">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="font-bold text-zinc-900">Order {order.id}</h3>
+              <p className="text-xs text-zinc-500 mt-0.5">
+                {order.customer?.name} · {order.customer?.email || 'No email'} · {formatMoney(order.total, order.currency)} · {getDisputeStatus(order)}
+                {order.risk_category ? ` · ${order.risk_category}` : ''}
+              </p>
+              {batch && (
+                <p className="text-[11px] text-zinc-400 mt-0.5">
+                  Last written by {BATCH_SOURCE_LABELS[batch.source]} "{batch.file_name}" on {new Date(batch.created_at).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="p-1 text-zinc-400 hover:text-zinc-600"><X className="w-5 h-5" /></button>
+          </div>
+          <div className="flex items-center gap-1 mt-3">
+            {SECTIONS.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => setSection(s.id)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-md border ${section === s.id ? 'bg-white border-zinc-300 text-zinc-900 shadow-sm' : 'bg-transparent border-transparent text-zinc-500 hover:bg-zinc-100'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {section === 'TIMELINE' && (
+            loading ? (
+              <div className="flex items-center gap-2 text-xs text-zinc-400 py-4"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading history…</div>
+            ) : (
+              <ol className="space-y-3">
+                {timeline.map((event) => (
+                  <li key={event.key} className="flex items-start gap-3">
+                    <span className={`mt-0.5 p-1.5 rounded-full shrink-0 ${KIND_STYLES[event.kind]}`}>{KIND_ICONS[event.kind]}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-xs font-medium text-zinc-900">
+                          {event.orderId ? (
+                            <button onClick={() => onOpenOrder(event.orderId as string)} className="hover:underline text-left">{event.title}</button>
+                          ) : event.title}
+                        </span>
+                        <span className="text-[11px] text-zinc-400 whitespace-nowrap">{event.at ? new Date(event.at).toLocaleString() : 'No date'}</span>
+                      </div>
+                      {event.detail && <div className="text-[11px] text-zinc-500 line-clamp-3 whitespace-pre-wrap">{event.detail}</div>}
+                      {event.audit && (
+                        <ul className="mt-1 space-y-0.5">
+                          {event.audit.map((entry) =>
+                            entry.field_path === WHOLE_ORDER_PATH ? (
+                              <li key={entry.id} className="text-[11px] text-zinc-600">Order {formatValue(entry.new_value)}</li>
+                            ) : (
+                              <li key={entry.id} className="flex items-start gap-1.5 text-[11px]">
+                                <span className="font-mono text-zinc-500 shrink-0">{entry.field_path}</span>
+                                <span className="line-through text-zinc-400 break-all">{formatValue(entry.old_value)}</span>
+                                <ArrowRight className="w-3 h-3 text-zinc-400 shrink-0 mt-0.5" />
+                                <span className="text-zinc-900 break-all">{formatValue(entry.new_value)}</span>
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )
+          )}
+
+          {section === 'DETAILS' && (
+            <div className="space-y-6">
+              <section>
+                <SectionHeading icon={<Package className="w-3.5 h-3.5" />}>Line Items</SectionHeading>
+                {order.line_items && order.line_items.length > 0 ? (
+                  <table className="w-full text-xs">
+                    <thead className="text-[11px] text-zinc-400 text-left">
+                      <tr><th className="py-1 font-medium">Item</th><th className="py-1 font-medium">SKU</th><th className="py-1 font-medium text-right">Qty</th><th className="py-1 font-medium text-right">Price</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-100">
+                      {order.line_items.map((item, i) => (
+                        <tr key={i} className="text-zinc-700">
+                          <td className="py-1 pr-2">{item.title}</td>
+                          <td className="py-1 pr-2 font-mono text-zinc-500">{item.sku || '—'}</td>
+                          <td className="py-1 text-right tabular-nums">{item.quantity}</td>
+                          <td className="py-1 text-right tabular-nums">{item.price !== undefined ? formatMoney(item.price, order.currency) : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-xs text-zinc-400">{order.itemsCount ? `${order.itemsCount} items; no line item detail was imported.` : 'No line items.'}</p>
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<ShieldAlert className="w-3.5 h-3.5" />}>Risk{order.risk_score !== undefined ? ` · score ${order.risk_score}` : ''}</SectionHeading>
+                {order.risk_reasons && order.risk_reasons.length > 0 ? (
+                  <ul className="space-y-0.5 text-xs text-zinc-700">
+                    {order.risk_reasons.map((reason, i) => (
+                      <li key={i}>
+                        <span className="font-medium tabular-nums">{reason.points >= 0 ? '+' : ''}{reason.points}</span> {reason.label}
+                        {reason.detail && <span className="text-zinc-500"> · {reason.detail}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-zinc-400">No risk signals.</p>
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<Users className="w-3.5 h-3.5" />}>Customer</SectionHeading>
+                {cluster && linkedOrders.length > 0 ? (
+                  <>
+                    <p className="text-xs text-zinc-600 mb-1">
+                      {cluster.ordersCount} linked orders · {formatMoney(cluster.lifetimeValue, order.currency)} lifetime value · {cluster.chargebackCount} chargebacks ({cluster.lostCount} lost)
+                      {cluster.linkedBy.length > 0 && ` · linked by ${cluster.linkedBy.join(', ').replace(/_/g, ' ')}`}
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {linkedOrders.map((other) => (
+                        <button key={other.id} onClick={() => onOpenOrder(other.id)} className="px-2 py-0.5 text-[11px] rounded border border-zinc-200 hover:bg-zinc-50 text-zinc-700">
+                          {other.id} · {getDisputeStatus(other)}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-zinc-400">No other orders from this customer.</p>
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<AlertOctagon className="w-3.5 h-3.5" />}>Dispute</SectionHeading>
+                {dispute ? (
+                  <div className="text-xs text-zinc-700 space-y-0.5">
+                    <div>
+                      {formatDisputeReason(dispute.reason)} · {formatMoney(dispute.amount, dispute.currency)} · {dispute.status}
+                      {dispute.outcome ? ` (${dispute.outcome})` : ''}
+                    </div>
+                    <div className="text-zinc-500">
+                      ID <span className="font-mono">{dispute.id}</span> · {dispute.source.replace(/_/g, ' ')}
+                      {dispute.evidenceDueBy && ` · evidence due ${new Date(dispute.evidenceDueBy).toLocaleString()}`}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-zinc-400">No dispute.</p>
+                )}
+              </section>
+
+              <section>
+                <div className="flex items-start justify-between gap-2">
+                  <SectionHeading icon={<Truck className="w-3.5 h-3.5" />}>Shipping{order.deliveryStatus ? ` · ${order.deliveryStatus}` : ''}</SectionHeading>
+                  {onRefreshTracking && order.shipments && order.shipments.length > 0 && (
+                    <button onClick={refreshTracking} disabled={refreshingTracking} className="inline-flex items-center gap-1 text-[11px] text-blue-700 font-medium hover:underline disabled:opacity-50">
+                      <RefreshCw className={`w-3 h-3 ${refreshingTracking ? 'animate-spin' : ''}`} /> Refresh tracking
+                    </button>
+                  )}
+                </div>
+                {order.shipments && order.shipments.length > 0 ? (
+                  <ul className="space-y-2">
+                    {order.shipments.map((shipment) => (
+                      <li key={shipment.trackingNumber} className="text-xs text-zinc-700">
+                        <div>
+                          {shipment.carrier || 'Unknown carrier'} ·{' '}
+                          {shipment.trackingUrl ? (
+                            <a href={shipment.trackingUrl} target="_blank" rel="noreferrer" className="font-mono text-blue-700 hover:underline">{shipment.trackingNumber}</a>
+                          ) : (
+                            <span className="font-mono">{shipment.trackingNumber}</span>
+                          )}{' '}
+                          · {SHIPMENT_STATUS_LABELS[shipment.status]}
+                        </div>
+                        <div className="text-zinc-500">
+                          {shipment.deliveredAt
+                            ? `Delivered ${new Date(shipment.deliveredAt).toLocaleString()}${shipment.deliveryLocation ? ` · ${shipment.deliveryLocation}` : ''}`
+                            : shipment.shippedAt ? `Shipped ${new Date(shipment.shippedAt).toLocaleString()}` : 'Ship date unknown'}
+                          {shipment.statusSource && ` · via ${shipment.statusSource}`}
+                          {shipment.checkedAt && `, checked ${new Date(shipment.checkedAt).toLocaleString()}`}
+                          {shipment.simulated && ' · simulated, not used as evidence'}
+                        </div>
+                        {shipment.events && shipment.events.length > 0 && (
+                          <ul className="mt-1 pl-3 border-l border-zinc-200 space-y-0.5">
+                            {shipment.events.map((event, i) => (
+                              <li key={i} className="text-[11px] text-zinc-500">
+                                {new Date(event.at).toLocaleString()} · {event.description}{event.location ? ` · ${event.location}` : ''}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-zinc-400">No tracking numbers. They come from Shopify fulfillments or a tracking number column in a CSV import.</p>
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<Paperclip className="w-3.5 h-3.5" />}>Attachments</SectionHeading>
+                {loading ? (
+                  <p className="text-xs text-zinc-400">Loading…</p>
+                ) : (
+                  <EvidenceAttachments order={order} attachments={attachments} onChange={setAttachments} />
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<FileDown className="w-3.5 h-3.5" />}>Evidence Packets</SectionHeading>
+                {packets.length > 0 ? (
+                  <ul className="space-y-1">
+                    {packets.map((packet) => (
+                      <li key={packet.id} className="flex items-center justify-between gap-2 text-xs text-zinc-700">
+                        <span>{new Date(packet.created_at).toLocaleString()} · {packet.page_count} pages · {packet.exhibit_count} exhibits</span>
+                        <button onClick={() => openPacket(packet)} className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-zinc-200 hover:bg-zinc-50">
+                          <FileDown className="w-3 h-3" /> Open
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-zinc-400">{loading ? 'Loading…' : 'No packets yet. Draft a rebuttal and export it as an evidence packet.'}</p>
+                )}
+              </section>
+
+              <section>
+                <SectionHeading icon={<FileText className="w-3.5 h-3.5" />}>Rebuttal Drafts</SectionHeading>
+                {drafts.length > 0 ? (
+                  <ul className="space-y-2">
+                    {drafts.map((draft) => (
+                      <li key={draft.id} className="text-xs">
+                        <div className="flex items-center justify-between gap-2 text-zinc-500">
+                          <span>
+                            {new Date(draft.updated_at || draft.created_at).toLocaleString()} · {draft.status}
+                            {draft.submitted_at && ` on ${draft.submitted_at.slice(0, 10)}`}
+                          </span>
+                          {onOpenRebuttal && (
+                            <button onClick={() => onOpenRebuttal(order)} className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-zinc-200 hover:bg-zinc-50 text-zinc-700">
+                              <PenLine className="w-3 h-3" /> {draft.status === 'Submitted' ? 'View' : 'Edit'}
+                            </button>
+                          )}
+                        </div>
+                        <div className="mt-0.5 p-2 bg-zinc-50 border border-zinc-200 rounded font-mono text-[11px] whitespace-pre-wrap max-h-40 overflow-y-auto">{draft.rebuttal_text}</div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-zinc-400">
+                    {loading ? 'Loading…' : 'No saved drafts.'}
+                    {!loading && onOpenRebuttal && (
+                      <button onClick={() => onOpenRebuttal(order)} className="ml-1 text-blue-700 hover:underline">Write one</button>
+                    )}
+                  </p>
+                )}
+              </section>
+            </div>
+          )}
+
+          {section === 'DATA' && (
+            <div>
+              <SectionHeading icon={<Database className="w-3.5 h-3.5" />}>Imported Columns</SectionHeading>
+              <input
+                value={dataFilter}
+                onChange={(e) => setDataFilter(e.target.value)}
+                placeholder="Filter columns or values"
+                className="w-full mb-3 px-3 py-1.5 border border-zinc-300 rounded-md text-xs focus:ring-2 focus:ring-zinc-900 outline-none"
+              />
+              {additionalData.length > 0 ? (
+                <dl className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-x-3 gap-y-1 text-xs">
+                  {additionalData.map(([key, value]) => (
+                    <React.Fragment key={key}>
+                      <dt className="text-zinc-500 truncate" title={key}>{key}</dt>
+                      <dd className="text-zinc-900 break-words">{value === '' || value === null || value === undefined ? '—' : String(value)}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              ) : (
+                <p className="text-xs text-zinc-400">{dataFilter ? 'Nothing matches.' : 'No extra columns were imported for this order.'}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
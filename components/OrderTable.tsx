@@ -1,5 +1,5 @@
 import React, { useMemo, useState, useEffect } from "react";
-import { Order, TabType, DisputeStatus } from "../types";
+import { Order, TabType, DisputeStatus, DeadlineBucket, RebuttalTemplate, DraftSource } from "../types";
 import {
   AlertCircle,
   ChevronLeft,
@@ -7,14 +7,30 @@ import {
   Filter,
   Sparkles,
   X,
-  Copy,
-  Check,
   AlertTriangle,
   ScanSearch,
   Pencil,
-  CheckCircle2
+  CheckCircle2,
+  Repeat,
+  Loader2,
+  FileText,
+  Truck
 } from "lucide-react";
-import { generateChargebackResponse } from "../services/geminiService";
+import { generateChargebackResponse } from "../services/letterService";
+import { LlmProvider, LlmError, createGeminiProvider } from "../services/llmService";
+import { fetchAttachments } from "../services/attachmentService";
+import { renderLetterForOrder } from "../services/templateService";
+import { isLetterQueueEligible } from "../services/letterQueueService";
+import { getDisputeStatus, formatDisputeReason } from "../services/disputeService";
+import { UserSettings, DEFAULT_SETTINGS } from "../services/settingsService";
+import { linkCustomers, isRepeatChargebackCustomer } from "../services/customerService";
+import {
+  computeEvidenceDeadline,
+  getOrderBucket,
+  sortByUrgency,
+  formatCountdown,
+  BUCKET_LABELS
+} from "../services/deadlineService";
 
 interface OrderTableProps {
   orders: Order[];
@@ -23,24 +39,55 @@ interface OrderTableProps {
   onValidate: () => void;
   onEdit?: (order: Order, updates: Partial<Order>) => void;
   onApprove?: (order: Order) => void;
+  // Opens the order detail drawer
+  onOpenOrder?: (orderId: string) => void;
+  // Opens the rebuttal editor with a freshly generated letter
+  onOpenRebuttal?: (order: Order, generated: { text: string; source: DraftSource }) => void;
+  // Drafts letters for many orders in the background
+  onQueueLetters?: (orders: Order[]) => void;
+  // Looks up carrier tracking for the selected orders
+  onRefreshTracking?: (orders: Order[]) => Promise<void>;
+  // Per-reason letters; built-in defaults are used when empty
+  templates?: RebuttalTemplate[];
+  merchantName?: string;
+  // Writes AI drafts; defaults to Gemini with the build-time key
+  llmProvider?: LlmProvider;
+  settings?: UserSettings;
 }
 
 const ROWS_PER_PAGE = 50;
 
+const URGENT_BUCKETS: DeadlineBucket[] = ["OVERDUE", "DUE_48H", "THIS_WEEK"];
+
+const BUCKET_STYLES: Record<DeadlineBucket, string> = {
+  OVERDUE: "bg-red-100 text-red-800 border-red-200",
+  DUE_48H: "bg-orange-100 text-orange-800 border-orange-200",
+  THIS_WEEK: "bg-amber-50 text-amber-800 border-amber-200",
+  LATER: "bg-zinc-50 text-zinc-600 border-zinc-200",
+  NO_DEADLINE: "bg-zinc-50 text-zinc-400 border-zinc-200",
+};
+
 export const OrderTable: React.FC<OrderTableProps> = ({
   orders,
   activeTab,
   onTabChange,
   onValidate,
   onEdit,
-  onApprove
+  onApprove,
+  onOpenOrder,
+  onOpenRebuttal,
+  onQueueLetters,
+  onRefreshTracking,
+  templates = [],
+  merchantName,
+  llmProvider,
+  settings = DEFAULT_SETTINGS
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
+  const [bucketFilter, setBucketFilter] = useState<DeadlineBucket | null>(null);
   
   const [generatingId, setGeneratingId] = useState<string | null>(null);
-  const [generatedLetter, setGeneratedLetter] = useState<string | null>(null);
-  const [showModal, setShowModal] = useState(false);
-  const [copySuccess, setCopySuccess] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [editForm, setEditForm] = useState({ id: '', date: '', email: '', tags: '' });
@@ -71,37 +118,67 @@ export const OrderTable: React.FC<OrderTableProps> = ({
   const handleGenerate = async (order: Order) => {
     setGeneratingId(order.id);
     try {
-      const response = await generateChargebackResponse(order);
-      setGeneratedLetter(response);
-      setShowModal(true);
-    } catch (error) {
+      const attachments = await fetchAttachments(order.id);
+      const draft = renderLetterForOrder(templates, { order, attachments, merchantName });
+      const response = await generateChargebackResponse(order, llmProvider || createGeminiProvider(), { attachments, draft: draft.text });
+      onOpenRebuttal?.(order, { text: response, source: "ai" });
+    } catch (error: any) {
       console.error(error);
-      alert("Failed to generate response. Check API Key.");
+      if (error instanceof LlmError && error.code === "missing_key") {
+        setGeneratingId(null);
+        if (window.confirm(`${error.message}\n\nUse the template letter for this order instead?`)) await handleTemplateLetter(order);
+        return;
+      }
+      alert(error instanceof LlmError ? error.message : "Failed to generate response.");
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const handleTemplateLetter = async (order: Order) => {
+    setGeneratingId(order.id);
+    try {
+      const attachments = await fetchAttachments(order.id);
+      const letter = renderLetterForOrder(templates, { order, attachments, merchantName });
+      onOpenRebuttal?.(order, { text: letter.text, source: "template" });
     } finally {
       setGeneratingId(null);
     }
   };
 
-  const copyToClipboard = () => {
-    if (generatedLetter) {
-      navigator.clipboard.writeText(generatedLetter);
-      setCopySuccess(true);
-      setTimeout(() => setCopySuccess(false), 2000);
+  // Linked live so a new chargeback shows on the customer's other orders right away
+  const clustersByOrderId = useMemo(() => linkCustomers(orders).byOrderId, [orders]);
+
+  const renderCustomerHistory = (order: Order) => {
+    const cluster = clustersByOrderId.get(order.id);
+    if (!cluster || (cluster.ordersCount < 2 && cluster.chargebackCount === 0)) return null;
+    const ltv = new Intl.NumberFormat("en-US", { style: "currency", currency: order.currency || "USD" }).format(cluster.lifetimeValue);
+    const title = `${cluster.ordersCount} linked orders · ${ltv} lifetime value · ${cluster.chargebackCount} chargebacks (${cluster.lostCount} lost)` +
+      (cluster.linkedBy.length ? `\nLinked by ${cluster.linkedBy.join(", ").replace(/_/g, " ")}` : "");
+    if (isRepeatChargebackCustomer(cluster)) {
+      return (
+        <span title={title} className="mt-0.5 inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-50 text-red-700 border border-red-200">
+          <Repeat className="w-3 h-3" /> Repeat chargebacks · {cluster.chargebackCount}
+        </span>
+      );
     }
+    return (
+      <span title={title} className="mt-0.5 inline-block text-[10px] text-zinc-500">
+        {cluster.ordersCount} orders · {ltv}{cluster.chargebackCount > 0 ? ` · ${cluster.chargebackCount} chargeback` : ""}
+      </span>
+    );
   };
 
-  const filtered = useMemo(() => {
+  const tabOrders = useMemo(() => {
     return orders.filter((order) => {
-      const tagString = Array.isArray(order.tags) ? order.tags.join(",") : "";
-      const lowerTags = tagString.toLowerCase();
-      const disputeStatus = (order.disputeStatus || "").toLowerCase();
+      const disputeStatus = getDisputeStatus(order).toLowerCase();
       const riskFlag = (order.risk_category || "").toLowerCase();
       const importCategory = (order.import_category || "").toLowerCase();
 
       switch (activeTab) {
         case "RISK":
           return (
-            (order.isHighRisk || riskFlag.includes("high") || lowerTags.includes("fraud") || importCategory.includes("risk")) &&
+            (order.isHighRisk || riskFlag.includes("high") || riskFlag.includes("medium") || importCategory.includes("risk")) &&
             importCategory !== 'invalid'
           );
         case "DISPUTES":
@@ -111,7 +188,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
           );
         case "HISTORY":
           return (
-            (disputeStatus === 'won' || disputeStatus === 'lost' || importCategory.includes("dispute_won") || importCategory.includes("dispute_lost")) &&
+            (!!order.dispute?.outcome || disputeStatus === 'won' || disputeStatus === 'lost' || importCategory.includes("dispute_won") || importCategory.includes("dispute_lost")) &&
             importCategory !== 'invalid'
           );
         case "QUARANTINE":
@@ -123,14 +200,68 @@ export const OrderTable: React.FC<OrderTableProps> = ({
     });
   }, [orders, activeTab]);
 
+  // Chargebacks are worked in deadline order, most urgent first
+  const bucketCounts = useMemo(() => {
+    const counts: Partial<Record<DeadlineBucket, number>> = {};
+    if (activeTab !== "DISPUTES") return counts;
+    tabOrders.forEach((order) => {
+      const bucket = getOrderBucket(order, settings);
+      counts[bucket] = (counts[bucket] || 0) + 1;
+    });
+    return counts;
+  }, [tabOrders, activeTab, settings]);
+
+  const filtered = useMemo(() => {
+    if (activeTab === "RISK") {
+      return [...tabOrders].sort((a, b) => (b.risk_score ?? 0) - (a.risk_score ?? 0));
+    }
+    if (activeTab !== "DISPUTES") return tabOrders;
+    const sorted = sortByUrgency(tabOrders, settings);
+    return bucketFilter ? sorted.filter((order) => getOrderBucket(order, settings) === bucketFilter) : sorted;
+  }, [tabOrders, activeTab, settings, bucketFilter]);
+
+  useEffect(() => {
+    setBucketFilter(null);
+    setSelectedIds(new Set());
+  }, [activeTab]);
+
   const total = filtered.length;
   const totalPages = Math.max(1, Math.ceil(total / ROWS_PER_PAGE));
   const safePage = Math.min(currentPage, totalPages);
   const sliceStart = (safePage - 1) * ROWS_PER_PAGE;
   const pageOrders = filtered.slice(sliceStart, sliceStart + ROWS_PER_PAGE);
+  const displayStart = total === 0 ? 0 : sliceStart + 1;
+  const displayEnd = Math.min(sliceStart + ROWS_PER_PAGE, total);
 
   useEffect(() => { setCurrentPage(1); }, [activeTab, total]);
 
+  const selectedOrders = useMemo(() => orders.filter((o) => selectedIds.has(o.id)), [orders, selectedIds]);
+  const selectedEligible = selectedOrders.filter(isLetterQueueEligible).length;
+  const needsResponse = useMemo(() => tabOrders.filter(isLetterQueueEligible), [tabOrders]);
+  const pageSelected = pageOrders.length > 0 && pageOrders.every((o) => selectedIds.has(o.id));
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      pageOrders.forEach((o) => (pageSelected ? next.delete(o.id) : next.add(o.id)));
+      return next;
+    });
+  };
+
+  const queueSelected = () => {
+    onQueueLetters?.(selectedOrders);
+    setSelectedIds(new Set());
+  };
+
   const handlePrev = () => setCurrentPage((p) => Math.max(1, p - 1));
   const handleNext = () => setCurrentPage((p) => Math.min(totalPages, p + 1));
 
@@ -140,6 +271,13 @@ export const OrderTable: React.FC<OrderTableProps> = ({
     return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
   };
 
+  const formatDeadline = (deadline?: string) => {
+    if (!deadline) return null;
+    // Older records hold free text like "Review ASAP" instead of a date
+    if (isNaN(Date.parse(deadline))) return deadline;
+    return `Due ${new Date(deadline).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
+  };
+
   const getDisputeBadge = (order: Order) => {
     if (order.import_category === 'INVALID') {
         const displayCategory = order.original_category 
@@ -165,12 +303,60 @@ export const OrderTable: React.FC<OrderTableProps> = ({
             </div>
         );
     }
-    const status = order.disputeStatus;
-    if (status === DisputeStatus.WON) return <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">Won</span>;
-    if (status === DisputeStatus.LOST) return <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-zinc-100 text-zinc-700 border border-zinc-200">Lost</span>;
-    if (status === DisputeStatus.NEEDS_RESPONSE) return <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">Action required</span>;
-    if (status === DisputeStatus.UNDER_REVIEW) return <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">Under Review</span>;
-    if (order.isHighRisk) return <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-200">High risk</span>;
+    const status = getDisputeStatus(order);
+    const dispute = order.dispute;
+    const disputeMeta = dispute && dispute.reason ? (
+        <span className="text-[10px] text-zinc-500">
+            {formatDisputeReason(dispute.reason)} · {new Intl.NumberFormat("en-US", { style: "currency", currency: dispute.currency || "USD" }).format(dispute.amount || 0)}
+        </span>
+    ) : null;
+
+    if (status === DisputeStatus.WON) {
+        return (
+            <div className="flex flex-col items-start gap-0.5">
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">Won</span>
+                {disputeMeta}
+            </div>
+        );
+    }
+    if (status === DisputeStatus.LOST) {
+        const outcome = dispute?.outcome === 'accepted' ? ' (accepted)' : dispute?.outcome === 'refunded' ? ' (refunded)' : '';
+        return (
+            <div className="flex flex-col items-start gap-0.5">
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-zinc-100 text-zinc-700 border border-zinc-200">Lost{outcome}</span>
+                {disputeMeta}
+            </div>
+        );
+    }
+    if (status === DisputeStatus.NEEDS_RESPONSE) {
+        const { dueAt, estimated } = computeEvidenceDeadline(order, settings);
+        const bucket = getOrderBucket(order, settings);
+        return (
+            <div className="flex flex-col items-start gap-0.5">
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">Action required</span>
+                {dueAt && (
+                    <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium border ${BUCKET_STYLES[bucket]}`} title={dueAt.toLocaleString()}>
+                        {formatCountdown(dueAt)}{estimated ? " (est.)" : ""} · {formatDeadline(dueAt.toISOString())}
+                    </span>
+                )}
+                {disputeMeta}
+            </div>
+        );
+    }
+    if (status === DisputeStatus.UNDER_REVIEW) {
+        return (
+            <div className="flex flex-col items-start gap-0.5">
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">Under Review</span>
+                {disputeMeta}
+            </div>
+        );
+    }
+    const riskTitle = (order.risk_reasons || []).map((r) => `+${r.points} ${r.label}${r.detail ? ` (${r.detail})` : ""}`).join("\n");
+    const scoreSuffix = order.risk_score !== undefined ? ` · ${order.risk_score}` : "";
+    if (order.isHighRisk) return <span title={riskTitle} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-200">High risk{scoreSuffix}</span>;
+    if (order.risk_category === "Medium Risk") return <span title={riskTitle} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-800 border border-amber-200">Medium risk{scoreSuffix}</span>;
+    const allowed = order.risk_reasons?.find((r) => r.signal === "allowlist");
+    if (allowed) return <span title={allowed.detail} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700 border border-green-200">Allowlisted</span>;
     return <span className="text-xs text-zinc-400">No dispute</span>;
   };
 
@@ -211,28 +397,24 @@ export const OrderTable: React.FC<OrderTableProps> = ({
         </div>
       )}
 
-      {/* AI MODAL */}
-      {showModal && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
-          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]">
-            <div className="flex items-center justify-between p-4 border-b border-zinc-200">
-              <div className="flex items-center gap-2 text-zinc-900 font-bold text-lg"><Sparkles className="w-5 h-5 text-purple-600" /><h3>AI Rebuttal</h3></div>
-              <button onClick={() => setShowModal(false)} className="p-2 hover:bg-zinc-100 rounded-full text-zinc-500"><X className="w-5 h-5" /></button>
-            </div>
-            <div className="p-6 overflow-y-auto flex-1 bg-zinc-50">
-               <div className="bg-white p-6 rounded-lg border border-zinc-200 shadow-sm text-sm font-mono whitespace-pre-wrap leading-relaxed">{generatedLetter}</div>
-            </div>
-            <div className="p-4 border-t border-zinc-200 bg-white flex justify-end gap-3 rounded-b-xl">
-              <button onClick={() => setShowModal(false)} className="px-4 py-2 text-zinc-700 font-medium hover:bg-zinc-50 rounded-lg border border-zinc-300">Close</button>
-              <button onClick={copyToClipboard} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg flex items-center gap-2 transition-colors">{copySuccess ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}{copySuccess ? "Copied!" : "Copy to Clipboard"}</button>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* HEADER & FILTER */}
       <div className="flex-none border-b border-zinc-200 bg-zinc-50 px-6 py-3">
-        <div className="flex items-center gap-2 text-xs text-zinc-600"><AlertCircle className="w-4 h-4 text-amber-500" /><span>{total > 0 ? <strong>{total} orders in this view.</strong> : "No orders match this view yet."}</span></div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-xs text-zinc-600"><AlertCircle className="w-4 h-4 text-amber-500" /><span>{total > 0 ? <strong>{total} orders in this view.</strong> : "No orders match this view yet."}</span></div>
+          {activeTab === "DISPUTES" && (
+            <div className="flex items-center gap-1.5">
+              {URGENT_BUCKETS.map((bucket) => (
+                <button
+                  key={bucket}
+                  onClick={() => setBucketFilter(bucketFilter === bucket ? null : bucket)}
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium border ${BUCKET_STYLES[bucket]} ${bucketFilter === bucket ? "ring-1 ring-offset-1 ring-zinc-400" : ""}`}
+                >
+                  {BUCKET_LABELS[bucket]} <span className="font-bold">{bucketCounts[bucket] || 0}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
       <div className="flex-none border-b border-zinc-200 px-6 pt-3 pb-2 bg-white">
         <div className="flex items-center justify-between gap-4">
@@ -256,6 +438,32 @@ export const OrderTable: React.FC<OrderTableProps> = ({
             })}
           </div>
           <div className="flex items-center gap-2">
+            {selectedIds.size > 0 && (onQueueLetters || onRefreshTracking) && (
+              <div className="flex items-center gap-2 text-xs text-zinc-600">
+                <span>{selectedIds.size} selected</span>
+                {onRefreshTracking && (
+                  <button onClick={() => onRefreshTracking(selectedOrders)} className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md font-medium border border-zinc-300 bg-white hover:bg-zinc-50 text-zinc-700">
+                    <Truck className="w-3 h-3" /> Refresh tracking
+                  </button>
+                )}
+                {onQueueLetters && (
+                  <button
+                    onClick={queueSelected}
+                    disabled={selectedEligible === 0}
+                    title={selectedEligible < selectedIds.size ? "Only chargebacks that need a response get a letter" : undefined}
+                    className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    <Sparkles className="w-3 h-3" /> Queue {selectedEligible} letter{selectedEligible === 1 ? "" : "s"}
+                  </button>
+                )}
+                <button onClick={() => setSelectedIds(new Set())} className="text-zinc-500 hover:underline">Clear</button>
+              </div>
+            )}
+            {onQueueLetters && activeTab === "DISPUTES" && selectedIds.size === 0 && needsResponse.length > 0 && (
+              <button onClick={() => onQueueLetters(needsResponse)} className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-purple-200 rounded-md bg-purple-50 hover:bg-purple-100 text-purple-700 font-medium">
+                <Sparkles className="w-3 h-3" /> Draft all Needs Response ({needsResponse.length})
+              </button>
+            )}
             <button className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700"><Filter className="w-3 h-3" /> Filter</button>
             <button onClick={onValidate} className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-blue-700 font-medium"><ScanSearch className="w-3 h-3" /> Validate Data</button>
           </div>
@@ -268,7 +476,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
           <table className="w-full text-sm border-separate border-spacing-0 whitespace-nowrap">
             <thead className="bg-[#f9fafb] text-xs text-zinc-500 sticky top-0 z-10 shadow-sm">
                 <tr>
-                  <th className="bg-[#f9fafb] px-4 py-2 text-left w-10 border-b border-zinc-200"><input type="checkbox" className="rounded border-zinc-300"/></th>
+                  <th className="bg-[#f9fafb] px-4 py-2 text-left w-10 border-b border-zinc-200"><input type="checkbox" checked={pageSelected} onChange={togglePage} title="Select this page" className="rounded border-zinc-300"/></th>
                   <th className="bg-[#f9fafb] px-4 py-2 text-left text-[11px] font-medium border-b border-zinc-200">Order</th>
                   <th className="bg-[#f9fafb] px-4 py-2 text-left text-[11px] font-medium border-b border-zinc-200">Date</th>
                   <th className="bg-[#f9fafb] px-4 py-2 text-left text-[11px] font-medium border-b border-zinc-200">Customer</th>
@@ -283,10 +491,10 @@ export const OrderTable: React.FC<OrderTableProps> = ({
             <tbody className="bg-white">
                 {pageOrders.map((order) => (
                     <tr key={order.id} className="border-b border-zinc-100 hover:bg-zinc-50 group">
-                      <td className="px-4 py-2 align-middle"><input type="checkbox" className="rounded border-zinc-300"/></td>
-                      <td className="px-4 py-2 align-middle text-[13px] text-zinc-900 font-medium">{order.id}</td>
+                      <td className="px-4 py-2 align-middle"><input type="checkbox" checked={selectedIds.has(order.id)} onChange={() => toggleSelected(order.id)} className="rounded border-zinc-300"/></td>
+                      <td className="px-4 py-2 align-middle text-[13px] text-zinc-900 font-medium"><button onClick={() => onOpenOrder?.(order.id)} className="hover:underline" title="View details">{order.id}</button></td>
                       <td className="px-4 py-2 align-middle text-[13px] text-zinc-700">{order.date}</td>
-                      <td className="px-4 py-2 align-middle text-[13px] text-zinc-700"><div>{order.customer.name}</div><div className="text-[11px] text-zinc-400">{order.customer.email}</div></td>
+                      <td className="px-4 py-2 align-middle text-[13px] text-zinc-700"><div>{order.customer.name}</div><div className="text-[11px] text-zinc-400">{order.customer.email}</div>{renderCustomerHistory(order)}</td>
                       <td className="px-4 py-2 align-middle text-[13px] text-zinc-700">{order.channel || "Online Store"}</td>
                       <td className="px-4 py-2 align-middle text-[13px] text-zinc-900">{formatMoney(order)}</td>
                       <td className="px-4 py-2 align-middle">{getDisputeBadge(order)}</td>
@@ -296,8 +504,11 @@ export const OrderTable: React.FC<OrderTableProps> = ({
                                 <button onClick={() => setEditingOrder(order)} className="p-1.5 bg-zinc-100 hover:bg-zinc-200 rounded text-zinc-600 border border-zinc-200" title="Edit Order"><Pencil className="w-3.5 h-3.5" /></button>
                                 <button onClick={() => onApprove && onApprove(order)} className="p-1.5 bg-green-50 hover:bg-green-100 rounded text-green-600 border border-green-200" title="Mark as Valid"><CheckCircle2 className="w-3.5 h-3.5" /></button>
                             </div>
-                        ) : (order.disputeStatus === DisputeStatus.NEEDS_RESPONSE || order.isHighRisk) && order.import_category !== 'INVALID' ? (
-                          <button onClick={() => handleGenerate(order)} className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-[11px] font-medium bg-purple-50 text-purple-700 border border-purple-200 hover:bg-purple-100"><Sparkles className="w-3 h-3" /> Draft Rebuttal</button>
+                        ) : (getDisputeStatus(order) === DisputeStatus.NEEDS_RESPONSE || order.isHighRisk) && order.import_category !== 'INVALID' ? (
+                          <div className="flex items-center gap-1.5">
+                            <button onClick={() => handleGenerate(order)} disabled={generatingId === order.id} className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-[11px] font-medium bg-purple-50 text-purple-700 border border-purple-200 hover:bg-purple-100 disabled:opacity-50">{generatingId === order.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />} Draft Rebuttal</button>
+                            <button onClick={() => handleTemplateLetter(order)} disabled={generatingId === order.id} className="p-1.5 rounded-md text-zinc-600 border border-zinc-200 hover:bg-zinc-100 disabled:opacity-50" title="Letter from template (no AI)"><FileText className="w-3.5 h-3.5" /></button>
+                          </div>
                         ) : <span className="text-zinc-300 text-[11px]">—</span>}
                       </td>
                       <td className="px-4 py-2 align-middle text-[13px] text-zinc-700">{order.paymentStatus}</td>
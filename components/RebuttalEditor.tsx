@@ -0,0 +1,458 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  X,
+  Copy,
+  Check,
+  FileDown,
+  Loader2,
+  History,
+  Send,
+  AlertTriangle,
+  Save,
+  PenLine,
+  GitCompare,
+  ShieldCheck
+} from 'lucide-react';
+import { Order, SavedDispute, DraftVersion, DraftSource, EvidenceAttachment } from '../types';
+import { saveDisputeDraft, markDisputeSubmitted, fetchSavedDisputesForOrder } from '../services/disputeService';
+import { fetchDraftVersions, recordDraftVersion, recordGeneratedVersion, diffLines, DRAFT_SOURCE_LABELS } from '../services/draftService';
+import { fetchAttachments } from '../services/attachmentService';
+import {
+  buildEvidenceInventory,
+  validateLetterClaims,
+  ClaimIssue,
+  EVIDENCE_KIND_LABELS
+} from '../services/evidenceInventoryService';
+
+interface RebuttalEditorProps {
+  order: Order;
+  // A letter that was just generated; without it the saved draft opens
+  generated?: { text: string; source: DraftSource };
+  onClose: () => void;
+  onExportPacket?: (order: Order, letter: string) => Promise<void>;
+  onSubmitted: (order: Order, submittedAt: string) => Promise<void>;
+}
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const CURRENT = 'current';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const DIFF_STYLES = {
+  same: 'text-zinc-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700 line-through',
+};
+
+const DIFF_MARKS = { same: ' ', added: '+', removed: '-' };
+
+// Editing a flagged sentence flags it again
+const issueKey = (issue: ClaimIssue) => `${issue.claim}|${issue.sentence}`;
+
+export const RebuttalEditor: React.FC<RebuttalEditorProps> = ({ order, generated, onClose, onExportPacket, onSubmitted }) => {
+  const [text, setText] = useState(generated?.text || '');
+  const [draft, setDraft] = useState<SavedDispute | null>(null);
+  const [versions, setVersions] = useState<DraftVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<'EDIT' | 'CHANGES'>('EDIT');
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [submitDate, setSubmitDate] = useState(today());
+  const [busy, setBusy] = useState<'closing' | 'submitting' | 'exporting' | 'snapshot' | null>(null);
+  const [copySuccess, setCopySuccess] = useState(false);
+  const [attachments, setAttachments] = useState<EvidenceAttachment[]>([]);
+  // Flagged claims the user has checked and kept
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+  // Last text known to be stored in `disputes`
+  const savedText = useRef<string | null>(null);
+
+  const submitted = draft?.status === 'Submitted';
+
+  const inventory = useMemo(() => buildEvidenceInventory(order, attachments), [order, attachments]);
+  const issues = useMemo(() => (submitted ? [] : validateLetterClaims(text, inventory)), [text, inventory, submitted]);
+  const unconfirmed = issues.filter((issue) => !confirmed.has(issueKey(issue)));
+  // Nothing reaches `disputes` while a flagged claim is unchecked
+  const blocked = unconfirmed.length > 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [saved, history, files] = await Promise.all([
+        fetchSavedDisputesForOrder(order.id),
+        fetchDraftVersions(order.id),
+        fetchAttachments(order.id)
+      ]);
+      let current = saved[0] || null;
+      let allVersions = history;
+      let initialText = current?.rebuttal_text || '';
+      let storedText = current ? initialText : null;
+      let savedAt: Date | null = null;
+      let failure: string | null = null;
+
+      // A new letter replaces the draft, unless the rebuttal was already sent.
+      // The generated text is always kept as a version; it only becomes the
+      // saved draft once its claims check out. Both writes are idempotent, as
+      // this effect can run twice for the same letter.
+      if (generated && current?.status !== 'Submitted') {
+        initialText = generated.text;
+        const flagged = validateLetterClaims(generated.text, buildEvidenceInventory(order, files)).length > 0;
+        try {
+          const version = await recordGeneratedVersion(order.id, generated.text, generated.source, history);
+          if (!history.some((v) => v.id === version.id)) allVersions = [...history, version];
+          if (!flagged && current?.rebuttal_text !== generated.text) {
+            current = await saveDisputeDraft(order.id, generated.text, order.dispute?.id);
+            savedAt = new Date();
+          }
+          if (!flagged) storedText = generated.text;
+        } catch (err: any) {
+          failure = err.message;
+        }
+      }
+      if (cancelled) return;
+
+      if (failure) {
+        setError(failure);
+        setSaveState('error');
+      } else if (savedAt) {
+        setLastSavedAt(savedAt);
+        setSaveState('saved');
+      }
+
+      savedText.current = storedText;
+      setAttachments(files);
+      setDraft(current);
+      setVersions(allVersions);
+      setText(initialText);
+      const base = allVersions.find((v) => v.source !== 'edit') || allVersions[0];
+      setCompareFrom(base?.id || '');
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [order.id]);
+
+  const persist = async (value: string) => {
+    setSaveState('saving');
+    try {
+      const saved = await saveDisputeDraft(order.id, value, order.dispute?.id);
+      savedText.current = value;
+      setDraft(saved);
+      setLastSavedAt(new Date());
+      setSaveState('saved');
+    } catch (err: any) {
+      setSaveState('error');
+      throw err;
+    }
+  };
+
+  // Autosave once typing pauses
+  useEffect(() => {
+    if (loading || submitted || blocked || text === savedText.current || (!savedText.current && !text.trim())) return;
+    const timer = setTimeout(() => {
+      persist(text).catch((err) => setError(err.message));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, loading, submitted, blocked]);
+
+  const latestVersion = versions[versions.length - 1];
+
+  /**
+   * Saves pending text, then snapshots it if it differs from the last version.
+   */
+  const flush = async () => {
+    if (text !== savedText.current && text.trim()) await persist(text);
+    if (text.trim() && text !== latestVersion?.text) {
+      const version = await recordDraftVersion(order.id, text, 'edit', versions);
+      setVersions((prev) => [...prev, version]);
+    }
+  };
+
+  const handleSnapshot = async () => {
+    setBusy('snapshot');
+    setError(null);
+    try {
+      await flush();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleClose = async () => {
+    if (submitted || loading) {
+      onClose();
+      return;
+    }
+    if (blocked) {
+      if (window.confirm('This letter has claims the evidence does not support, so the latest text has not been saved. Close without saving?')) onClose();
+      return;
+    }
+    setBusy('closing');
+    try {
+      await flush();
+      onClose();
+    } catch (err: any) {
+      setBusy(null);
+      if (window.confirm(`Your latest changes could not be saved (${err.message}). Close anyway?`)) onClose();
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!submitDate) return;
+    if (!window.confirm(`Mark this rebuttal as submitted on ${submitDate}? The order moves to Under Review and the letter can no longer be edited.`)) return;
+    setBusy('submitting');
+    setError(null);
+    try {
+      await flush();
+      const updated = await markDisputeSubmitted(order.id, submitDate);
+      setDraft(updated);
+      await onSubmitted(order, submitDate);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!onExportPacket || blocked) return;
+    setBusy('exporting');
+    setError(null);
+    try {
+      // The packet carries the letter, so it goes through the same save as every other action
+      if (!submitted) await flush();
+      await onExportPacket(order, text);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const confirmIssues = () => {
+    setConfirmed((prev) => new Set([...prev, ...issues.map(issueKey)]));
+  };
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(text);
+    setCopySuccess(true);
+    setTimeout(() => setCopySuccess(false), 2000);
+  };
+
+  const unfilled = useMemo(() => Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), (m) => m[1]))), [text]);
+
+  const versionText = (id: string) => (id === CURRENT ? text : versions.find((v) => v.id === id)?.text ?? '');
+  const diff = useMemo(
+    () => (view === 'CHANGES' && compareFrom ? diffLines(versionText(compareFrom), versionText(compareTo)) : []),
+    [view, compareFrom, compareTo, versions, text]
+  );
+  const added = diff.filter((l) => l.type === 'added').length;
+  const removed = diff.filter((l) => l.type === 'removed').length;
+
+  const saveLabel = submitted
+    ? `Submitted ${draft?.submitted_at?.slice(0, 10) || ''}`
+    : saveState === 'saving' ? 'Saving…'
+    : saveState === 'error' ? 'Not saved'
+    : blocked && text !== savedText.current ? 'Not saved: check flagged claims'
+    : text !== savedText.current && text.trim() ? 'Unsaved changes'
+    : lastSavedAt ? `Saved ${lastSavedAt.toLocaleTimeString()}`
+    : draft ? 'Saved' : '';
+
+  const versionLabel = (v: DraftVersion) => `v${v.version} · ${DRAFT_SOURCE_LABELS[v.source]} · ${new Date(v.created_at).toLocaleString()}`;
+
+  return (
+    <div className="fixed inset-0 z-[170] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl flex flex-col h-[90vh]">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-200">
+          <div className="flex items-center gap-3">
+            <PenLine className="w-5 h-5 text-purple-600" />
+            <div>
+              <h3 className="font-bold text-zinc-900">Rebuttal for order {order.id}</h3>
+              <p className={`text-[11px] ${saveState === 'error' ? 'text-red-600' : submitted ? 'text-green-700' : 'text-zinc-400'}`}>{saveLabel}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {(['EDIT', 'CHANGES'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                disabled={v === 'CHANGES' && versions.length === 0}
+                className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border disabled:opacity-40 ${view === v ? 'bg-white border-zinc-300 text-zinc-900 shadow-sm' : 'bg-transparent border-transparent text-zinc-500 hover:bg-zinc-100'}`}
+              >
+                {v === 'EDIT' ? <><PenLine className="w-3 h-3" /> Letter</> : <><GitCompare className="w-3 h-3" /> Changes</>}
+              </button>
+            ))}
+            <button onClick={handleClose} disabled={busy === 'closing'} className="ml-2 p-2 hover:bg-zinc-100 rounded-full text-zinc-500">
+              {busy === 'closing' ? <Loader2 className="w-5 h-5 animate-spin" /> : <X className="w-5 h-5" />}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="flex-1 min-w-0 flex flex-col p-4 bg-zinc-50">
+            {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+            {blocked && (
+              <div className="mb-2 flex items-start gap-2 text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>
+                  {unconfirmed.length} {unconfirmed.length === 1 ? 'claim is' : 'claims are'} not backed by this order's evidence.
+                  Remove {unconfirmed.length === 1 ? 'it' : 'them'}, attach the evidence, or confirm under Evidence check. The letter is not saved until then.
+                </span>
+              </div>
+            )}
+            {!submitted && unfilled.length > 0 && (
+              <div className="mb-2 flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>Fill in {unfilled.map((m) => `{{${m}}}`).join(', ')} before sending.</span>
+              </div>
+            )}
+            {loading ? (
+              <div className="flex items-center gap-2 text-xs text-zinc-400"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading draft…</div>
+            ) : view === 'EDIT' ? (
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                readOnly={submitted}
+                spellCheck
+                placeholder="Write the rebuttal, or generate a draft from the order table."
+                className="flex-1 w-full p-6 bg-white rounded-lg border border-zinc-200 shadow-sm text-sm font-mono leading-relaxed resize-none focus:ring-2 focus:ring-purple-500 outline-none read-only:bg-zinc-50"
+              />
+            ) : (
+              <div className="flex-1 min-h-0 flex flex-col">
+                <div className="flex items-center gap-2 mb-2 text-xs">
+                  <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} className="px-2 py-1 border border-zinc-300 rounded-md bg-white">
+                    {versions.map((v) => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                  </select>
+                  <span className="text-zinc-400">→</span>
+                  <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)} className="px-2 py-1 border border-zinc-300 rounded-md bg-white">
+                    <option value={CURRENT}>Current text</option>
+                    {versions.map((v) => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                  </select>
+                  <span className="ml-auto text-zinc-500"><span className="text-green-700">+{added}</span> / <span className="text-red-600">-{removed}</span> lines</span>
+                </div>
+                <div className="flex-1 overflow-y-auto bg-white rounded-lg border border-zinc-200 font-mono text-xs leading-relaxed">
+                  {diff.map((line, i) => (
+                    <div key={i} className={`px-3 whitespace-pre-wrap ${DIFF_STYLES[line.type]}`}>
+                      <span className="select-none text-zinc-400 mr-2">{DIFF_MARKS[line.type]}</span>{line.text || ' '}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <aside className="w-72 shrink-0 border-l border-zinc-200 p-4 overflow-y-auto space-y-6">
+            {!submitted && (
+              <section>
+                <h4 className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase mb-2"><ShieldCheck className="w-3.5 h-3.5" /> Evidence check</h4>
+                {issues.length === 0 ? (
+                  <p className="text-xs text-green-700">Every claim the check recognises is backed by the evidence below.</p>
+                ) : (
+                  <>
+                    <ul className="space-y-2 mb-2">
+                      {issues.map((issue) => (
+                        <li key={issueKey(issue)} className={`text-xs rounded-md border p-2 ${confirmed.has(issueKey(issue)) ? 'border-zinc-200 text-zinc-500' : 'border-red-200 bg-red-50 text-red-800'}`}>
+                          <span className="font-medium">{issue.claim}</span>
+                          {confirmed.has(issueKey(issue)) && <span className="ml-1 text-[10px] uppercase">checked</span>}
+                          <span className="block mt-0.5 italic line-clamp-3">"{issue.sentence}"</span>
+                          <span className="block mt-0.5 text-[11px]">Needs: {issue.requires.map((kind) => EVIDENCE_KIND_LABELS[kind]).join(' or ')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {blocked && (
+                      <button onClick={confirmIssues} className="w-full text-[11px] px-2 py-1 rounded border border-zinc-300 hover:bg-zinc-50 text-zinc-700">
+                        I've checked these claims, keep them
+                      </button>
+                    )}
+                  </>
+                )}
+                <details className="mt-2">
+                  <summary className="text-[11px] text-zinc-500 cursor-pointer">Evidence on file ({inventory.length})</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {inventory.map((item) => (
+                      <li key={item.id} className="text-[11px] text-zinc-600">
+                        <span className="text-zinc-400">{EVIDENCE_KIND_LABELS[item.kind]}:</span> {item.label}: {item.value}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              </section>
+            )}
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase"><History className="w-3.5 h-3.5" /> Versions</h4>
+                {!submitted && (
+                  <button onClick={handleSnapshot} disabled={busy !== null || loading || blocked} className="inline-flex items-center gap-1 text-[11px] text-blue-700 font-medium hover:underline disabled:opacity-50">
+                    {busy === 'snapshot' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save version
+                  </button>
+                )}
+              </div>
+              {versions.length > 0 ? (
+                <ul className="space-y-1">
+                  {[...versions].reverse().map((v) => (
+                    <li key={v.id} className="text-xs flex items-center justify-between gap-2">
+                      <span className="text-zinc-700">
+                        v{v.version} · {DRAFT_SOURCE_LABELS[v.source]}
+                        <span className="block text-[11px] text-zinc-400">{v.created_by} · {new Date(v.created_at).toLocaleString()}</span>
+                      </span>
+                      <button
+                        onClick={() => { setCompareFrom(v.id); setCompareTo(CURRENT); setView('CHANGES'); }}
+                        className="text-[11px] px-2 py-0.5 rounded border border-zinc-200 hover:bg-zinc-50 text-zinc-700"
+                      >
+                        Compare
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-zinc-400">{loading ? 'Loading…' : 'No versions yet. One is kept for every generated draft and each editing session.'}</p>
+              )}
+            </section>
+
+            <section>
+              <h4 className="flex items-center gap-1.5 text-xs font-semibold text-zinc-500 uppercase mb-2"><Send className="w-3.5 h-3.5" /> Submission</h4>
+              {submitted ? (
+                <p className="text-xs text-zinc-600">
+                  Sent to the processor on {draft?.submitted_at?.slice(0, 10) || 'an unknown date'}. The order is Under Review.
+                </p>
+              ) : (
+                <>
+                  <label className="block text-[11px] text-zinc-500 mb-1">Submitted on</label>
+                  <input type="date" value={submitDate} max={today()} onChange={(e) => setSubmitDate(e.target.value)} className="w-full px-2 py-1.5 border border-zinc-300 rounded-md text-xs mb-2" />
+                  <button
+                    onClick={handleSubmit}
+                    disabled={!submitDate || !text.trim() || busy !== null || loading || blocked}
+                    className="w-full inline-flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    {busy === 'submitting' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />} Mark as Submitted
+                  </button>
+                </>
+              )}
+            </section>
+          </aside>
+        </div>
+
+        <div className="p-4 border-t border-zinc-200 bg-white flex justify-end gap-3 rounded-b-xl">
+          <button onClick={handleClose} disabled={busy === 'closing'} className="px-4 py-2 text-zinc-700 font-medium hover:bg-zinc-50 rounded-lg border border-zinc-300">Close</button>
+          {onExportPacket && (
+            <button onClick={handleExport} disabled={busy !== null || !text.trim() || blocked} className="px-4 py-2 text-zinc-700 font-medium hover:bg-zinc-50 rounded-lg border border-zinc-300 flex items-center gap-2 disabled:opacity-50">
+              {busy === 'exporting' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />} Evidence Packet PDF
+            </button>
+          )}
+          <button onClick={copyToClipboard} disabled={!text.trim()} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50">
+            {copySuccess ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}{copySuccess ? "Copied!" : "Copy to Clipboard"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, Save, RotateCcw, Loader2, AlertTriangle, FlaskConical, X } from 'lucide-react';
+import { RiskRule, RuleCondition, RuleAction, RuleActionType, RuleOperator } from '../types';
+import {
+  RULE_OPERATORS,
+  RULE_ACTIONS,
+  RULE_FIELDS,
+  CATEGORY_DISPUTE_STATUS,
+  DEFAULT_RULES,
+  createEmptyRule,
+  validateRule
+} from '../services/rulesService';
+import { BacktestReport, KnownOutcome, OUTCOME_LABELS } from '../services/backtestService';
+
+interface RulesEditorProps {
+  rules: RiskRule[];
+  onSave: (rules: RiskRule[]) => Promise<void>;
+  onBacktest?: (rule: RiskRule) => Promise<BacktestReport>;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  RISK: 'High Risk',
+  DISPUTE_OPEN: 'Open Dispute',
+  DISPUTE_SUBMITTED: 'Submitted',
+  DISPUTE_WON: 'Won',
+  DISPUTE_LOST: 'Lost',
+};
+
+const DEFAULT_ACTION_VALUES: Record<RuleActionType, string> = {
+  flag_risk: '20',
+  set_category: 'RISK',
+  add_tag: '',
+};
+
+const MAX_CHANGES_SHOWN = 50;
+
+const formatRatio = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const BacktestPanel: React.FC<{ report: BacktestReport; onClose: () => void }> = ({ report, onClose }) => (
+  <div className="mt-3 border border-blue-100 bg-blue-50/40 rounded-md p-3 text-xs">
+    <div className="flex items-center justify-between mb-2">
+      <span className="font-semibold text-zinc-800">Backtest against {report.ordersScanned} stored orders</span>
+      <button onClick={onClose} className="p-0.5 text-zinc-400 hover:text-zinc-700" title="Close">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+    <div className="grid grid-cols-4 gap-2 mb-3">
+      {[
+        { label: 'Would flag', value: String(report.flagged) },
+        { label: 'Known bad caught', value: `${report.caught} / ${report.knownBad}` },
+        { label: 'Precision', value: formatRatio(report.precision) },
+        { label: 'Recall', value: formatRatio(report.recall) },
+      ].map((stat) => (
+        <div key={stat.label} className="bg-white border border-zinc-200 rounded px-2 py-1.5">
+          <div className="text-[10px] text-zinc-500">{stat.label}</div>
+          <div className="text-sm font-semibold text-zinc-900">{stat.value}</div>
+        </div>
+      ))}
+    </div>
+    <table className="w-full mb-3">
+      <tbody>
+        {(Object.keys(report.byOutcome) as KnownOutcome[]).map((outcome) => {
+          const { total, caught } = report.byOutcome[outcome];
+          return (
+            <tr key={outcome} className="border-t border-zinc-100">
+              <td className="py-1 text-zinc-600">{OUTCOME_LABELS[outcome]}</td>
+              <td className="py-1 text-right text-zinc-900">{caught} of {total} caught</td>
+              <td className="py-1 text-right text-zinc-500 w-14">{formatRatio(total > 0 ? caught / total : null)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+    <div className="font-medium text-zinc-700 mb-1">
+      {report.changes.length === 0 ? 'No order would change classification.' : `${report.changes.length} orders would change classification`}
+    </div>
+    {report.changes.length > 0 && (
+      <div className="max-h-48 overflow-y-auto bg-white border border-zinc-200 rounded">
+        {report.changes.slice(0, MAX_CHANGES_SHOWN).map((change) => (
+          <div key={change.orderId} className="flex items-center justify-between px-2 py-1 border-b border-zinc-50 last:border-0">
+            <span className="font-mono text-zinc-800">{change.orderId}</span>
+            <span className="text-zinc-500">
+              {change.before.category || 'AUTO'} · {change.before.riskCategory || 'Normal'} ({change.before.score ?? 0})
+              {' → '}
+              <span className="text-zinc-900 font-medium">
+                {change.after.category || 'AUTO'} · {change.after.riskCategory || 'Normal'} ({change.after.score ?? 0})
+              </span>
+            </span>
+          </div>
+        ))}
+        {report.changes.length > MAX_CHANGES_SHOWN && (
+          <div className="px-2 py-1 text-zinc-400">…and {report.changes.length - MAX_CHANGES_SHOWN} more</div>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const inputClass = 'px-2 py-1.5 border border-zinc-300 rounded-md text-xs focus:ring-2 focus:ring-zinc-900 outline-none bg-white';
+
+export const RulesEditor: React.FC<RulesEditorProps> = ({ rules, onSave, onBacktest }) => {
+  const [draft, setDraft] = useState<RiskRule[]>(rules);
+  const [saving, setSaving] = useState(false);
+  const [reports, setReports] = useState<Record<string, BacktestReport>>({});
+  const [backtestingId, setBacktestingId] = useState<string | null>(null);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const problems = useMemo(() => new Map(draft.map((rule) => [rule.id, validateRule(rule)])), [draft]);
+  const hasProblems = Array.from(problems.values()).some((p) => p.length > 0);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  const updateRule = (id: string, updates: Partial<RiskRule>) => {
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateCondition = (rule: RiskRule, index: number, updates: Partial<RuleCondition>) => {
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)) });
+  };
+
+  const updateAction = (rule: RiskRule, index: number, updates: Partial<RuleAction>) => {
+    updateRule(rule.id, { actions: rule.actions.map((a, i) => (i === index ? { ...a, ...updates } : a)) });
+  };
+
+  const handleAddRule = () => {
+    const top = draft.reduce((max, rule) => Math.max(max, rule.priority), 0);
+    setDraft((prev) => [createEmptyRule(top + 10), ...prev]);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace your rules with the built-in defaults? Unsaved changes are lost.')) return;
+    setDraft(DEFAULT_RULES);
+  };
+
+  const handleBacktest = async (rule: RiskRule) => {
+    if (!onBacktest) return;
+    setBacktestingId(rule.id);
+    setBacktestError(null);
+    try {
+      const report = await onBacktest(rule);
+      setReports((prev) => ({ ...prev, [rule.id]: report }));
+    } catch (err: any) {
+      setBacktestError(err.message || 'Backtest failed.');
+    } finally {
+      setBacktestingId(null);
+    }
+  };
+
+  const closeReport = (id: string) => {
+    setReports((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-none px-6 py-4 border-b border-zinc-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900">Risk Rules</h2>
+          <p className="text-xs text-zinc-500 mt-1 max-w-2xl">
+            Rules run on every CSV import, Shopify sync and Validate Data, highest priority first.
+            The first matching rule that sets a category wins; risk points from all matching rules add up.
+            Categories chosen at import or approved by hand are never changed by rules.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button onClick={handleReset} className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700">
+            <RotateCcw className="w-3 h-3" /> Defaults
+          </button>
+          <button onClick={handleAddRule} className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700">
+            <Plus className="w-3 h-3" /> Add rule
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || hasProblems || saving}
+            className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-md bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save rules
+          </button>
+        </div>
+      </div>
+
+      <datalist id="rule-fields">
+        {RULE_FIELDS.map((field) => <option key={field} value={field} />)}
+      </datalist>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {backtestError && (
+          <div className="flex items-center gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded px-3 py-2">
+            <AlertTriangle className="w-3 h-3" /> {backtestError}
+          </div>
+        )}
+        {draft.length === 0 && (
+          <div className="text-center text-sm text-zinc-400 py-12">No rules. Orders will only be scored by the built-in risk signals.</div>
+        )}
+
+        {draft.map((rule) => {
+          const ruleProblems = problems.get(rule.id) || [];
+          return (
+            <div key={rule.id} className={`border rounded-lg bg-white ${rule.enabled ? 'border-zinc-200' : 'border-zinc-200 opacity-60'}`}>
+              <div className="flex items-center gap-3 px-4 py-3 border-b border-zinc-100 bg-zinc-50 rounded-t-lg">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="rounded border-zinc-300"
+                  title="Enabled"
+                />
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  placeholder="Rule name"
+                  className={`${inputClass} flex-1 font-medium`}
+                />
+                <label className="flex items-center gap-1 text-[11px] text-zinc-500">
+                  Priority
+                  <input
+                    type="number"
+                    value={rule.priority}
+                    onChange={(e) => updateRule(rule.id, { priority: parseInt(e.target.value) || 0 })}
+                    className={`${inputClass} w-16`}
+                  />
+                </label>
+                {onBacktest && (
+                  <button
+                    onClick={() => handleBacktest(rule)}
+                    disabled={ruleProblems.length > 0 || backtestingId !== null}
+                    className="inline-flex items-center gap-1 text-[11px] px-2 py-1 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Run this rule against all stored orders without saving anything"
+                  >
+                    {backtestingId === rule.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <FlaskConical className="w-3 h-3" />} Backtest
+                  </button>
+                )}
+                <button
+                  onClick={() => setDraft((prev) => prev.filter((r) => r.id !== rule.id))}
+                  className="p-1.5 text-zinc-400 hover:text-red-600 hover:bg-red-50 rounded"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <div className="px-4 py-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-zinc-600">
+                  When
+                  <select
+                    value={rule.match}
+                    onChange={(e) => updateRule(rule.id, { match: e.target.value as RiskRule['match'] })}
+                    className={inputClass}
+                  >
+                    <option value="all">all</option>
+                    <option value="any">any</option>
+                  </select>
+                  of these are true:
+                </div>
+
+                {rule.conditions.map((condition, i) => {
+                  const operator = RULE_OPERATORS.find((o) => o.id === condition.operator);
+                  return (
+                    <div key={i} className="flex items-center gap-2 pl-4">
+                      <input
+                        list="rule-fields"
+                        value={condition.field}
+                        onChange={(e) => updateCondition(rule, i, { field: e.target.value })}
+                        placeholder="Field"
+                        className={`${inputClass} w-56 font-mono`}
+                      />
+                      <select
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(rule, i, { operator: e.target.value as RuleOperator })}
+                        className={inputClass}
+                      >
+                        {RULE_OPERATORS.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+                      </select>
+                      {operator?.needsValue && (
+                        <input
+                          value={condition.value || ''}
+                          onChange={(e) => updateCondition(rule, i, { value: e.target.value })}
+                          placeholder="Value"
+                          className={`${inputClass} flex-1`}
+                        />
+                      )}
+                      <button
+                        onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, j) => j !== i) })}
+                        className="p-1 text-zinc-400 hover:text-red-600"
+                        title="Remove condition"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { field: 'tags', operator: 'contains', value: '' }] })}
+                  className="ml-4 inline-flex items-center gap-1 text-[11px] text-blue-700 hover:underline"
+                >
+                  <Plus className="w-3 h-3" /> Condition
+                </button>
+
+                <div className="text-xs text-zinc-600 pt-2">Then:</div>
+                {rule.actions.map((action, i) => (
+                  <div key={i} className="flex items-center gap-2 pl-4">
+                    <select
+                      value={action.type}
+                      onChange={(e) => {
+                        const type = e.target.value as RuleActionType;
+                        updateAction(rule, i, { type, value: DEFAULT_ACTION_VALUES[type] });
+                      }}
+                      className={inputClass}
+                    >
+                      {RULE_ACTIONS.map((a) => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                    {action.type === 'set_category' ? (
+                      <select value={action.value} onChange={(e) => updateAction(rule, i, { value: e.target.value })} className={inputClass}>
+                        {Object.keys(CATEGORY_DISPUTE_STATUS).map((c) => <option key={c} value={c}>{CATEGORY_LABELS[c] || c}</option>)}
+                      </select>
+                    ) : (
+                      <input
+                        type={action.type === 'flag_risk' ? 'number' : 'text'}
+                        min={action.type === 'flag_risk' ? 1 : undefined}
+                        value={action.value}
+                        onChange={(e) => updateAction(rule, i, { value: e.target.value })}
+                        placeholder={action.type === 'flag_risk' ? 'Points' : 'Tag'}
+                        className={`${inputClass} ${action.type === 'flag_risk' ? 'w-24' : 'flex-1'}`}
+                      />
+                    )}
+                    <button
+                      onClick={() => updateRule(rule.id, { actions: rule.actions.filter((_, j) => j !== i) })}
+                      className="p-1 text-zinc-400 hover:text-red-600"
+                      title="Remove action"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateRule(rule.id, { actions: [...rule.actions, { type: 'add_tag', value: '' }] })}
+                  className="ml-4 inline-flex items-center gap-1 text-[11px] text-blue-700 hover:underline"
+                >
+                  <Plus className="w-3 h-3" /> Action
+                </button>
+
+                {ruleProblems.length > 0 && (
+                  <div className="mt-2 flex items-start gap-2 text-[11px] text-red-700 bg-red-50 border border-red-100 rounded px-2 py-1.5">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    <span>{ruleProblems.join(' · ')}</span>
+                  </div>
+                )}
+
+                {reports[rule.id] && <BacktestPanel report={reports[rule.id]} onClose={() => closeReport(rule.id)} />}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -6,7 +6,12 @@ import {
   CheckCircle2,
   ListChecks,
   Settings,
-  FileWarning
+  FileWarning,
+  SlidersHorizontal,
+  Ban,
+  Inbox,
+  History,
+  FileText
 } from 'lucide-react';
 import { TabType, Order } from '../types';
 import ClearDataButton from './ClearDataButton';
@@ -17,6 +22,7 @@ interface SidebarProps {
   onOpenSettings: () => void;
   onClearData: () => void;
   orders?: Order[]; // Added orders prop to check for errors
+  reviewCount?: number; // Unmatched processor disputes waiting for review
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -24,7 +30,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onTabChange,
   onOpenSettings,
   onClearData,
-  orders = []
+  orders = [],
+  reviewCount = 0
 }) => {
   
   // Check if we have any broken data
@@ -32,7 +39,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     return orders.some(o => o.import_category === 'INVALID');
   }, [orders]);
 
-  const tabs: { id: TabType; label: string; icon: React.ReactNode; hidden?: boolean }[] = [
+  const tabs: { id: TabType; label: string; icon: React.ReactNode; hidden?: boolean; count?: number }[] = [
     {
       id: 'RISK',
       label: 'Fraud Monitoring',
@@ -43,6 +50,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
       label: 'Chargebacks',
       icon: <AlertOctagon className="w-4 h-4" />,
     },
+    {
+      id: 'REVIEW',
+      label: 'Dispute Review',
+      icon: <Inbox className="w-4 h-4" />,
+      count: reviewCount,
+    },
     {
       id: 'HISTORY',
       label: 'Won / Lost',
@@ -53,6 +66,26 @@ export const Sidebar: React.FC<SidebarProps> = ({
       label: 'All Orders',
       icon: <ListChecks className="w-4 h-4" />,
     },
+    {
+      id: 'RULES',
+      label: 'Risk Rules',
+      icon: <SlidersHorizontal className="w-4 h-4" />,
+    },
+    {
+      id: 'LISTS',
+      label: 'Block / Allow Lists',
+      icon: <Ban className="w-4 h-4" />,
+    },
+    {
+      id: 'TEMPLATES',
+      label: 'Rebuttal Templates',
+      icon: <FileText className="w-4 h-4" />,
+    },
+    {
+      id: 'IMPORTS',
+      label: 'Import History',
+      icon: <History className="w-4 h-4" />,
+    },
     // Only show this if we have bad data
     {
       id: 'QUARANTINE',
@@ -102,13 +135,26 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   {tab.icon}
                 </span>
                 <span>{tab.label}</span>
+                {!!tab.count && (
+                  <span className={`ml-auto text-[10px] font-semibold px-1.5 rounded-full ${isActive ? 'bg-white text-zinc-900' : 'bg-amber-100 text-amber-800'}`}>
+                    {tab.count}
+                  </span>
+                )}
               </button>
             );
           })}
         </div>
       </nav>
 
-      <div className="px-3 py-4 border-t border-zinc-100 bg-zinc-50 shrink-0">
+      <div className="px-3 py-4 border-t border-zinc-100 bg-zinc-50 shrink-0 space-y-2">
+        <button
+          type="button"
+          onClick={onOpenSettings}
+          className="w-full inline-flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium rounded-md border border-zinc-200 text-zinc-700 bg-white hover:bg-zinc-100 transition-colors"
+        >
+          <Settings className="w-3 h-3" />
+          Store Settings
+        </button>
         <ClearDataButton onCleared={onClearData} />
       </div>
     </aside>
@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Save, RotateCcw, Loader2, AlertTriangle, History } from 'lucide-react';
+import { Order, RebuttalTemplate, TemplateReason } from '../types';
+import {
+  TEMPLATE_REASONS,
+  TEMPLATE_VARIABLES,
+  DEFAULT_TEMPLATES,
+  latestTemplate,
+  templateBody,
+  templateReasonFor,
+  renderTemplate,
+  unknownPlaceholders
+} from '../services/templateService';
+
+interface TemplateEditorProps {
+  templates: RebuttalTemplate[];
+  // Used to preview the template against a real order
+  orders: Order[];
+  merchantName?: string;
+  onSave: (reason: TemplateReason, body: string) => Promise<void>;
+}
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, orders, merchantName, onSave }) => {
+  const [reason, setReason] = useState<TemplateReason>(TEMPLATE_REASONS[0].reason);
+  const [body, setBody] = useState(() => templateBody(templates, TEMPLATE_REASONS[0].reason));
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const saved = templateBody(templates, reason);
+  const current = latestTemplate(templates, reason);
+  const isDirty = body !== saved;
+
+  // Switching reason (or a fresh save) reloads the editor
+  useEffect(() => {
+    setBody(templateBody(templates, reason));
+  }, [reason, templates]);
+
+  const versions = useMemo(
+    () => templates.filter((t) => t.reason === reason).sort((a, b) => b.version - a.version),
+    [templates, reason]
+  );
+
+  const unknown = useMemo(() => unknownPlaceholders(body), [body]);
+
+  // Preview with an order disputed for this reason, falling back to any order
+  const sampleOrder = useMemo(
+    () => orders.find((o) => o.dispute && templateReasonFor(o.dispute.reason) === reason) || orders.find((o) => o.dispute) || orders[0],
+    [orders, reason]
+  );
+  const preview = useMemo(
+    () => (sampleOrder ? renderTemplate(body, { order: sampleOrder, merchantName }) : null),
+    [body, sampleOrder, merchantName]
+  );
+
+  const selectReason = (next: TemplateReason) => {
+    if (next === reason) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return;
+    setReason(next);
+    setShowHistory(false);
+  };
+
+  const insertVariable = (key: string) => {
+    const el = textarea.current;
+    const token = `{{${key}}}`;
+    if (!el) {
+      setBody((prev) => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = el;
+    setBody(body.slice(0, selectionStart) + token + body.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Load the built-in letter for this reason? It replaces the editor contents; save to keep it.')) return;
+    setBody(DEFAULT_TEMPLATES[reason]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(reason, body);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-none px-6 py-4 border-b border-zinc-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900">Rebuttal Templates</h2>
+          <p className="text-xs text-zinc-500 mt-1 max-w-2xl">
+            One letter per dispute reason. Placeholders such as <code className="font-mono">{'{{order.id}}'}</code> are filled in from the order,
+            its customer and dispute. Template letters need no AI; AI drafts use the template as their starting point.
+            Every save is kept as a new version.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button onClick={handleReset} className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700">
+            <RotateCcw className="w-3 h-3" /> Default
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            disabled={versions.length === 0}
+            className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 border border-zinc-300 rounded-md bg-white hover:bg-zinc-50 text-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <History className="w-3 h-3" /> Versions ({versions.length})
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !body.trim() || saving}
+            className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-md bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save version
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <nav className="w-56 shrink-0 border-r border-zinc-200 overflow-y-auto py-2">
+          {TEMPLATE_REASONS.map((t) => {
+            const latest = latestTemplate(templates, t.reason);
+            return (
+              <button
+                key={t.reason}
+                onClick={() => selectReason(t.reason)}
+                className={`w-full text-left px-4 py-2 text-xs flex items-center justify-between gap-2 ${reason === t.reason ? 'bg-zinc-100 text-zinc-900 font-medium' : 'text-zinc-600 hover:bg-zinc-50'}`}
+              >
+                <span>{t.label}</span>
+                <span className="text-[10px] text-zinc-400">{latest ? `v${latest.version}` : 'default'}</span>
+              </button>
+            );
+          })}
+        </nav>
+
+        <div className="flex-1 min-w-0 overflow-y-auto p-6 space-y-4">
+          <div className="text-[11px] text-zinc-500">
+            {current ? `Version ${current.version}, saved by ${current.created_by} on ${new Date(current.created_at).toLocaleString()}` : 'Using the built-in letter.'}
+            {isDirty && <span className="ml-2 text-amber-600 font-medium">Unsaved changes</span>}
+          </div>
+
+          {showHistory && (
+            <div className="border border-zinc-200 rounded-md divide-y divide-zinc-100 max-h-48 overflow-y-auto">
+              {versions.map((v) => (
+                <div key={v.id} className="flex items-center justify-between px-3 py-1.5 text-xs">
+                  <span className="text-zinc-700">v{v.version} · {v.created_by} · {new Date(v.created_at).toLocaleString()}</span>
+                  <button onClick={() => setBody(v.body)} className="text-[11px] px-2 py-0.5 rounded border border-zinc-200 hover:bg-zinc-50 text-zinc-700">
+                    Load into editor
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <textarea
+            ref={textarea}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={18}
+            spellCheck
+            className="w-full px-3 py-2 border border-zinc-300 rounded-md font-mono text-xs leading-relaxed focus:ring-2 focus:ring-zinc-900 outline-none"
+          />
+
+          {unknown.length > 0 && (
+            <div className="flex items-start gap-1.5 text-xs text-amber-700">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              Unknown placeholders will never be filled in: {unknown.map((u) => `{{${u}}}`).join(', ')}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-500 uppercase mb-2">Placeholders</h4>
+            <div className="flex flex-wrap gap-1.5">
+              {TEMPLATE_VARIABLES.map((v) => (
+                <button
+                  key={v.key}
+                  onClick={() => insertVariable(v.key)}
+                  title={v.label}
+                  className="px-2 py-0.5 text-[11px] font-mono rounded border border-zinc-200 bg-zinc-50 hover:bg-zinc-100 text-zinc-700"
+                >
+                  {`{{${v.key}}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-zinc-400 mt-1.5">Any other order field works too, e.g. <code className="font-mono">{'{{order.additional_data.Payment Method}}'}</code>.</p>
+          </div>
+
+          {preview && sampleOrder && (
+            <div>
+              <h4 className="text-xs font-semibold text-zinc-500 uppercase mb-2">Preview with order {sampleOrder.id}</h4>
+              {preview.missing.length > 0 && (
+                <p className="text-[11px] text-amber-700 mb-1.5">No value for this order: {preview.missing.join(', ')}</p>
+              )}
+              <div className="p-4 bg-zinc-50 border border-zinc-200 rounded-md text-xs font-mono whitespace-pre-wrap leading-relaxed">{preview.text}</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+// src/services/attachmentService.ts
+import { supabase } from '../lib/supabase';
+import { Order, EvidenceAttachment, EvidenceType } from '../types';
+import { EVIDENCE_BUCKET, evidencePath } from './evidenceStorage';
+
+/**
+ * EVIDENCE ATTACHMENTS:
+ * Receipts, tracking screenshots, chat logs and policies uploaded for an
+ * order's dispute. Files go to the 'evidence' bucket, one row per file in
+ * `evidence_attachments`; both are owned by the uploading user (see
+ * SUPABASE_EVIDENCE.sql). Letters and evidence packets read them from here.
+ */
+
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  proof_of_delivery: 'Proof of delivery',
+  customer_communication: 'Customer communication',
+  refund_policy: 'Refund policy',
+  avs_cvv: 'AVS / CVV result',
+  other: 'Other evidence',
+};
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Images, PDFs and text files; the browser leaves `type` empty for some text files
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  eml: 'text/plain',
+};
+
+export const ACCEPTED_ATTACHMENT_TYPES = Object.keys(EXTENSION_TYPES).map((ext) => `.${ext}`).join(',');
+
+export const attachmentMimeType = (file: File): string | null => {
+  if (file.type && (Object.values(EXTENSION_TYPES).includes(file.type) || file.type.startsWith('text/'))) return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[ext] || null;
+};
+
+/**
+ * Returns why a file can't be attached, or null when it can.
+ */
+export const validateAttachmentFile = (file: File): string | null => {
+  if (!attachmentMimeType(file)) return `${file.name}: only images, PDFs and text files can be attached.`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name}: files can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`;
+  if (file.size === 0) return `${file.name}: the file is empty.`;
+  return null;
+};
+
+export const uploadAttachment = async (order: Order, file: File, evidenceType: EvidenceType): Promise<EvidenceAttachment> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const problem = validateAttachmentFile(file);
+  if (problem) throw new Error(problem);
+  const mimeType = attachmentMimeType(file) as string;
+
+  // Timestamp prefix keeps two uploads of "receipt.png" apart
+  const path = evidencePath(user.id, order.id, 'attachments', `${Date.now()}-${file.name}`);
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, file, { contentType: mimeType });
+  if (uploadError) throw new Error(`Storage Error: ${uploadError.message}`);
+
+  const { data, error } = await supabase
+    .from('evidence_attachments')
+    .insert({
+      user_id: user.id,
+      order_id: order.id,
+      dispute_id: order.dispute?.id || null,
+      file_path: path,
+      file_name: file.name,
+      mime_type: mimeType,
+      size_bytes: file.size,
+      evidence_type: evidenceType,
+      created_by: user.email || user.id,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([path]);
+    throw new Error(`Database Error: ${error.message}`);
+  }
+  return data as EvidenceAttachment;
+};
+
+export const fetchAttachments = async (orderId: string): Promise<EvidenceAttachment[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('evidence_attachments')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching attachments:', error);
+    return [];
+  }
+
+  return data as EvidenceAttachment[];
+};
+
+export const updateAttachmentType = async (attachment: EvidenceAttachment, evidenceType: EvidenceType): Promise<EvidenceAttachment> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from('evidence_attachments')
+    .update({ evidence_type: evidenceType })
+    .eq('user_id', user.id)
+    .eq('id', attachment.id)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as EvidenceAttachment;
+};
+
+export const deleteAttachment = async (attachment: EvidenceAttachment): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('evidence_attachments')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('id', attachment.id);
+  if (error) throw new Error(`Database Error: ${error.message}`);
+
+  const { error: storageError } = await supabase.storage.from(EVIDENCE_BUCKET).remove([attachment.file_path]);
+  if (storageError) console.error('Attachment file was not removed:', storageError);
+};
+
+export const downloadAttachment = async (attachment: EvidenceAttachment): Promise<Uint8Array> => {
+  const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).download(attachment.file_path);
+  if (error || !data) throw new Error(`Storage Error: ${error?.message || `Could not read ${attachment.file_name}.`}`);
+  return new Uint8Array(await data.arrayBuffer());
+};
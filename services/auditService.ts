@@ -0,0 +1,159 @@
+// src/services/auditService.ts
+import { supabase } from '../lib/supabase';
+import { Order, AuditEntry, AuditSource } from '../types';
+
+/**
+ * AUDIT LOG:
+ * Every write to an order is recorded in `order_audit_log`, one row per
+ * changed field, with who made it and where it came from. The log is
+ * append-only: nothing here updates or deletes rows.
+ *
+ * FIELD PATHS:
+ * Nested objects are followed (customer.email, dispute.status,
+ * additional_data.Vendor); arrays such as tags or line items are compared
+ * and stored whole.
+ */
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  edit: 'Edited',
+  approve: 'Force approved',
+  revalidate: 'Revalidated',
+  import: 'Imported',
+  sync: 'Shopify sync',
+  rollback: 'Import rolled back',
+  escalation: 'Deadline escalation',
+  tracking: 'Tracking refresh',
+};
+
+// Path used when a whole order is created or deleted
+export const WHOLE_ORDER_PATH = '*';
+
+// Bookkeeping that changes on every write and says nothing about the order
+const IGNORED_PATHS = new Set(['import_batch_id']);
+
+const CHUNK_SIZE = 200;
+
+export interface FieldDiff {
+  path: string;
+  oldValue: any;
+  newValue: any;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const sameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const collectDiffs = (before: any, after: any, path: string, out: FieldDiff[]) => {
+  if (IGNORED_PATHS.has(path)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => collectDiffs(before[key], after[key], path ? `${path}.${key}` : key, out));
+    return;
+  }
+
+  if (!sameValue(before, after)) {
+    out.push({ path, oldValue: before ?? null, newValue: after ?? null });
+  }
+};
+
+/**
+ * Field-level differences between two versions of an order.
+ */
+export const diffOrderFields = (before: Order, after: Order): FieldDiff[] => {
+  const out: FieldDiff[] = [];
+  collectDiffs(before, after, '', out);
+  return out;
+};
+
+export interface OrderChange {
+  // Missing when the order is new
+  before?: Order | null;
+  // null when the order was deleted
+  after: Order | null;
+}
+
+/**
+ * Appends one row per changed field. Orders that did not change add nothing.
+ */
+export const recordOrderChanges = async (
+  changes: OrderChange[],
+  source: AuditSource,
+  batchId?: string
+): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const actor = user.email || user.id;
+  const createdAt = new Date().toISOString();
+
+  const rows = changes.flatMap(({ before, after }) => {
+    const orderId = (after || before)?.id;
+    if (!orderId) return [];
+
+    const diffs: FieldDiff[] = !before
+      ? [{ path: WHOLE_ORDER_PATH, oldValue: null, newValue: 'created' }]
+      : !after
+        ? [{ path: WHOLE_ORDER_PATH, oldValue: 'existed', newValue: 'deleted' }]
+        : diffOrderFields(before, after);
+
+    return diffs.map((diff) => ({
+      user_id: user.id,
+      order_id: orderId,
+      field_path: diff.path,
+      old_value: diff.oldValue,
+      new_value: diff.newValue,
+      actor,
+      source,
+      batch_id: batchId || null,
+      created_at: createdAt,
+    }));
+  });
+
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+    const { error } = await supabase.from('order_audit_log').insert(rows.slice(i, i + CHUNK_SIZE));
+    if (error) throw new Error(`Database Error: ${error.message}`);
+  }
+
+  return rows.length;
+};
+
+export interface AuditEvent {
+  key: string;
+  entries: AuditEntry[];
+}
+
+/**
+ * Rows written by the same action share a timestamp, source and actor, and
+ * are shown as one event. Expects the rows in log order.
+ */
+export const groupAuditEntries = (entries: AuditEntry[]): AuditEvent[] => {
+  const events: AuditEvent[] = [];
+  entries.forEach((entry) => {
+    const key = `${entry.created_at}|${entry.source}|${entry.actor}|${entry.batch_id || ''}`;
+    const last = events[events.length - 1];
+    if (last && last.key === key) last.entries.push(entry);
+    else events.push({ key, entries: [entry] });
+  });
+  return events;
+};
+
+export const fetchOrderAuditLog = async (orderId: string): Promise<AuditEntry[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('order_audit_log')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+
+  return data as AuditEntry[];
+};
@@ -0,0 +1,132 @@
+// src/services/backtestService.ts
+import { Order, RiskRule, DisputeStatus } from '../types';
+import { loadOrdersFromDb } from './storageService';
+import { getDisputeStatus } from './disputeService';
+import { ruleMatches } from './rulesService';
+import { reclassifyOrders } from './validationService';
+import { ClassificationConfig } from './classificationService';
+
+/**
+ * RULE BACKTEST:
+ * Runs every stored order through the same validation, rules and scoring as
+ * Validate Data, once with the saved rules and once with the candidate rule
+ * swapped in, and compares the results. Nothing is written back.
+ *
+ * Orders we already know ended badly (chargeback won or lost, or cancelled
+ * for fraud) are the ground truth: a good rule flags them and little else.
+ */
+
+export type KnownOutcome = 'lost' | 'won' | 'fraud_cancelled';
+
+export interface OutcomeCatch {
+  total: number;
+  caught: number;
+}
+
+export interface BacktestChange {
+  orderId: string;
+  before: { category?: string; riskCategory?: string; score?: number };
+  after: { category?: string; riskCategory?: string; score?: number };
+}
+
+export interface BacktestReport {
+  ordersScanned: number;
+  // Orders the candidate rule matches
+  flagged: number;
+  knownBad: number;
+  caught: number;
+  // caught / flagged and caught / knownBad; null when the denominator is zero
+  precision: number | null;
+  recall: number | null;
+  byOutcome: Record<KnownOutcome, OutcomeCatch>;
+  changes: BacktestChange[];
+}
+
+export const OUTCOME_LABELS: Record<KnownOutcome, string> = {
+  lost: 'Chargeback lost',
+  won: 'Chargeback won',
+  fraud_cancelled: 'Cancelled for fraud',
+};
+
+const knownOutcomes = (order: Order): KnownOutcome[] => {
+  const outcomes: KnownOutcome[] = [];
+  const status = getDisputeStatus(order);
+  const category = order.import_category === 'INVALID' ? order.original_category : order.import_category;
+  if (status === DisputeStatus.LOST || category === 'DISPUTE_LOST') outcomes.push('lost');
+  if (status === DisputeStatus.WON || category === 'DISPUTE_WON') outcomes.push('won');
+  if ((order.cancel_reason || '').toLowerCase() === 'fraud') outcomes.push('fraud_cancelled');
+  return outcomes;
+};
+
+const snapshot = (order: Order) => ({
+  category: order.import_category,
+  riskCategory: order.risk_category,
+  score: order.risk_score,
+});
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+/**
+ * Pure version of the backtest, for when the orders are already in memory.
+ */
+export const simulateRule = (candidate: RiskRule, orders: Order[], config: ClassificationConfig): BacktestReport => {
+  const trial = { ...candidate, enabled: true };
+  const exists = config.rules.some((rule) => rule.id === trial.id);
+  const trialRules = exists
+    ? config.rules.map((rule) => (rule.id === trial.id ? trial : rule))
+    : [...config.rules, trial];
+
+  const before = reclassifyOrders(orders, config);
+  const after = reclassifyOrders(orders, { ...config, rules: trialRules });
+
+  const byOutcome: Record<KnownOutcome, OutcomeCatch> = {
+    lost: { total: 0, caught: 0 },
+    won: { total: 0, caught: 0 },
+    fraud_cancelled: { total: 0, caught: 0 },
+  };
+  const changes: BacktestChange[] = [];
+  let flagged = 0;
+  let knownBad = 0;
+  let caught = 0;
+
+  after.forEach((order, i) => {
+    const original = orders[i];
+    const matched = order.import_category !== 'INVALID' && ruleMatches(order, trial);
+    const outcomes = knownOutcomes(original);
+
+    if (matched) flagged++;
+    if (outcomes.length > 0) {
+      knownBad++;
+      if (matched) caught++;
+    }
+    outcomes.forEach((outcome) => {
+      byOutcome[outcome].total++;
+      if (matched) byOutcome[outcome].caught++;
+    });
+
+    const prev = before[i];
+    if (
+      prev.import_category !== order.import_category ||
+      prev.risk_category !== order.risk_category ||
+      prev.risk_score !== order.risk_score
+    ) {
+      changes.push({ orderId: order.id, before: snapshot(prev), after: snapshot(order) });
+    }
+  });
+
+  return {
+    ordersScanned: orders.length,
+    flagged,
+    knownBad,
+    caught,
+    precision: ratio(caught, flagged),
+    recall: ratio(caught, knownBad),
+    byOutcome,
+    changes,
+  };
+};
+
+export const backtestRule = async (candidate: RiskRule, config: ClassificationConfig): Promise<BacktestReport> => {
+  const orders = await loadOrdersFromDb();
+  return simulateRule(candidate, orders, config);
+};
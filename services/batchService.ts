@@ -0,0 +1,280 @@
+// src/services/batchService.ts
+import { supabase } from '../lib/supabase';
+import { Order, ImportBatch, ImportBatchSource, ImportCategory, AuditSource } from '../types';
+import { saveOrdersToDb, loadOrdersByIds } from './storageService';
+import { recordOrderChanges } from './auditService';
+
+/**
+ * IMPORT BATCHES:
+ * Every CSV import, Shopify sync and dispute export import is recorded in
+ * `import_batches`. For each order it writes, `import_batch_orders` keeps the
+ * order as it was before (null when the batch created it) and as written.
+ *
+ * ROLLBACK:
+ * Puts each order of a batch back to its prior state and deletes the orders
+ * the batch created. Orders a later batch has written since are skipped, so
+ * rolling back one batch never undoes another. So are orders changed outside
+ * any import since (edits, approvals, revalidation, escalations, tracking
+ * refreshes, per the audit log) and created orders that have a rebuttal:
+ * rolling back would silently throw that work away.
+ */
+
+export interface BatchMeta {
+  source: ImportBatchSource;
+  fileName: string;
+  category?: ImportCategory | null;
+}
+
+export interface RollbackResult {
+  restored: number;
+  removed: number;
+  // Order IDs left alone because a later batch changed them
+  skipped: string[];
+  // Order IDs left alone because they were worked on outside an import
+  changed: string[];
+}
+
+export const BATCH_SOURCE_LABELS: Record<ImportBatchSource, string> = {
+  csv: 'CSV import',
+  shopify_sync: 'Shopify sync',
+  dispute_export: 'Dispute export',
+};
+
+const AUDIT_SOURCES: Record<ImportBatchSource, AuditSource> = {
+  csv: 'import',
+  shopify_sync: 'sync',
+  dispute_export: 'import',
+};
+
+// Keeps insert payloads and `in (...)` filters to a sensible size
+const CHUNK_SIZE = 200;
+
+const chunk = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) chunks.push(items.slice(i, i + CHUNK_SIZE));
+  return chunks;
+};
+
+export const startImportBatch = async (meta: BatchMeta): Promise<ImportBatch> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: user.id,
+      source: meta.source,
+      file_name: meta.fileName,
+      category: meta.category || null,
+      row_count: 0,
+      order_count: 0,
+      created_by: user.email || user.id,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as ImportBatch;
+};
+
+/**
+ * Saves orders as part of a batch and snapshots their prior state.
+ * `previous` holds the stored copies (missing = the batch creates the order).
+ * Returns the orders as saved.
+ */
+export const writeBatchOrders = async (
+  batch: ImportBatch,
+  orders: Order[],
+  previous: Map<string, Order>
+): Promise<Order[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+  if (orders.length === 0) return [];
+
+  const stamped = orders.map((order) => ({ ...order, import_batch_id: batch.id }));
+  await saveOrdersToDb(stamped);
+
+  for (const part of chunk(stamped)) {
+    const { error } = await supabase
+      .from('import_batch_orders')
+      .upsert(
+        part.map((order) => ({
+          user_id: user.id,
+          batch_id: batch.id,
+          order_id: order.id,
+          before: previous.get(order.id) || null,
+          after: order,
+        })),
+        // A sync can write the same order twice (page, then dispute patch); keep the first "before"
+        { onConflict: 'batch_id,order_id', ignoreDuplicates: true }
+      );
+    if (error) throw new Error(`Database Error: ${error.message}`);
+  }
+
+  await recordOrderChanges(
+    stamped.map((order) => ({ before: previous.get(order.id), after: order })),
+    AUDIT_SOURCES[batch.source],
+    batch.id
+  );
+
+  return stamped;
+};
+
+/**
+ * Records the final counts. A batch that wrote nothing is deleted.
+ */
+export const finishImportBatch = async (batch: ImportBatch, rowCount: number, orderCount: number): Promise<ImportBatch | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  if (orderCount === 0) {
+    await supabase.from('import_batches').delete().eq('user_id', user.id).eq('id', batch.id);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('import_batches')
+    .update({ row_count: rowCount, order_count: orderCount })
+    .eq('user_id', user.id)
+    .eq('id', batch.id)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as ImportBatch;
+};
+
+/**
+ * Runs a whole import as one batch. If saving fails partway the batch row is
+ * kept, so whatever was written can still be rolled back.
+ */
+export const commitImportBatch = async (
+  meta: BatchMeta,
+  orders: Order[],
+  previous: Map<string, Order>,
+  rowCount: number
+): Promise<{ batch: ImportBatch | null; orders: Order[] }> => {
+  const batch = await startImportBatch(meta);
+  const saved = await writeBatchOrders(batch, orders, previous);
+  return { batch: await finishImportBatch(batch, rowCount, saved.length), orders: saved };
+};
+
+export const fetchImportBatches = async (): Promise<ImportBatch[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching import batches:', error);
+    return [];
+  }
+
+  return data as ImportBatch[];
+};
+
+export const rollbackImportBatch = async (batch: ImportBatch): Promise<RollbackResult> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+  if (batch.rolled_back_at) throw new Error('This batch has already been rolled back.');
+
+  const { data: snapshots, error: snapshotError } = await supabase
+    .from('import_batch_orders')
+    .select('order_id, before')
+    .eq('user_id', user.id)
+    .eq('batch_id', batch.id);
+
+  if (snapshotError) throw new Error(`Database Error: ${snapshotError.message}`);
+  const rows = (snapshots || []) as Array<{ order_id: string; before: Order | null }>;
+
+  // Orders written again by a batch that ran later and is still in effect
+  const { data: laterBatches, error: laterError } = await supabase
+    .from('import_batches')
+    .select('id')
+    .eq('user_id', user.id)
+    .gt('created_at', batch.created_at)
+    .is('rolled_back_at', null);
+
+  if (laterError) throw new Error(`Database Error: ${laterError.message}`);
+  const laterIds = (laterBatches || []).map((b: any) => b.id as string);
+
+  const touchedLater = new Set<string>();
+  if (laterIds.length > 0) {
+    for (const ids of chunk(rows.map((r) => r.order_id))) {
+      const { data, error } = await supabase
+        .from('import_batch_orders')
+        .select('order_id')
+        .eq('user_id', user.id)
+        .in('batch_id', laterIds)
+        .in('order_id', ids);
+      if (error) throw new Error(`Database Error: ${error.message}`);
+      (data || []).forEach((r: any) => touchedLater.add(r.order_id));
+    }
+  }
+
+  // Changes made since outside any batch, and rebuttals started on orders the batch created
+  const changedSince = new Set<string>();
+  const candidates = rows.filter((r) => !touchedLater.has(r.order_id));
+  for (const ids of chunk(candidates.map((r) => r.order_id))) {
+    const { data, error } = await supabase
+      .from('order_audit_log')
+      .select('order_id')
+      .eq('user_id', user.id)
+      .is('batch_id', null)
+      .gt('created_at', batch.created_at)
+      .in('order_id', ids);
+    if (error) throw new Error(`Database Error: ${error.message}`);
+    (data || []).forEach((r: any) => changedSince.add(r.order_id));
+  }
+  for (const ids of chunk(candidates.filter((r) => !r.before).map((r) => r.order_id))) {
+    const { data, error } = await supabase
+      .from('disputes')
+      .select('order_id')
+      .eq('user_id', user.id)
+      .in('order_id', ids);
+    if (error) throw new Error(`Database Error: ${error.message}`);
+    (data || []).forEach((r: any) => changedSince.add(r.order_id));
+  }
+
+  const kept = candidates.filter((r) => !changedSince.has(r.order_id));
+  const toRestore = kept.filter((r) => r.before).map((r) => r.before as Order);
+  const toRemove = kept.filter((r) => !r.before).map((r) => r.order_id);
+
+  // Current copies, so the audit log shows what the rollback undid
+  const current = new Map((await loadOrdersByIds([...toRestore.map((o) => o.id), ...toRemove])).map((o) => [o.id, o]));
+
+  await saveOrdersToDb(toRestore);
+  for (const ids of chunk(toRemove)) {
+    const { error } = await supabase.from('orders').delete().eq('user_id', user.id).in('id', ids);
+    if (error) throw new Error(`Database Error: ${error.message}`);
+  }
+
+  await recordOrderChanges(
+    [
+      ...toRestore.map((order) => ({ before: current.get(order.id), after: order })),
+      ...toRemove.filter((id) => current.has(id)).map((id) => ({ before: current.get(id), after: null })),
+    ],
+    'rollback',
+    batch.id
+  );
+
+  const { error: markError } = await supabase
+    .from('import_batches')
+    .update({ rolled_back_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('id', batch.id);
+
+  if (markError) throw new Error(`Database Error: ${markError.message}`);
+
+  return {
+    restored: toRestore.length,
+    removed: toRemove.length,
+    skipped: Array.from(touchedLater),
+    changed: Array.from(changedSince),
+  };
+};
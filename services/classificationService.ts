@@ -0,0 +1,48 @@
+// src/services/classificationService.ts
+import { Order, RiskRule, ListEntry } from '../types';
+import { applyRiskScores, DEFAULT_SIGNALS, RiskThresholds, DEFAULT_RISK_THRESHOLDS } from './riskService';
+import { applyRules, ruleSignals, DEFAULT_RULES } from './rulesService';
+import { applyCustomerLinks } from './customerService';
+import { blocklistSignals, applyAllowlist } from './listService';
+
+/**
+ * CLASSIFICATION:
+ * The single path every order takes before it is saved, whether it came from
+ * a CSV import, a Shopify sync or a revalidation: customer linking first (so
+ * rules and signals see real order counts and chargeback history), then user
+ * rules (tags and category), then risk scoring with the rule and blocklist
+ * signals added, and finally the allowlist.
+ */
+
+export interface ClassificationConfig {
+  rules: RiskRule[];
+  riskThresholds: RiskThresholds;
+  listEntries: ListEntry[];
+}
+
+export const DEFAULT_CLASSIFICATION: ClassificationConfig = {
+  rules: DEFAULT_RULES,
+  riskThresholds: DEFAULT_RISK_THRESHOLDS,
+  listEntries: [],
+};
+
+/**
+ * `contextOrders` is every order the store already has; the batch itself is
+ * added on top, so stored copies are replaced by the reclassified ones. A
+ * caller may pass only the orders linked to the batch (see
+ * createCustomerIndex) together with the store-wide `storeMedian`.
+ */
+export const classifyOrders = (
+  orders: Order[],
+  config: ClassificationConfig = DEFAULT_CLASSIFICATION,
+  contextOrders: Order[] = [],
+  storeMedian?: number
+): Order[] => {
+  const linked = applyCustomerLinks(orders, contextOrders);
+  const ruled = linked.map((order) => applyRules(order, config.rules));
+  // Link again: rules may have just opened disputes that count as chargebacks
+  const relinked = applyCustomerLinks(ruled, contextOrders);
+  const signals = [...DEFAULT_SIGNALS, ...ruleSignals(config.rules), ...blocklistSignals(config.listEntries)];
+  const scored = applyRiskScores(relinked, config.riskThresholds, [...contextOrders, ...relinked], signals, storeMedian);
+  return applyAllowlist(scored, config.listEntries);
+};
@@ -0,0 +1,183 @@
+// src/services/csvColumns.ts
+import { CsvField, ColumnMapping } from '../types';
+
+/**
+ * CSV COLUMNS:
+ * The order fields an import can read and the header names we recognize for
+ * each (Shopify exports in other admin languages, Stripe payment exports,
+ * hand-made spreadsheets). Headers are compared after normalizing case,
+ * accents and punctuation, so "Créé le" and "cree le" are the same header.
+ * Pure module: used by the CSV worker as well as the import dialog.
+ */
+
+export interface CsvFieldDefinition {
+  field: CsvField;
+  label: string;
+  // The Shopify export header. Mapped values are also stored under this name
+  // in additional_data, where rules, lists and customer linking look for them.
+  header: string;
+  // Without these every row would be quarantined as invalid
+  required: boolean;
+  // Best match first
+  synonyms: string[];
+}
+
+export const CSV_FIELDS: CsvFieldDefinition[] = [
+  {
+    field: 'orderId', label: 'Order number', header: 'Name', required: true,
+    synonyms: ['name', 'order', 'order name', 'order number', 'order id', 'order no', 'bestellung', 'bestellnummer', 'commande', 'numero de commande', 'pedido', 'numero de pedido', 'ordine', 'id'],
+  },
+  {
+    field: 'createdAt', label: 'Order date', header: 'Created at', required: true,
+    synonyms: ['created at', 'created utc', 'created', 'created date', 'order date', 'date', 'erstellt am', 'datum', 'cree le', 'date de creation', 'creado', 'fecha', 'data'],
+  },
+  {
+    field: 'email', label: 'Customer email', header: 'Email', required: true,
+    synonyms: ['email', 'customer email', 'email address', 'e mail', 'e mail adresse', 'courriel', 'adresse e mail', 'correo electronico', 'correo'],
+  },
+  {
+    field: 'financialStatus', label: 'Payment status', header: 'Financial Status', required: false,
+    synonyms: ['financial status', 'payment status', 'zahlungsstatus', 'statut financier', 'statut du paiement', 'estado financiero', 'estado del pago', 'status'],
+  },
+  {
+    field: 'fulfillmentStatus', label: 'Fulfillment status', header: 'Fulfillment Status', required: false,
+    synonyms: ['fulfillment status', 'shipping status', 'versandstatus', 'statut du traitement', 'statut de traitement', 'estado de preparacion', 'estado de cumplimiento'],
+  },
+  {
+    field: 'total', label: 'Order total', header: 'Total', required: false,
+    synonyms: ['total', 'order total', 'amount', 'gesamt', 'gesamtbetrag', 'summe', 'montant total', 'montant', 'importe total', 'importe', 'totale'],
+  },
+  {
+    field: 'currency', label: 'Currency', header: 'Currency', required: false,
+    synonyms: ['currency', 'wahrung', 'devise', 'moneda', 'valuta'],
+  },
+  {
+    field: 'tags', label: 'Tags', header: 'Tags', required: false,
+    synonyms: ['tags', 'labels', 'schlagworter', 'etiquettes', 'etiquetas'],
+  },
+  {
+    field: 'riskLevel', label: 'Risk level', header: 'Risk Level', required: false,
+    synonyms: ['risk level', 'risikostufe', 'niveau de risque', 'nivel de riesgo', 'risk'],
+  },
+  {
+    field: 'customerName', label: 'Customer name', header: 'Shipping Name', required: false,
+    synonyms: ['shipping name', 'customer name', 'billing name', 'card name', 'lieferung name', 'nom de livraison', 'nombre de envio', 'customer'],
+  },
+  {
+    field: 'phone', label: 'Phone', header: 'Phone', required: false,
+    synonyms: ['phone', 'phone number', 'shipping phone', 'telefon', 'telephone', 'telefono'],
+  },
+  {
+    field: 'shippingAddress1', label: 'Shipping street', header: 'Shipping Address1', required: false,
+    synonyms: ['shipping address1', 'shipping street', 'shipping address', 'lieferung adresse1', 'lieferadresse', 'adresse de livraison', 'direccion de envio', 'address'],
+  },
+  {
+    field: 'shippingCity', label: 'Shipping city', header: 'Shipping City', required: false,
+    synonyms: ['shipping city', 'lieferung stadt', 'ville de livraison', 'ciudad de envio', 'city', 'stadt', 'ville', 'ciudad'],
+  },
+  {
+    field: 'shippingZip', label: 'Shipping postal code', header: 'Shipping Zip', required: false,
+    synonyms: ['shipping zip', 'shipping postal code', 'lieferung plz', 'code postal de livraison', 'zip', 'postal code', 'postcode', 'plz', 'postleitzahl', 'code postal', 'codigo postal'],
+  },
+  {
+    field: 'shippingProvince', label: 'Shipping province', header: 'Shipping Province', required: false,
+    synonyms: ['shipping province', 'lieferung bundesland', 'province', 'state', 'region', 'bundesland'],
+  },
+  {
+    field: 'shippingCountry', label: 'Shipping country', header: 'Shipping Country', required: false,
+    synonyms: ['shipping country', 'lieferland', 'lieferung land', 'pays de livraison', 'pais de envio', 'country', 'land', 'pays', 'pais'],
+  },
+  {
+    field: 'billingCountry', label: 'Billing country', header: 'Billing Country', required: false,
+    synonyms: ['billing country', 'card issue country', 'card country', 'rechnungsland', 'rechnung land', 'pays de facturation', 'pais de facturacion'],
+  },
+  {
+    field: 'shippingMethod', label: 'Shipping method', header: 'Shipping Method', required: false,
+    synonyms: ['shipping method', 'versandart', 'versandmethode', 'mode de livraison', 'methode d expedition', 'metodo de envio'],
+  },
+  {
+    field: 'lineItemQuantity', label: 'Line item quantity', header: 'Lineitem quantity', required: false,
+    synonyms: ['lineitem quantity', 'line item quantity', 'quantity', 'qty', 'artikel menge', 'menge', 'anzahl', 'quantite', 'cantidad'],
+  },
+  {
+    field: 'lineItemName', label: 'Line item name', header: 'Lineitem name', required: false,
+    synonyms: ['lineitem name', 'line item name', 'product', 'product name', 'item', 'artikelname', 'artikel', 'produkt', 'nom de l article', 'produit', 'producto', 'articulo'],
+  },
+  {
+    field: 'lineItemPrice', label: 'Line item price', header: 'Lineitem price', required: false,
+    synonyms: ['lineitem price', 'line item price', 'unit price', 'price', 'artikelpreis', 'preis', 'prix de l article', 'prix', 'precio del articulo', 'precio'],
+  },
+  {
+    field: 'lineItemSku', label: 'Line item SKU', header: 'Lineitem sku', required: false,
+    synonyms: ['lineitem sku', 'line item sku', 'sku', 'artikelnummer', 'reference', 'referencia'],
+  },
+  {
+    field: 'cancelledAt', label: 'Cancelled at', header: 'Cancelled at', required: false,
+    synonyms: ['cancelled at', 'canceled at', 'storniert am', 'annule le', 'cancelado el', 'cancelado'],
+  },
+];
+
+/**
+ * "Créé le (UTC)" -> "cree le utc"
+ */
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Identifies a file layout regardless of column order.
+ */
+export const headerSignature = (headers: string[]): string =>
+  Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort().join('|');
+
+/**
+ * The mapping a standard Shopify export gets: every field on its own header.
+ */
+export const SHOPIFY_MAPPING: ColumnMapping = Object.fromEntries(CSV_FIELDS.map((def) => [def.field, def.header]));
+
+/**
+ * Guesses a header for each field. Synonyms are tried rank by rank across
+ * all fields, so "Shipping Country" goes to the shipping country before the
+ * plain "country" synonym of any other field can take it. A header is used
+ * for at most one field.
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const available = new Map<string, string>();
+  headers.forEach((header) => {
+    const key = normalizeHeader(header);
+    if (key && !available.has(key)) available.set(key, header);
+  });
+
+  const maxRank = Math.max(...CSV_FIELDS.map((def) => def.synonyms.length));
+  for (let rank = 0; rank < maxRank; rank++) {
+    for (const def of CSV_FIELDS) {
+      const synonym = def.synonyms[rank];
+      if (mapping[def.field] || !synonym) continue;
+      const header = available.get(synonym);
+      if (header === undefined) continue;
+      mapping[def.field] = header;
+      available.delete(synonym);
+    }
+  }
+
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): CsvFieldDefinition[] =>
+  CSV_FIELDS.filter((def) => def.required && !mapping[def.field]);
+
+/**
+ * Drops mapped headers the file does not have, e.g. when a saved profile is
+ * applied to a file that lost a column.
+ */
+export const restrictMapping = (mapping: ColumnMapping, headers: string[]): ColumnMapping => {
+  const present = new Set(headers);
+  return Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header && present.has(header))
+  ) as ColumnMapping;
+};
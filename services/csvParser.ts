@@ -0,0 +1,238 @@
+// src/services/csvParser.ts
+
+/**
+ * STREAMING CSV PARSER (RFC 4180):
+ * Text is pushed in chunks of any size and complete rows come out through
+ * `onRow`, so a file never has to be held in memory as one string. Handles:
+ * - quoted fields with embedded delimiters, newlines and doubled quotes ("")
+ * - LF, CRLF and bare CR line endings, even when split across chunks
+ * - a leading byte order mark
+ * - comma, semicolon, tab or pipe delimiters (detected from the header row
+ *   unless one is given)
+ * Blank lines are skipped. Nothing here touches the DOM or Supabase, so it
+ * runs inside a Web Worker.
+ */
+
+export interface CsvParserOptions {
+  // Leave unset to detect from the first row
+  delimiter?: string;
+  onRow: (row: string[], rowNumber: number) => void;
+}
+
+export interface CsvParser {
+  push: (chunk: string) => void;
+  end: () => void;
+  getDelimiter: () => string | null;
+}
+
+export const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// 1 MB per read keeps memory flat without too many round trips
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Picks the candidate that appears most often outside quotes in the line.
+ */
+export const detectDelimiter = (line: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  let best = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+};
+
+/**
+ * Returns the text of the first record (up to its line break outside quotes),
+ * or null when the buffer does not contain a full record yet.
+ */
+const firstRecord = (text: string): string | null => {
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) return text.slice(0, i);
+  }
+  return null;
+};
+
+export const createCsvParser = (options: CsvParserOptions): CsvParser => {
+  let delimiter: string | null = options.delimiter || null;
+  let pending = '';
+  let isFirstChunk = true;
+
+  let field = '';
+  let row: string[] = [];
+  let rowNumber = 0;
+  let inQuotes = false;
+  // Saw a quote inside a quoted field; the next char decides if it was escaped
+  let quotePending = false;
+  let atFieldStart = true;
+  // Last char was CR, so an immediately following LF belongs to the same break
+  let skipLineFeed = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    atFieldStart = true;
+  };
+
+  const endRow = () => {
+    endField();
+    const isBlank = row.length === 1 && row[0] === '';
+    if (!isBlank) {
+      rowNumber++;
+      options.onRow(row, rowNumber);
+    }
+    row = [];
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          // Closing quote; handle this char as unquoted below
+          inQuotes = false;
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && atFieldStart) {
+        inQuotes = true;
+        atFieldStart = false;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r') {
+        endRow();
+        skipLineFeed = true;
+      } else if (char === '\n') {
+        endRow();
+      } else {
+        field += char;
+        atFieldStart = false;
+      }
+    }
+  };
+
+  const push = (chunk: string) => {
+    let text = chunk;
+    if (isFirstChunk) {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    if (delimiter) {
+      consume(text);
+      return;
+    }
+
+    // Hold text back until the header row is complete, then detect
+    pending += text;
+    const header = firstRecord(pending);
+    if (header === null) return;
+    delimiter = detectDelimiter(header);
+    const buffered = pending;
+    pending = '';
+    consume(buffered);
+  };
+
+  const end = () => {
+    if (!delimiter) {
+      delimiter = detectDelimiter(pending);
+      const buffered = pending;
+      pending = '';
+      consume(buffered);
+    }
+    // An unterminated quote keeps whatever was read as the field's value
+    inQuotes = false;
+    quotePending = false;
+    if (field !== '' || row.length > 0) endRow();
+  };
+
+  return { push, end, getDelimiter: () => delimiter };
+};
+
+/**
+ * Parses a whole string at once. Convenient for small inputs and pastes.
+ */
+export const parseCsvText = (text: string, delimiter?: string): string[][] => {
+  const rows: string[][] = [];
+  const parser = createCsvParser({ delimiter, onRow: (row) => rows.push(row) });
+  parser.push(text);
+  parser.end();
+  return rows;
+};
+
+/**
+ * Reads a file (or any Blob) in slices and hands the decoded text to `onText`.
+ * Multi-byte characters split across slices are decoded correctly.
+ */
+export const streamBlobText = async (
+  blob: Blob,
+  onText: (text: string, bytesRead: number) => void,
+  chunkSize: number = CHUNK_SIZE
+): Promise<void> => {
+  const decoder = new TextDecoder('utf-8');
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const end = Math.min(offset + chunkSize, blob.size);
+    const buffer = await blob.slice(offset, end).arrayBuffer();
+    const text = decoder.decode(buffer, { stream: end < blob.size });
+    onText(text, end);
+  }
+  const tail = decoder.decode();
+  if (tail) onText(tail, blob.size);
+};
+
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+// Enough for the header and a handful of rows in any realistic export
+const PREVIEW_BYTES = 256 * 1024;
+
+/**
+ * Reads the header and first rows of a file without reading the rest.
+ */
+export const readCsvPreview = async (blob: Blob, maxRows: number = 5): Promise<CsvPreview> => {
+  const isPartial = blob.size > PREVIEW_BYTES;
+  const text = await blob.slice(0, PREVIEW_BYTES).text();
+
+  const rows: string[][] = [];
+  const parser = createCsvParser({ onRow: (row) => rows.push(row) });
+  parser.push(text);
+  parser.end();
+
+  // The last row of a partial read may be cut off mid-record
+  if (isPartial && rows.length > 1) rows.pop();
+
+  const [headers = [], ...dataRows] = rows;
+  return {
+    headers: headers.map((h) => h.trim()),
+    rows: dataRows.slice(0, maxRows),
+    delimiter: parser.getDelimiter() || ',',
+  };
+};
@@ -0,0 +1,225 @@
+// src/services/csvRowCollector.ts
+import { ImportCategory, ColumnMapping, CsvField, LineItem } from '../types';
+import { createCsvParser, streamBlobText } from './csvParser';
+import { CSV_FIELDS, SHOPIFY_MAPPING } from './csvColumns';
+
+/**
+ * SHOPIFY CSV ROWS:
+ * Turns parsed rows of a Shopify order export into one plain record per order
+ * (exports repeat the order on every line item row). Kept free of Supabase and
+ * DOM imports so the same code runs in the CSV worker and on the main thread;
+ * csvService turns the records into Orders.
+ *
+ * Which header feeds which field comes from a column mapping (see
+ * csvColumns); without one the standard Shopify headers are used.
+ */
+
+export interface CsvOrderRecord {
+  id: string;
+  date: string;
+  email: string;
+  financial: string;
+  fulfillment: string;
+  total: number;
+  currency: string;
+  tags: string[];
+  nativeRiskLevel: string;
+  billingCountry: string;
+  shippingCountry: string;
+  customerName: string;
+  location: string;
+  shippingMethod: string;
+  itemsCount: number;
+  lineItems: LineItem[];
+  isCancelled: boolean;
+  additional_data: Record<string, string>;
+  isInvalid: boolean;
+  importError: string;
+}
+
+export interface CsvImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export interface ShopifyRowCollector {
+  addRow: (row: string[], rowNumber: number) => void;
+  finish: () => CsvOrderRecord[];
+}
+
+// Validation Helpers
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+const isValidDate = (dateStr: string) => !isNaN(Date.parse(dateStr));
+const hasNumbers = (str: string) => /\d/.test(str);
+
+// Accepts "1,234.56", "1.234,56" and "12,50" as well as plain numbers.
+// A lone comma followed by three digits ("1,234") is a thousands separator.
+export const parseAmount = (raw: string): number => {
+  const clean = raw.replace(/[^\d.,-]/g, '');
+  const lastComma = clean.lastIndexOf(',');
+  const lastDot = clean.lastIndexOf('.');
+  const decimalComma = lastComma > lastDot && (lastDot !== -1 || clean.length - lastComma - 1 !== 3);
+  const normalized = decimalComma
+    ? clean.replace(/\./g, '').replace(',', '.')
+    : clean.replace(/,/g, '');
+  return parseFloat(normalized || '0') || 0;
+};
+
+const resolveColumns = (rawHeaders: string[], mapping: ColumnMapping): Record<CsvField, number> => {
+  const headers = rawHeaders.map(h => h.trim().toLowerCase());
+  const getIndex = (name?: string) => (name ? headers.indexOf(name.trim().toLowerCase()) : -1);
+
+  return Object.fromEntries(
+    CSV_FIELDS.map((def) => [def.field, getIndex(mapping[def.field])])
+  ) as Record<CsvField, number>;
+};
+
+/**
+ * The first row passed in is the header row.
+ */
+export const createShopifyRowCollector = (
+  category: ImportCategory = 'AUTO',
+  mapping: ColumnMapping = SHOPIFY_MAPPING
+): ShopifyRowCollector => {
+  let rawHeaders: string[] | null = null;
+  let idx: ReturnType<typeof resolveColumns> | null = null;
+  const orderMap = new Map<string, CsvOrderRecord>();
+
+  const addRow = (row: string[], rowNumber: number) => {
+    if (!rawHeaders || !idx) {
+      rawHeaders = row.map(h => h.trim());
+      idx = resolveColumns(rawHeaders, mapping);
+      if (idx.orderId === -1) throw new Error(`Invalid CSV: Missing '${mapping.orderId || 'Name'}' column.`);
+      return;
+    }
+
+    const columns = idx;
+    const val = (index: number) => (row[index] ? row[index].trim() : '');
+
+    // --- STRICT VALIDATION LOGIC ---
+    const rawId = val(columns.orderId);
+    const rawDate = val(columns.createdAt);
+    const rawEmail = val(columns.email);
+    const rawTags = val(columns.tags);
+
+    const errorReasons: string[] = [];
+
+    // 1. ID Check
+    if (!rawId || !hasNumbers(rawId)) {
+        errorReasons.push("Invalid Order #");
+    }
+
+    // 2. Date Check
+    if (!rawDate || !isValidDate(rawDate)) {
+        errorReasons.push("Invalid Date");
+    }
+
+    // 3. Email Check
+    if (!rawEmail || !isValidEmail(rawEmail)) {
+        errorReasons.push("Invalid Email");
+    }
+
+    // 4. Tag Check
+    // FIX: If user manually selected a category (NOT Auto), we allow missing tags
+    // because we will inject our own tag later.
+    if (category === 'AUTO' && (!rawTags || rawTags.trim().length === 0)) {
+        errorReasons.push("Missing Tags");
+    }
+
+    const isRowInvalid = errorReasons.length > 0;
+    const mapId = rawId || `BAD-ROW-${rowNumber - 1}`;
+
+    if (!orderMap.has(mapId)) {
+      const extraData: Record<string, string> = {};
+      rawHeaders.forEach((header, index) => {
+          extraData[header] = val(index);
+      });
+      // Renamed columns are also kept under their Shopify name
+      CSV_FIELDS.forEach((def) => {
+          const index = columns[def.field];
+          if (index !== -1 && !(def.header in extraData)) extraData[def.header] = val(index);
+      });
+
+      const tagsList = rawTags ? rawTags.split(',').map(t => t.trim().replace(/^"|"$/g, '')).filter(t => t) : [];
+
+      let location = 'Unknown';
+      const city = val(columns.shippingCity);
+      const country = val(columns.shippingCountry);
+      if (city || country) location = [city, country].filter(Boolean).join(', ');
+
+      orderMap.set(mapId, {
+        id: mapId,
+        date: rawDate || 'N/A',
+        email: rawEmail || 'N/A',
+        financial: val(columns.financialStatus),
+        fulfillment: val(columns.fulfillmentStatus),
+        total: parseAmount(val(columns.total)),
+        currency: val(columns.currency) || 'USD',
+        tags: tagsList,
+        nativeRiskLevel: val(columns.riskLevel).toLowerCase(),
+        billingCountry: val(columns.billingCountry),
+        shippingCountry: country,
+        customerName: val(columns.customerName) || 'Unknown',
+        location: location,
+        shippingMethod: val(columns.shippingMethod),
+        itemsCount: 0,
+        lineItems: [],
+        isCancelled: !!val(columns.cancelledAt),
+        additional_data: extraData,
+        isInvalid: isRowInvalid,
+        importError: errorReasons.join(', ')
+      });
+    }
+
+    const order = orderMap.get(mapId)!;
+    const qty = parseInt(val(columns.lineItemQuantity) || '0');
+    order.itemsCount += qty > 0 ? qty : 0;
+
+    const itemName = val(columns.lineItemName);
+    if (itemName) {
+      const price = val(columns.lineItemPrice);
+      order.lineItems.push({
+        title: itemName,
+        quantity: qty > 0 ? qty : 1,
+        price: price ? parseAmount(price) : undefined,
+        sku: val(columns.lineItemSku) || undefined,
+      });
+    }
+  };
+
+  const finish = () => {
+    if (!rawHeaders || orderMap.size === 0) throw new Error("CSV file is empty or invalid.");
+    return Array.from(orderMap.values());
+  };
+
+  return { addRow, finish };
+};
+
+/**
+ * Streams a Shopify export through the parser and collector, reporting
+ * progress after every chunk.
+ */
+export const collectShopifyCsv = async (
+  file: Blob,
+  category: ImportCategory,
+  onProgress?: (progress: CsvImportProgress) => void,
+  mapping?: ColumnMapping
+): Promise<CsvOrderRecord[]> => {
+  const collector = createShopifyRowCollector(category, mapping);
+  let rows = 0;
+  const parser = createCsvParser({
+    onRow: (row, rowNumber) => {
+      rows = rowNumber;
+      collector.addRow(row, rowNumber);
+    },
+  });
+
+  await streamBlobText(file, (text, bytesRead) => {
+    parser.push(text);
+    onProgress?.({ bytesRead, totalBytes: file.size, rows });
+  });
+  parser.end();
+
+  return collector.finish();
+};
@@ -1,29 +1,8 @@
-import { Order, PaymentStatus, FulfillmentStatus, DeliveryStatus, DisputeStatus, ImportCategory } from '../types';
-
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-  return result;
-};
+import { Order, PaymentStatus, FulfillmentStatus, DeliveryStatus, DisputeStatus, ImportCategory, ColumnMapping } from '../types';
+import { transitionDispute } from './disputeService';
+import { shipmentsFromColumns, applyShipments } from './trackingService';
+import { parseCsvText } from './csvParser';
+import { createShopifyRowCollector, collectShopifyCsv, CsvOrderRecord, CsvImportProgress } from './csvRowCollector';
 
 const mapFinancialStatus = (status: string): PaymentStatus => {
   const s = status ? status.toLowerCase() : '';
@@ -43,134 +22,19 @@ const mapFulfillmentStatus = (status: string): FulfillmentStatus => {
   return FulfillmentStatus.UNFULFILLED;
 };
 
-// Validation Helpers
-const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-const isValidDate = (dateStr: string) => !isNaN(Date.parse(dateStr));
-const hasNumbers = (str: string) => /\d/.test(str); 
-
-export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUTO'): Order[] => {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) throw new Error("CSV file is empty or invalid.");
-
-  const rawHeaders = parseCSVLine(lines[0]);
-  const headers = rawHeaders.map(h => h.trim().toLowerCase());
-  const getIndex = (name: string) => headers.indexOf(name.toLowerCase());
-  
-  const idx = {
-    name: getIndex('Name'),
-    createdAt: getIndex('Created at'),
-    email: getIndex('Email'),
-    financial: getIndex('Financial Status'),
-    fulfillment: getIndex('Fulfillment Status'),
-    total: getIndex('Total'),
-    currency: getIndex('Currency'),
-    tags: getIndex('Tags'),
-    riskLevel: getIndex('Risk Level'),
-    shippingName: getIndex('Shipping Name'),
-    shippingCity: getIndex('Shipping City'),
-    shippingProvince: getIndex('Shipping Province'),
-    shippingCountry: getIndex('Shipping Country'),
-    shippingMethod: getIndex('Shipping Method'),
-    lineItemQty: getIndex('Lineitem quantity'),
-    cancelReason: getIndex('Cancelled at'),
-  };
-
-  if (idx.name === -1) throw new Error("Invalid CSV: Missing 'Name' column.");
-
-  const orderMap = new Map<string, any>();
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const row = parseCSVLine(line);
-    const val = (index: number) => (row[index] ? row[index].trim() : '');
-
-    // --- STRICT VALIDATION LOGIC ---
-    const rawId = val(idx.name);
-    const rawDate = val(idx.createdAt);
-    const rawEmail = val(idx.email);
-    const rawTags = val(idx.tags);
-
-    const errorReasons: string[] = [];
-
-    // 1. ID Check
-    if (!rawId || !hasNumbers(rawId)) {
-        errorReasons.push("Invalid Order #");
-    }
-
-    // 2. Date Check
-    if (!rawDate || !isValidDate(rawDate)) {
-        errorReasons.push("Invalid Date");
-    }
-
-    // 3. Email Check
-    if (!rawEmail || !isValidEmail(rawEmail)) {
-        errorReasons.push("Invalid Email");
-    }
-
-    // 4. Tag Check
-    // FIX: If user manually selected a category (NOT Auto), we allow missing tags
-    // because we will inject our own tag later.
-    if (category === 'AUTO' && (!rawTags || rawTags.trim().length === 0)) {
-        errorReasons.push("Missing Tags");
-    }
-
-    const isRowInvalid = errorReasons.length > 0;
-    const mapId = rawId || `BAD-ROW-${i}`;
-
-    const extraData: Record<string, string> = {};
-    rawHeaders.forEach((header, index) => {
-        extraData[header] = val(index);
-    });
-
-    if (!orderMap.has(mapId)) {
-      const tagsList = rawTags ? rawTags.split(',').map(t => t.trim().replace(/^"|"$/g, '')).filter(t => t) : [];
-      const csvRisk = val(idx.riskLevel).toLowerCase();
-      const isNativeHighRisk = csvRisk === 'high' || csvRisk === 'medium';
-
-      let location = 'Unknown';
-      const city = val(idx.shippingCity);
-      const country = val(idx.shippingCountry);
-      if (city || country) location = [city, country].filter(Boolean).join(', ');
-
-      orderMap.set(mapId, {
-        id: mapId,
-        date: rawDate || 'N/A',
-        email: rawEmail || 'N/A',
-        financial: val(idx.financial),
-        fulfillment: val(idx.fulfillment),
-        total: parseFloat(val(idx.total) || '0'),
-        currency: val(idx.currency) || 'USD',
-        tags: tagsList,
-        nativeRisk: isNativeHighRisk,
-        customerName: val(idx.shippingName) || 'Unknown',
-        location: location,
-        shippingMethod: val(idx.shippingMethod),
-        itemsCount: 0,
-        isCancelled: !!val(idx.cancelReason),
-        additional_data: extraData,
-        isInvalid: isRowInvalid,
-        importError: errorReasons.join(', ')
-      });
-    }
-
-    const order = orderMap.get(mapId);
-    const qty = parseInt(val(idx.lineItemQty) || '0');
-    order.itemsCount += qty > 0 ? qty : 0;
-  }
-
-  return Array.from(orderMap.values()).map(o => {
-    // Determine category based on selection or tags
-    const lowerTags = o.tags.map((t: string) => t.toLowerCase());
+/**
+ * Turns the per-order records collected from an export into Orders, applying
+ * the category the user picked in the import dialog.
+ */
+export const buildOrdersFromCsvRecords = (records: CsvOrderRecord[], category: ImportCategory = 'AUTO'): Order[] => {
+  return records.map(o => {
+    // Determine category based on selection
     let disputeStatus = DisputeStatus.NONE;
-    let isHighRisk = o.nativeRisk;
-    let importCat = category; 
+    const importCat = category;
     let injectedTag = '';
 
     if (category === 'DISPUTE_OPEN') {
         disputeStatus = DisputeStatus.NEEDS_RESPONSE;
-        isHighRisk = true; 
         injectedTag = 'Import: Open Dispute';
     } else if (category === 'DISPUTE_SUBMITTED') {
         disputeStatus = DisputeStatus.UNDER_REVIEW;
@@ -182,28 +46,9 @@ export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUT
         disputeStatus = DisputeStatus.LOST;
         injectedTag = 'Import: Lost';
     } else if (category === 'RISK') {
-        isHighRisk = true;
         injectedTag = 'Import: Fraud';
-    } else {
-        // Auto Detect
-        if (lowerTags.some((t: string) => t.includes('won'))) {
-            disputeStatus = DisputeStatus.WON;
-            importCat = 'DISPUTE_WON';
-        } else if (lowerTags.some((t: string) => t.includes('lost'))) {
-            disputeStatus = DisputeStatus.LOST;
-            importCat = 'DISPUTE_LOST';
-        } else if (lowerTags.some((t: string) => t.includes('submitted') || t.includes('review'))) {
-            disputeStatus = DisputeStatus.UNDER_REVIEW;
-            importCat = 'DISPUTE_SUBMITTED';
-        } else if (lowerTags.some((t: string) => t.includes('chargeback') || t.includes('dispute'))) {
-            disputeStatus = DisputeStatus.NEEDS_RESPONSE;
-            importCat = 'DISPUTE_OPEN';
-            isHighRisk = true;
-        } else if (lowerTags.some((t: string) => t.includes('fraud') || t.includes('risk') || t.includes('high'))) {
-            isHighRisk = true;
-            importCat = 'RISK';
-        }
     }
+    // AUTO: left for the user's rules to classify (see classificationService)
 
     const finalTags = [...o.tags];
     if (injectedTag && !finalTags.includes(injectedTag)) {
@@ -228,6 +73,7 @@ export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUT
             paymentStatus: PaymentStatus.PENDING,
             fulfillmentStatus: FulfillmentStatus.UNFULFILLED,
             itemsCount: o.itemsCount,
+            line_items: o.lineItems,
             deliveryStatus: DeliveryStatus.NO_STATUS,
             deliveryMethod: 'Unknown',
             tags: finalTags,
@@ -240,7 +86,7 @@ export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUT
         };
     }
 
-    return {
+    const order: Order = applyShipments({
       id: o.id,
       date: new Date(o.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
       created_at: o.date,
@@ -249,7 +95,8 @@ export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUT
         name: o.customerName,
         email: o.email,
         location: o.location,
-        ordersCount: 1 
+        // Real count comes from customer linking across stored orders
+        ordersCount: 1
       },
       channel: 'CSV Import',
       total: o.total,
@@ -257,15 +104,79 @@ export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUT
       paymentStatus: mapFinancialStatus(o.financial),
       fulfillmentStatus: mapFulfillmentStatus(o.fulfillment),
       itemsCount: o.itemsCount,
-      deliveryStatus: o.fulfillment?.toLowerCase() === 'fulfilled' ? DeliveryStatus.DELIVERED : DeliveryStatus.NO_STATUS,
+      line_items: o.lineItems,
+      // Set from tracking columns below, never from the fulfillment status
+      deliveryStatus: DeliveryStatus.NO_STATUS,
       deliveryMethod: o.shippingMethod,
       tags: finalTags,
-      isHighRisk: isHighRisk,
-      risk_category: isHighRisk ? 'High Risk' : 'Normal',
-      disputeStatus: disputeStatus,
-      disputeDeadline: disputeStatus === DisputeStatus.NEEDS_RESPONSE ? 'Review CSV Data' : undefined,
+      // Scored by riskService once the whole batch is known
+      isHighRisk: false,
+      native_risk_level: o.nativeRiskLevel || undefined,
+      billing_country: o.billingCountry || undefined,
+      shipping_country: o.shippingCountry || undefined,
+      disputeStatus: DisputeStatus.NONE,
       import_category: importCat,
+      category_source: category === 'AUTO' ? undefined : 'import',
       additional_data: o.additional_data
+    }, shipmentsFromColumns(o.additional_data));
+
+    if (disputeStatus === DisputeStatus.NONE) return order;
+    return transitionDispute(order, disputeStatus, 'import', `Imported as ${importCat}`);
+  });
+};
+
+/**
+ * Parses an export that is already in memory as a string. Pass a mapping for
+ * files that don't use the Shopify headers.
+ */
+export const parseShopifyCSV = (csvText: string, category: ImportCategory = 'AUTO', mapping?: ColumnMapping): Order[] => {
+  const collector = createShopifyRowCollector(category, mapping);
+  parseCsvText(csvText).forEach((row, i) => collector.addRow(row, i + 1));
+  return buildOrdersFromCsvRecords(collector.finish(), category);
+};
+
+type CsvWorkerMessage =
+  | { type: 'progress'; progress: CsvImportProgress }
+  | { type: 'done'; records: CsvOrderRecord[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Imports an export file without loading it into memory in one piece.
+ * Parsing runs in a Web Worker so large files do not freeze the page; where
+ * workers are unavailable it streams on the main thread instead.
+ */
+export const importShopifyCsvFile = async (
+  file: File,
+  category: ImportCategory = 'AUTO',
+  onProgress?: (progress: CsvImportProgress) => void,
+  mapping?: ColumnMapping
+): Promise<Order[]> => {
+  if (typeof Worker === 'undefined') {
+    const records = await collectShopifyCsv(file, category, onProgress, mapping);
+    return buildOrdersFromCsvRecords(records, category);
+  }
+
+  const records = await new Promise<CsvOrderRecord[]>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.records);
+      else reject(new Error(message.message));
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The CSV worker stopped unexpectedly.'));
     };
+
+    worker.postMessage({ file, category, mapping });
   });
+
+  return buildOrdersFromCsvRecords(records, category);
 };
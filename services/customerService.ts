@@ -0,0 +1,276 @@
+// src/services/customerService.ts
+import { Order, CustomerCluster, IdentityKind, DisputeStatus, PaymentStatus } from '../types';
+import { getDisputeStatus } from './disputeService';
+
+/**
+ * CUSTOMER LINKING:
+ * Every order yields a few normalized identifiers (email, phone, shipping
+ * address, device ID, Shopify customer ID). Orders that share any identifier
+ * are joined into one cluster with a union-find, so a customer who switches
+ * email but ships to the same address still shows up as one person.
+ *
+ * IP addresses are deliberately not used: shared and mobile IPs would join
+ * unrelated customers.
+ */
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const PHONE_COLUMNS = ['Phone', 'Shipping Phone', 'Billing Phone'];
+const DEVICE_COLUMNS = ['Device ID', 'Device Fingerprint'];
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  boulevard: 'blvd',
+  drive: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  apartment: 'apt',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+// --- NORMALIZATION ---
+
+/**
+ * Lowercases, drops plus-addressing and, for Gmail, the dots Gmail ignores.
+ * "John.Doe+shop@googlemail.com" -> "johndoe@gmail.com"
+ */
+export const normalizeEmail = (email?: string): string | null => {
+  const clean = (email || '').trim().toLowerCase();
+  const at = clean.lastIndexOf('@');
+  if (at <= 0 || at === clean.length - 1) return null;
+
+  let local = clean.slice(0, at).split('+')[0];
+  let domain = clean.slice(at + 1);
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return local ? `${local}@${domain}` : null;
+};
+
+/**
+ * Digits only, without international prefixes. The last 10 digits are kept
+ * so "+1 (555) 010-2000" and "555-010-2000" match.
+ */
+export const normalizePhone = (phone?: string): string | null => {
+  const digits = (phone || '').replace(/\D/g, '').replace(/^00/, '');
+  if (digits.length < 7) return null;
+  return digits.slice(-10);
+};
+
+export const normalizeAddress = (line1?: string, zip?: string, country?: string): string | null => {
+  const street = (line1 || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ');
+  if (!street || !/\d/.test(street)) return null;
+
+  const postal = (zip || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const region = (country || '').trim().toLowerCase();
+  return [street, postal, region].join('|');
+};
+
+const column = (order: Order, name: string): string => {
+  const value = order.additional_data?.[name];
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+export const shippingAddressKey = (order: Order): string | null => normalizeAddress(
+  column(order, 'Shipping Address1') || column(order, 'Shipping Street'),
+  column(order, 'Shipping Zip'),
+  column(order, 'Shipping Country') || order.shipping_country
+);
+
+export const identityKeys = (order: Order): Array<{ kind: IdentityKind; key: string }> => {
+  const keys: Array<{ kind: IdentityKind; key: string }> = [];
+
+  const email = normalizeEmail(order.customer?.email);
+  if (email) keys.push({ kind: 'email', key: `email:${email}` });
+
+  PHONE_COLUMNS.forEach((name) => {
+    const phone = normalizePhone(column(order, name));
+    if (phone) keys.push({ kind: 'phone', key: `phone:${phone}` });
+  });
+
+  const address = shippingAddressKey(order);
+  if (address) keys.push({ kind: 'address', key: `address:${address}` });
+
+  DEVICE_COLUMNS.forEach((name) => {
+    const device = column(order, name).toLowerCase();
+    if (device) keys.push({ kind: 'device', key: `device:${device}` });
+  });
+
+  if (order.customer?.id?.startsWith('gid://shopify/Customer/')) {
+    keys.push({ kind: 'shopify_customer', key: `shopify:${order.customer.id}` });
+  }
+
+  return keys;
+};
+
+// --- CLUSTERING ---
+
+const hasChargeback = (order: Order) => getDisputeStatus(order) !== DisputeStatus.NONE;
+
+const countsTowardValue = (order: Order) =>
+  order.paymentStatus !== PaymentStatus.REFUNDED && order.paymentStatus !== PaymentStatus.VOIDED;
+
+/**
+ * Groups orders into customer clusters. Quarantined orders are skipped.
+ * Returns the clusters and a lookup from order ID to its cluster.
+ */
+export const linkCustomers = (orders: Order[]): { clusters: CustomerCluster[]; byOrderId: Map<string, CustomerCluster> } => {
+  // Later copies of the same order win, so callers can pass [...stored, ...incoming]
+  const unique = Array.from(new Map(orders.filter((o) => o.import_category !== 'INVALID').map((o) => [o.id, o])).values());
+
+  const parent = unique.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const firstOrderByKey = new Map<string, number>();
+  const linkingKinds = new Map<string, IdentityKind>();
+  const orderKeys = unique.map((order) => identityKeys(order));
+
+  orderKeys.forEach((keys, i) => {
+    keys.forEach(({ kind, key }) => {
+      const first = firstOrderByKey.get(key);
+      if (first === undefined) {
+        firstOrderByKey.set(key, i);
+        return;
+      }
+      const a = find(first);
+      const b = find(i);
+      if (a !== b) parent[b] = a;
+      linkingKinds.set(key, kind);
+    });
+  });
+
+  const members = new Map<number, number[]>();
+  unique.forEach((_, i) => {
+    const root = find(i);
+    const list = members.get(root) || [];
+    list.push(i);
+    members.set(root, list);
+  });
+
+  const clusters: CustomerCluster[] = [];
+  const byOrderId = new Map<string, CustomerCluster>();
+
+  members.forEach((indexes) => {
+    const clusterOrders = indexes.map((i) => unique[i]);
+    const clusterKeys = new Set(indexes.flatMap((i) => orderKeys[i].map((k) => k.key)));
+
+    // Stable ID: the alphabetically first identifier, or the order itself
+    const id = Array.from(clusterKeys).sort()[0] || `order:${clusterOrders[0].id}`;
+    const emails = Array.from(new Set(clusterOrders.map((o) => normalizeEmail(o.customer?.email)).filter((e): e is string => !!e)));
+    const linkedBy = Array.from(new Set(
+      Array.from(clusterKeys).map((key) => linkingKinds.get(key)).filter((k): k is IdentityKind => !!k)
+    ));
+
+    const cluster: CustomerCluster = {
+      id,
+      orderIds: clusterOrders.map((o) => o.id),
+      emails,
+      ordersCount: clusterOrders.length,
+      lifetimeValue: clusterOrders.filter(countsTowardValue).reduce((sum, o) => sum + (o.total || 0), 0),
+      chargebackCount: clusterOrders.filter(hasChargeback).length,
+      lostCount: clusterOrders.filter((o) => getDisputeStatus(o) === DisputeStatus.LOST).length,
+      linkedBy,
+    };
+
+    clusters.push(cluster);
+    cluster.orderIds.forEach((orderId) => byOrderId.set(orderId, cluster));
+  });
+
+  return { clusters, byOrderId };
+};
+
+/**
+ * Writes each order's cluster stats onto its customer. Shopify's own order
+ * count is kept when it is higher (it also counts orders we never synced).
+ */
+export const applyCustomerLinks = (orders: Order[], contextOrders: Order[] = []): Order[] => {
+  const { byOrderId } = linkCustomers([...contextOrders, ...orders]);
+  return orders.map((order) => {
+    const cluster = byOrderId.get(order.id);
+    if (!cluster) return order;
+    return {
+      ...order,
+      customer: {
+        ...order.customer,
+        cluster_id: cluster.id,
+        ordersCount: Math.max(cluster.ordersCount, order.channel === 'CSV Import' ? 0 : order.customer.ordersCount || 0),
+        lifetime_value: cluster.lifetimeValue,
+        chargeback_count: cluster.chargebackCount,
+      },
+    };
+  });
+};
+
+export interface CustomerIndex {
+  // Adds orders, replacing any stored copy with the same ID
+  put: (orders: Order[]) => void;
+  // Every indexed order in the same cluster as any of `orders`
+  related: (orders: Order[]) => Order[];
+}
+
+/**
+ * Keeps the store's orders by ID and by identifier, so a sync page can be
+ * linked against just the clusters it touches instead of the whole store.
+ */
+export const createCustomerIndex = (initial: Order[] = []): CustomerIndex => {
+  const byId = new Map<string, Order>();
+  const idsByKey = new Map<string, Set<string>>();
+
+  const put = (orders: Order[]) => {
+    orders.forEach((order) => {
+      const stale = byId.get(order.id);
+      if (stale) identityKeys(stale).forEach(({ key }) => idsByKey.get(key)?.delete(order.id));
+      byId.set(order.id, order);
+      identityKeys(order).forEach(({ key }) => {
+        const ids = idsByKey.get(key) || new Set<string>();
+        ids.add(order.id);
+        idsByKey.set(key, ids);
+      });
+    });
+  };
+
+  const related = (orders: Order[]): Order[] => {
+    const seen = new Set<string>();
+    const pending = orders.flatMap((order) => identityKeys(order).map(({ key }) => key));
+    const visitedKeys = new Set<string>();
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      if (visitedKeys.has(key)) continue;
+      visitedKeys.add(key);
+      idsByKey.get(key)?.forEach((id) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        identityKeys(byId.get(id)!).forEach((k) => pending.push(k.key));
+      });
+    }
+    return Array.from(seen, (id) => byId.get(id)!);
+  };
+
+  put(initial);
+  return { put, related };
+};
+
+/**
+ * Two or more chargebacks across everything we know about this customer.
+ */
+export const isRepeatChargebackCustomer = (cluster?: CustomerCluster): boolean => !!cluster && cluster.chargebackCount >= 2;
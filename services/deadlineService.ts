@@ -0,0 +1,158 @@
+// src/services/deadlineService.ts
+import { Order, DisputeStatus, DeadlineBucket, Alert } from '../types';
+import { getDisputeStatus } from './disputeService';
+import { createAlert } from './alertService';
+import { saveOrdersToDb } from './storageService';
+import { recordOrderChanges } from './auditService';
+import { PaymentProcessor, UserSettings } from './settingsService';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface EvidenceDeadline {
+  dueAt: Date | null;
+  // True when the processor gave no due date and we applied a default window
+  estimated: boolean;
+  processor: PaymentProcessor;
+}
+
+// Lower index = more urgent
+const BUCKET_ORDER: DeadlineBucket[] = ['OVERDUE', 'DUE_48H', 'THIS_WEEK', 'LATER', 'NO_DEADLINE'];
+
+export const BUCKET_LABELS: Record<DeadlineBucket, string> = {
+  OVERDUE: 'Overdue',
+  DUE_48H: 'Due in <48h',
+  THIS_WEEK: 'Due this week',
+  LATER: 'Later',
+  NO_DEADLINE: 'No deadline',
+};
+
+/**
+ * Works out which processor handles the dispute. Shopify Payments disputes
+ * come from the sync and Stripe / PayPal ones from their dispute exports; for
+ * order CSV imports we read the export's payment columns.
+ */
+export const detectProcessor = (order: Order): PaymentProcessor => {
+  if (order.dispute?.source === 'shopify_payments') return 'shopify_payments';
+  if (order.dispute?.source === 'stripe' || order.dispute?.source === 'paypal') return order.dispute.source;
+
+  const extra = order.additional_data || {};
+  const gateway = [extra['Payment Method'], extra['Payment Gateway'], extra['Gateway'], order.source_name]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  if (gateway.includes('paypal')) return 'paypal';
+  if (gateway.includes('stripe')) return 'stripe';
+  if (gateway.includes('shopify')) return 'shopify_payments';
+  return 'other';
+};
+
+export const computeEvidenceDeadline = (order: Order, settings: UserSettings): EvidenceDeadline => {
+  const processor = detectProcessor(order);
+
+  const exact = order.dispute?.evidenceDueBy;
+  if (exact && !isNaN(Date.parse(exact))) {
+    return { dueAt: new Date(exact), estimated: false, processor };
+  }
+
+  const openedAt = order.dispute?.openedAt || order.created_at;
+  if (!openedAt || isNaN(Date.parse(openedAt))) {
+    return { dueAt: null, estimated: true, processor };
+  }
+
+  const days = settings.deadlineDays[processor] ?? settings.deadlineDays.other;
+  return { dueAt: new Date(Date.parse(openedAt) + days * DAY), estimated: true, processor };
+};
+
+export const getDeadlineBucket = (dueAt: Date | null, now: Date = new Date()): DeadlineBucket => {
+  if (!dueAt) return 'NO_DEADLINE';
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining < 0) return 'OVERDUE';
+  if (remaining < 48 * HOUR) return 'DUE_48H';
+  if (remaining < 7 * DAY) return 'THIS_WEEK';
+  return 'LATER';
+};
+
+export const isMoreUrgent = (a: DeadlineBucket, b?: DeadlineBucket): boolean => {
+  if (!b) return true;
+  return BUCKET_ORDER.indexOf(a) < BUCKET_ORDER.indexOf(b);
+};
+
+export const formatCountdown = (dueAt: Date, now: Date = new Date()): string => {
+  const remaining = dueAt.getTime() - now.getTime();
+  const abs = Math.abs(remaining);
+  const span = abs < DAY ? `${Math.max(1, Math.round(abs / HOUR))}h` : `${Math.round(abs / DAY)}d`;
+  return remaining < 0 ? `Overdue by ${span}` : `Due in ${span}`;
+};
+
+/**
+ * Only chargebacks still waiting on us have a response window.
+ */
+const needsResponse = (order: Order) =>
+  order.import_category !== 'INVALID' && getDisputeStatus(order) === DisputeStatus.NEEDS_RESPONSE;
+
+/**
+ * Orders with open chargebacks first, soonest deadline first. Anything without
+ * a deadline keeps its original order at the end.
+ */
+export const sortByUrgency = (orders: Order[], settings: UserSettings): Order[] => {
+  const dueTime = (order: Order) => {
+    if (!needsResponse(order)) return Number.POSITIVE_INFINITY;
+    const { dueAt } = computeEvidenceDeadline(order, settings);
+    return dueAt ? dueAt.getTime() : Number.POSITIVE_INFINITY;
+  };
+  return orders
+    .map((order, index) => ({ order, index, due: dueTime(order) }))
+    .sort((a, b) => (a.due === b.due ? a.index - b.index : a.due - b.due))
+    .map(({ order }) => order);
+};
+
+export const getOrderBucket = (order: Order, settings: UserSettings, now: Date = new Date()): DeadlineBucket => {
+  if (!needsResponse(order)) return 'NO_DEADLINE';
+  return getDeadlineBucket(computeEvidenceDeadline(order, settings).dueAt, now);
+};
+
+/**
+ * Raises one alert per chargeback each time it crosses into a more urgent
+ * bucket (this week → <48h → overdue). The bucket we alerted on is saved on
+ * the dispute so the same alert is never raised twice.
+ */
+export const escalateDeadlines = async (
+  orders: Order[],
+  settings: UserSettings,
+  now: Date = new Date()
+): Promise<{ orders: Order[]; alerts: Alert[] }> => {
+  const escalated: Order[] = [];
+  const alerts: Alert[] = [];
+
+  for (const order of orders) {
+    if (!needsResponse(order) || !order.dispute) continue;
+
+    const { dueAt, estimated } = computeEvidenceDeadline(order, settings);
+    const bucket = getDeadlineBucket(dueAt, now);
+    if (!dueAt || bucket === 'LATER' || bucket === 'NO_DEADLINE') continue;
+    if (!isMoreUrgent(bucket, order.dispute.escalatedBucket)) continue;
+
+    const title = bucket === 'OVERDUE' ? 'Chargeback Overdue' : 'Chargeback Due Soon';
+    const message = `Order ${order.id}: ${formatCountdown(dueAt, now).toLowerCase()}${estimated ? ' (estimated)' : ''}.`;
+    const alert = await createAlert(title, message, 'error', {
+      order_id: order.id,
+      due_at: dueAt.toISOString(),
+      bucket,
+      estimated,
+    });
+    if (alert) alerts.push(alert);
+
+    escalated.push({ ...order, dispute: { ...order.dispute, escalatedBucket: bucket } });
+  }
+
+  if (escalated.length > 0) {
+    await saveOrdersToDb(escalated);
+    const before = new Map(orders.map((o) => [o.id, o]));
+    await recordOrderChanges(escalated.map((after) => ({ before: before.get(after.id), after })), 'escalation');
+  }
+
+  const byId = new Map(escalated.map((o) => [o.id, o]));
+  return { orders: orders.map((o) => byId.get(o.id) || o), alerts };
+};
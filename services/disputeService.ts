@@ -1,7 +1,192 @@
 import { supabase } from '../lib/supabase';
-import { SavedDispute } from '../types';
+import {
+  SavedDispute,
+  Order,
+  Dispute,
+  DisputeStatus,
+  DisputeReason,
+  DisputeOutcome,
+  DisputeEventSource
+} from '../types';
 
-export const saveDisputeDraft = async (orderId: string, text: string) => {
+// --- DISPUTE MODEL ---
+
+const REASON_ALIASES: Record<string, DisputeReason> = {
+  fraud: DisputeReason.FRAUDULENT,
+  not_received: DisputeReason.PRODUCT_NOT_RECEIVED,
+  item_not_received: DisputeReason.PRODUCT_NOT_RECEIVED,
+  not_as_described: DisputeReason.PRODUCT_UNACCEPTABLE,
+  significantly_not_as_described: DisputeReason.PRODUCT_UNACCEPTABLE,
+  subscription_cancelled: DisputeReason.SUBSCRIPTION_CANCELED,
+  unauthorized: DisputeReason.FRAUDULENT,
+  unauthorised: DisputeReason.FRAUDULENT,
+  duplicate_transaction: DisputeReason.DUPLICATE,
+  refund_not_processed: DisputeReason.CREDIT_NOT_PROCESSED,
+  // PayPal resolution center wording and case reason codes
+  unauthorized_transaction: DisputeReason.FRAUDULENT,
+  unauthorised_transaction: DisputeReason.FRAUDULENT,
+  item_significantly_not_as_described: DisputeReason.PRODUCT_UNACCEPTABLE,
+  merchandise_or_service_not_received: DisputeReason.PRODUCT_NOT_RECEIVED,
+  merchandise_or_service_not_as_described: DisputeReason.PRODUCT_UNACCEPTABLE,
+  canceled_recurring_billing: DisputeReason.SUBSCRIPTION_CANCELED,
+};
+
+/**
+ * Maps a processor's reason string ("FRAUDULENT", "Item not received", ...)
+ * onto our reason codes. Anything unknown becomes GENERAL.
+ */
+export const normalizeDisputeReason = (raw?: string | null): DisputeReason => {
+  if (!raw) return DisputeReason.GENERAL;
+  const key = raw.trim().toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '');
+  const known = Object.values(DisputeReason) as string[];
+  if (known.includes(key)) return key as DisputeReason;
+  return REASON_ALIASES[key] || DisputeReason.GENERAL;
+};
+
+export const formatDisputeReason = (reason?: DisputeReason): string => {
+  if (!reason) return 'Unknown reason';
+  const label = reason.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const TERMINAL_STATUSES = [DisputeStatus.WON, DisputeStatus.LOST];
+
+/**
+ * The dispute entity is authoritative; `order.disputeStatus` is kept as a
+ * mirror for older records and quick filters.
+ */
+export const getDisputeStatus = (order: Order): DisputeStatus => {
+  return order.dispute?.status ?? order.disputeStatus ?? DisputeStatus.NONE;
+};
+
+export const isDisputeClosed = (order: Order): boolean => {
+  return !!order.dispute?.outcome || TERMINAL_STATUSES.includes(getDisputeStatus(order));
+};
+
+const createDispute = (order: Order, status: DisputeStatus, at: string): Dispute => ({
+  id: `import:${order.id}`,
+  source: 'import',
+  status,
+  type: 'chargeback',
+  reason: DisputeReason.GENERAL,
+  amount: order.total || 0,
+  currency: order.currency || 'USD',
+  openedAt: at,
+  history: [],
+});
+
+/**
+ * Mirrors the dispute entity onto the legacy flat fields of the order.
+ */
+const withMirroredFields = (order: Order, dispute: Dispute): Order => ({
+  ...order,
+  dispute,
+  disputeStatus: dispute.status,
+  disputeDeadline: dispute.status === DisputeStatus.NEEDS_RESPONSE ? dispute.evidenceDueBy : undefined,
+});
+
+/**
+ * Moves an order's dispute to a new status and appends the change to its
+ * history. Creates the dispute record if the order does not have one yet.
+ */
+export const transitionDispute = (
+  order: Order,
+  status: DisputeStatus,
+  source: DisputeEventSource,
+  note?: string,
+  outcome?: DisputeOutcome
+): Order => {
+  const now = new Date().toISOString();
+
+  if (!order.dispute && status === DisputeStatus.NONE) {
+    return { ...order, disputeStatus: status, disputeDeadline: undefined };
+  }
+
+  const current = order.dispute || createDispute(order, DisputeStatus.NONE, now);
+  if (current.status === status && !outcome) return withMirroredFields(order, current);
+
+  const resolvedOutcome = outcome
+    || (status === DisputeStatus.WON ? 'won' : status === DisputeStatus.LOST ? 'lost' : undefined);
+
+  const dispute: Dispute = {
+    ...current,
+    status,
+    outcome: resolvedOutcome,
+    closedAt: resolvedOutcome ? (current.closedAt || now) : undefined,
+    history: [
+      ...current.history,
+      { at: now, status, previousStatus: current.status, source, note },
+    ],
+  };
+
+  return withMirroredFields(order, dispute);
+};
+
+/**
+ * A rebuttal was sent: the dispute moves to UNDER_REVIEW with the send date,
+ * and the category is pinned so rules don't move it back.
+ */
+export const applyRebuttalSubmission = (order: Order, submittedAt: string): Order => {
+  const moved = transitionDispute(order, DisputeStatus.UNDER_REVIEW, 'manual', `Rebuttal submitted ${submittedAt.slice(0, 10)}`);
+  return {
+    ...moved,
+    dispute: moved.dispute && { ...moved.dispute, evidenceSentOn: submittedAt },
+    import_category: 'DISPUTE_SUBMITTED',
+    category_source: 'manual',
+  };
+};
+
+/**
+ * Applies a dispute as reported by the processor on top of whatever we
+ * already hold for the order, keeping the accumulated history, the alert
+ * bucket already raised and the date evidence went out.
+ */
+export const applyProcessorDispute = (order: Order, incoming: Dispute): Order => {
+  const current = order.dispute && order.dispute.id === incoming.id ? order.dispute : undefined;
+  const history = current ? [...current.history] : [];
+
+  if (!current || current.status !== incoming.status) {
+    history.push({
+      at: new Date().toISOString(),
+      status: incoming.status,
+      previousStatus: current?.status ?? order.disputeStatus,
+      source: incoming.source,
+    });
+  }
+
+  return withMirroredFields(order, {
+    ...incoming,
+    evidenceSentOn: incoming.evidenceSentOn || current?.evidenceSentOn,
+    escalatedBucket: incoming.escalatedBucket || current?.escalatedBucket,
+    history,
+  });
+};
+
+/**
+ * Older stored orders only have the flat `disputeStatus`. Give them a dispute
+ * record so every view can read from the same entity.
+ */
+export const withDisputeRecord = (order: Order): Order => {
+  if (order.dispute || !order.disputeStatus || order.disputeStatus === DisputeStatus.NONE) return order;
+  const at = order.created_at || new Date().toISOString();
+  const dispute = createDispute(order, order.disputeStatus, at);
+  return {
+    ...order,
+    dispute: {
+      ...dispute,
+      outcome: order.disputeStatus === DisputeStatus.WON ? 'won' : order.disputeStatus === DisputeStatus.LOST ? 'lost' : undefined,
+      history: [{ at, status: order.disputeStatus, previousStatus: DisputeStatus.NONE, source: 'import', note: 'Backfilled from order status' }],
+    },
+  };
+};
+
+// --- DRAFTS & PROFILE ---
+
+/**
+ * Saves the live rebuttal text for an order (one row per order). Only new
+ * rows start as 'Draft'; a submitted rebuttal keeps its status.
+ */
+export const saveDisputeDraft = async (orderId: string, text: string, disputeId?: string): Promise<SavedDispute> => {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error("Not authenticated");
 
@@ -11,25 +196,47 @@ export const saveDisputeDraft = async (orderId: string, text: string) => {
     .select('id')
     .eq('order_id', orderId)
     .eq('user_id', user.id)
+    .maybeSingle();
+
+  const now = new Date().toISOString();
+  const query = existing
+    ? supabase
+        .from('disputes')
+        .update({ rebuttal_text: text, dispute_id: disputeId || null, updated_at: now })
+        .eq('id', existing.id)
+    : supabase
+        .from('disputes')
+        .insert({
+          user_id: user.id,
+          order_id: orderId,
+          dispute_id: disputeId || null,
+          rebuttal_text: text,
+          status: 'Draft',
+          updated_at: now
+        });
+
+  const { data, error } = await query.select().single();
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as SavedDispute;
+};
+
+/**
+ * Records that the rebuttal was sent on `submittedAt` (YYYY-MM-DD or ISO).
+ */
+export const markDisputeSubmitted = async (orderId: string, submittedAt: string): Promise<SavedDispute> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from('disputes')
+    .update({ status: 'Submitted', submitted_at: submittedAt, updated_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .select()
     .single();
 
-  if (existing) {
-    // Update
-    return await supabase
-      .from('disputes')
-      .update({ rebuttal_text: text, status: 'Draft', updated_at: new Date().toISOString() })
-      .eq('id', existing.id);
-  } else {
-    // Insert
-    return await supabase
-      .from('disputes')
-      .insert({
-        user_id: user.id,
-        order_id: orderId,
-        rebuttal_text: text,
-        status: 'Draft'
-      });
-  }
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as SavedDispute;
 };
 
 export const fetchSavedDisputes = async (): Promise<SavedDispute[]> => {
@@ -49,6 +256,25 @@ export const fetchSavedDisputes = async (): Promise<SavedDispute[]> => {
   return data as SavedDispute[];
 };
 
+export const fetchSavedDisputesForOrder = async (orderId: string): Promise<SavedDispute[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('disputes')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("Error fetching disputes:", error);
+    return [];
+  }
+
+  return data as SavedDispute[];
+};
+
 export const saveUserProfile = async (domain: string, token: string, apiKey: string) => {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error("Not authenticated");
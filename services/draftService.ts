@@ -0,0 +1,136 @@
+// src/services/draftService.ts
+import { supabase } from '../lib/supabase';
+import { DraftVersion, DraftSource } from '../types';
+
+/**
+ * REBUTTAL VERSIONS:
+ * The live rebuttal text autosaves to `disputes` (saveDisputeDraft). On top
+ * of that, every generated draft and every editing session leaves an
+ * immutable snapshot in `dispute_draft_versions`, so the AI's text can be
+ * compared with what a person changed before it was sent.
+ */
+
+export const DRAFT_SOURCE_LABELS: Record<DraftSource, string> = {
+  ai: 'AI draft',
+  template: 'Template letter',
+  edit: 'Edited',
+};
+
+export const fetchDraftVersions = async (orderId: string): Promise<DraftVersion[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('dispute_draft_versions')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .order('version', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching draft versions:', error);
+    return [];
+  }
+
+  return data as DraftVersion[];
+};
+
+/**
+ * Appends the next version. `previous` is what the caller already holds, so
+ * the version number needs no extra round trip.
+ */
+export const recordDraftVersion = async (
+  orderId: string,
+  text: string,
+  source: DraftSource,
+  previous: DraftVersion[]
+): Promise<DraftVersion> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const version = previous.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+  const { data, error } = await supabase
+    .from('dispute_draft_versions')
+    .insert({
+      user_id: user.id,
+      order_id: orderId,
+      version,
+      text,
+      source,
+      created_by: user.email || user.id,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as DraftVersion;
+};
+
+// Writes already made (or under way) for a generated letter, by order, source and text
+const recordedLetters = new Map<string, Promise<DraftVersion>>();
+
+/**
+ * recordDraftVersion for a generated letter, safe to call twice: the editor
+ * records it from its mount effect, which StrictMode runs twice and a quick
+ * reopen repeats before the first write is back. A letter that is already
+ * the latest version is not recorded again.
+ */
+export const recordGeneratedVersion = (
+  orderId: string,
+  text: string,
+  source: DraftSource,
+  previous: DraftVersion[]
+): Promise<DraftVersion> => {
+  const latest = previous.reduce<DraftVersion | undefined>((max, v) => (!max || v.version > max.version ? v : max), undefined);
+  if (latest && latest.text === text && latest.source === source) return Promise.resolve(latest);
+
+  const key = `${orderId}|${source}|${text}`;
+  const pending = recordedLetters.get(key) || recordDraftVersion(orderId, text, source, previous).catch((err) => {
+    // Let a failed write be tried again
+    recordedLetters.delete(key);
+    throw err;
+  });
+  recordedLetters.set(key, pending);
+  return pending;
+};
+
+// --- DIFF ---
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff from the longest common subsequence. Letters are a few dozen
+ * lines, so the quadratic table is fine.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
@@ -0,0 +1,206 @@
+// src/services/evidenceInventoryService.ts
+import { Order, EvidenceAttachment, EvidenceType, FulfillmentStatus, PaymentStatus } from '../types';
+import { EVIDENCE_TYPE_LABELS } from './attachmentService';
+import { reportedShipments, SHIPMENT_STATUS_LABELS } from './trackingService';
+
+/**
+ * EVIDENCE INVENTORY:
+ * Before a letter is written we list what the merchant can actually prove
+ * for this order: the order record, imported columns and uploaded files.
+ * The prompt only offers the model these items, and the finished letter is
+ * checked sentence by sentence so claims nothing in the inventory supports
+ * (AVS match, confirmed delivery, ...) are flagged before it can be saved.
+ */
+
+export type EvidenceKind =
+  | 'order'
+  | 'customer'
+  | 'payment'
+  | 'fulfillment'
+  | 'tracking'
+  | 'delivery'
+  | 'avs'
+  | 'cvv'
+  | 'device'
+  | 'communication'
+  | 'refund_policy'
+  | 'history'
+  | 'attachment';
+
+export interface EvidenceItem {
+  // E1, E2, ... in inventory order
+  id: string;
+  kind: EvidenceKind;
+  label: string;
+  value: string;
+  // Where it came from, e.g. "Order record" or "Attachment: pod.pdf"
+  source: string;
+}
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  order: 'Order details',
+  customer: 'Customer details',
+  payment: 'Payment',
+  fulfillment: 'Fulfillment',
+  tracking: 'Tracking',
+  delivery: 'Delivery confirmation',
+  avs: 'AVS result',
+  cvv: 'CVV result',
+  device: 'IP / device',
+  communication: 'Customer communication',
+  refund_policy: 'Refund policy',
+  history: 'Order history',
+  attachment: 'Other evidence',
+};
+
+const ORDER_SOURCE = 'Order record';
+
+// Imported columns that count as evidence of a kind, checked in this order so
+// each column lands in exactly one place
+const COLUMN_KINDS: Array<{ kind: EvidenceKind; pattern: RegExp }> = [
+  { kind: 'delivery', pattern: /delivered (at|on|date)|delivery date|proof of delivery|signed by/i },
+  { kind: 'tracking', pattern: /tracking|carrier/i },
+  { kind: 'avs', pattern: /\bavs\b|address verification/i },
+  { kind: 'cvv', pattern: /\bcvv|\bcvc|security code/i },
+  { kind: 'device', pattern: /\bip\b|ip address|browser ip|device|user agent/i },
+  { kind: 'communication', pattern: /customer note|message|correspondence/i },
+];
+
+const ATTACHMENT_KINDS: Record<EvidenceType, EvidenceKind[]> = {
+  proof_of_delivery: ['delivery'],
+  customer_communication: ['communication'],
+  refund_policy: ['refund_policy'],
+  avs_cvv: ['avs', 'cvv'],
+  other: ['attachment'],
+};
+
+const hasValue = (value: unknown): boolean => value !== null && value !== undefined && String(value).trim() !== '';
+
+export const buildEvidenceInventory = (order: Order, attachments: EvidenceAttachment[] = []): EvidenceItem[] => {
+  const items: Omit<EvidenceItem, 'id'>[] = [];
+  const add = (kind: EvidenceKind, label: string, value: unknown, source = ORDER_SOURCE) => {
+    if (hasValue(value)) items.push({ kind, label, value: String(value).trim(), source });
+  };
+
+  add('order', 'Order ID', order.id);
+  add('order', 'Date placed', order.date);
+  add('order', 'Order total', order.total ? `${order.total} ${order.currency || 'USD'}` : undefined);
+  add('order', 'Items', order.itemsCount || undefined);
+  add('order', 'Line items', order.line_items?.map((item) => `${item.quantity} x ${item.title}`).join(', '));
+
+  add('customer', 'Customer name', order.customer?.name);
+  add('customer', 'Customer email', order.customer?.email);
+  add('customer', 'Shipping location', order.customer?.location !== 'Unknown' ? order.customer?.location : undefined);
+  add('customer', 'Phone', order.additional_data?.['Phone']);
+  add('customer', 'Billing country', order.billing_country);
+  add('customer', 'Shipping country', order.shipping_country);
+  if (order.customer?.ordersCount > 1) add('history', 'Orders on file for this customer', order.customer.ordersCount);
+
+  if (order.paymentStatus === PaymentStatus.PAID || order.paymentStatus === PaymentStatus.PARTIALLY_REFUNDED) {
+    add('payment', 'Payment status', order.paymentStatus);
+  }
+  add('payment', 'Payment gateway', order.additional_data?.['Payment Method']);
+
+  // Older orders had deliveryStatus guessed from the fulfillment status, so
+  // delivery is only taken from a shipment the carrier or Shopify reported
+  if (order.fulfillmentStatus === FulfillmentStatus.FULFILLED || order.fulfillmentStatus === FulfillmentStatus.PARTIAL) {
+    add('fulfillment', 'Fulfillment status', order.fulfillmentStatus);
+  }
+  add('fulfillment', 'Shipping method', order.deliveryMethod);
+
+  reportedShipments(order).forEach((shipment) => {
+    const source = shipment.statusSource ? `Tracking via ${shipment.statusSource}` : 'Tracking number on the order';
+    add('tracking', 'Tracking', `${shipment.carrier ? `${shipment.carrier} ` : ''}${shipment.trackingNumber} (${SHIPMENT_STATUS_LABELS[shipment.status]})`, source);
+    if (shipment.status === 'delivered' && shipment.deliveredAt) {
+      add('delivery', 'Delivered', [shipment.deliveredAt, shipment.deliveryLocation].filter(Boolean).join(', '), source);
+    }
+  });
+
+  const seen = new Set(['Phone', 'Payment Method']);
+  Object.entries(order.additional_data || {}).forEach(([key, value]) => {
+    if (seen.has(key) || !hasValue(value)) return;
+    const match = COLUMN_KINDS.find(({ pattern }) => pattern.test(key));
+    if (match) add(match.kind, key, value, `Imported column "${key}"`);
+  });
+
+  attachments.forEach((a) => {
+    ATTACHMENT_KINDS[a.evidence_type]?.forEach((kind) =>
+      add(kind, EVIDENCE_TYPE_LABELS[a.evidence_type] || a.evidence_type, a.file_name, `Attachment: ${a.file_name}`)
+    );
+  });
+
+  return items.map((item, index) => ({ ...item, id: `E${index + 1}` }));
+};
+
+export const inventoryHas = (inventory: EvidenceItem[], kind: EvidenceKind): boolean =>
+  inventory.some((item) => item.kind === kind);
+
+export const formatInventoryForPrompt = (inventory: EvidenceItem[]): string =>
+  inventory.length > 0
+    ? inventory.map((item) => `    - [${item.id}] ${EVIDENCE_KIND_LABELS[item.kind]} / ${item.label}: ${item.value} (${item.source})`).join('\n')
+    : '    - None';
+
+// --- CLAIM CHECK ---
+
+interface ClaimRule {
+  claim: string;
+  pattern: RegExp;
+  // Any one of these kinds in the inventory supports the claim
+  requires: EvidenceKind[];
+}
+
+// Errs towards flagging: a sentence that merely mentions AVS is checked too,
+// and the person reviewing the letter can confirm it is fine
+const CLAIM_RULES: ClaimRule[] = [
+  { claim: 'AVS match', pattern: /\bAVS\b|address verification/i, requires: ['avs'] },
+  { claim: 'CVV match', pattern: /\bCVV2?\b|\bCVC\b|security code/i, requires: ['cvv'] },
+  { claim: 'Confirmed delivery', pattern: /\bdelivered\b|proof of delivery|delivery (was )?confirm|signed for|signature/i, requires: ['delivery'] },
+  { claim: 'Tracking', pattern: /\btracking\b|\btracked\b/i, requires: ['tracking', 'delivery'] },
+  { claim: 'Shipment', pattern: /\bshipped\b|\bdispatched\b|\bfulfilled\b/i, requires: ['fulfillment', 'tracking', 'delivery'] },
+  {
+    claim: 'Customer communication',
+    pattern: /\b(customer|cardholder) (has )?(contacted|emailed|wrote|messaged|replied|acknowledged)|correspondence|email exchange/i,
+    requires: ['communication'],
+  },
+  {
+    // Must flag the built-in subscription letter's "agreed to our
+    // subscription and cancellation terms at checkout"
+    claim: 'Refund policy',
+    pattern: /(refund|return|cancellation) policy|terms (of service|and conditions)|agreed to (our|the) [\w\s]*terms|subscription terms/i,
+    requires: ['refund_policy'],
+  },
+  { claim: 'IP / device match', pattern: /\bIP address\b|\bdevice\b|geolocation/i, requires: ['device'] },
+  {
+    claim: 'Order history',
+    pattern: /\b(previous|prior|past|repeat|multiple|several|earlier) (orders|purchases)|ordered from us before|order history/i,
+    requires: ['history'],
+  },
+];
+
+export interface ClaimIssue {
+  sentence: string;
+  claim: string;
+  requires: EvidenceKind[];
+}
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Returns one issue per sentence and claim the inventory cannot back up.
+ * An empty list means every recognised claim is supported.
+ */
+export const validateLetterClaims = (letter: string, inventory: EvidenceItem[]): ClaimIssue[] => {
+  const issues: ClaimIssue[] = [];
+  splitSentences(letter).forEach((sentence) => {
+    CLAIM_RULES.forEach(({ claim, pattern, requires }) => {
+      if (pattern.test(sentence) && !requires.some((kind) => inventoryHas(inventory, kind))) {
+        issues.push({ sentence, claim, requires });
+      }
+    });
+  });
+  return issues;
+};
@@ -0,0 +1,458 @@
+// src/services/evidencePacketService.ts
+import { jsPDF } from 'jspdf';
+import { supabase } from '../lib/supabase';
+import { Order, EvidencePacket } from '../types';
+import { formatDisputeReason, getDisputeStatus } from './disputeService';
+import { EVIDENCE_BUCKET, evidencePath } from './evidenceStorage';
+import { fetchAttachments, downloadAttachment, EVIDENCE_TYPE_LABELS } from './attachmentService';
+import { reportedShipments, SHIPMENT_STATUS_LABELS } from './trackingService';
+
+/**
+ * EVIDENCE PACKET:
+ * Turns a rebuttal letter and what we know about the order into the packet
+ * processors expect: a cover page with a table of contents, the letter, then
+ * lettered exhibits (order summary, customer and addresses, fulfillment and
+ * tracking, communication log, one per attachment).
+ *
+ * assembleEvidencePacket decides what goes in and is pure;
+ * renderEvidencePacketPdf lays it out with jsPDF in the browser.
+ */
+
+export interface PacketAttachment {
+  name: string;
+  // Evidence type shown in the exhibit title, e.g. "Proof of delivery"
+  label: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export type PacketBlock =
+  | { type: 'fields'; rows: Array<[string, string]> }
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: Uint8Array; format: 'PNG' | 'JPEG' }
+  | { type: 'notice'; text: string };
+
+export interface PacketExhibit {
+  // "A", "B", ...
+  label: string;
+  title: string;
+  blocks: PacketBlock[];
+}
+
+export interface EvidencePacketContent {
+  title: string;
+  cover: Array<[string, string]>;
+  letter: string;
+  exhibits: PacketExhibit[];
+}
+
+// --- ASSEMBLY ---
+
+const exhibitLabel = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : `${exhibitLabel(Math.floor(index / 26) - 1)}${String.fromCharCode(65 + (index % 26))}`;
+
+const formatMoney = (amount: number | undefined, currency?: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount || 0);
+
+const formatDate = (value?: string) => {
+  if (!value) return '';
+  const time = Date.parse(value);
+  return isNaN(time) ? value : new Date(time).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+// Drops rows without a value so exhibits only show what we actually have
+const present = (rows: Array<[string, string | undefined | null]>): Array<[string, string]> =>
+  rows.filter((row): row is [string, string] => !!row[1] && String(row[1]).trim() !== '');
+
+// Imported columns whose header matches, in file order
+const columnsMatching = (order: Order, pattern: RegExp, exclude: Set<string> = new Set()): Array<[string, string]> =>
+  Object.entries(order.additional_data || {})
+    .filter(([key, value]) => pattern.test(key) && !exclude.has(key) && value !== null && String(value).trim() !== '')
+    .map(([key, value]) => [key, String(value)]);
+
+const ADDRESS_FIELDS = ['Name', 'Company', 'Address1', 'Address2', 'Street', 'City', 'Zip', 'Province', 'Province Name', 'Country', 'Phone'];
+
+const addressRows = (order: Order, prefix: 'Shipping' | 'Billing'): Array<[string, string]> =>
+  present(ADDRESS_FIELDS.map((field) => [`${prefix} ${field}`, order.additional_data?.[`${prefix} ${field}`]]));
+
+const orderSummaryExhibit = (order: Order): Omit<PacketExhibit, 'label'> => {
+  const blocks: PacketBlock[] = [{
+    type: 'fields',
+    rows: present([
+      ['Order', order.id],
+      ['Placed', formatDate(order.created_at) || order.date],
+      ['Sales channel', order.channel],
+      ['Order total', formatMoney(order.total, order.currency)],
+      ['Payment status', order.paymentStatus],
+      ['Fulfillment status', order.fulfillmentStatus],
+      ['Items', order.itemsCount ? String(order.itemsCount) : undefined],
+      ['Payment gateway', order.additional_data?.['Payment Method']],
+      ['Payment reference', order.additional_data?.['Payment Reference'] || order.dispute?.chargeId],
+    ]),
+  }];
+  if (order.line_items && order.line_items.length > 0) {
+    blocks.push({
+      type: 'table',
+      columns: ['Item', 'SKU', 'Qty', 'Unit price'],
+      rows: order.line_items.map((item) => [
+        item.title,
+        item.sku || '',
+        String(item.quantity),
+        item.price !== undefined ? formatMoney(item.price, order.currency) : '',
+      ]),
+    });
+  }
+  return { title: 'Order Summary', blocks };
+};
+
+const customerExhibit = (order: Order): Omit<PacketExhibit, 'label'> => {
+  const blocks: PacketBlock[] = [{
+    type: 'fields',
+    rows: present([
+      ['Customer', order.customer?.name],
+      ['Email', order.customer?.email],
+      ['Phone', order.additional_data?.['Phone']],
+      ['Location', order.customer?.location !== 'Unknown' ? order.customer?.location : undefined],
+      ['Orders on file', order.customer?.ordersCount ? String(order.customer.ordersCount) : undefined],
+      ['Billing country', order.billing_country],
+      ['Shipping country', order.shipping_country],
+    ]),
+  }];
+  const shipping = addressRows(order, 'Shipping');
+  const billing = addressRows(order, 'Billing');
+  if (shipping.length > 0) blocks.push({ type: 'text', text: 'Shipping address' }, { type: 'fields', rows: shipping });
+  if (billing.length > 0) blocks.push({ type: 'text', text: 'Billing address' }, { type: 'fields', rows: billing });
+  return { title: 'Customer & Address Details', blocks };
+};
+
+const fulfillmentExhibit = (order: Order): Omit<PacketExhibit, 'label'> => {
+  const blocks: PacketBlock[] = [{
+    type: 'fields',
+    rows: [
+      ...present([
+        ['Fulfillment status', order.fulfillmentStatus],
+        ['Delivery status', order.deliveryStatus],
+        ['Delivered', formatDate(order.delivered_at)],
+        ['Delivery location', order.delivery_location],
+        ['Shipping method', order.deliveryMethod],
+      ]),
+      ...columnsMatching(order, /fulfill|tracking|carrier|shipped|delivered|shipping method/i, new Set(['Fulfillment Status', 'Shipping Method'])),
+    ],
+  }];
+  const shipments = reportedShipments(order);
+  if (shipments.length > 0) {
+    blocks.push({
+      type: 'table',
+      columns: ['Carrier', 'Tracking number', 'Status', 'Delivered', 'Location'],
+      rows: shipments.map((shipment) => [
+        shipment.carrier || '',
+        shipment.trackingNumber,
+        SHIPMENT_STATUS_LABELS[shipment.status],
+        formatDate(shipment.deliveredAt),
+        shipment.deliveryLocation || '',
+      ]),
+    });
+  }
+  return { title: 'Fulfillment & Tracking', blocks };
+};
+
+const communicationExhibit = (order: Order): Omit<PacketExhibit, 'label'> | null => {
+  const notes = columnsMatching(order, /note|message|comment/i);
+  if (notes.length === 0) return null;
+  return {
+    title: 'Communication Log',
+    blocks: notes.map(([key, value]) => ({ type: 'text' as const, text: `${key}:\n${value}` })),
+  };
+};
+
+const attachmentExhibit = (attachment: PacketAttachment): Omit<PacketExhibit, 'label'> => {
+  const title = `${attachment.label}: ${attachment.name}`;
+  if (attachment.mimeType === 'image/png' || attachment.mimeType === 'image/jpeg') {
+    return { title, blocks: [{ type: 'image', data: attachment.data, format: attachment.mimeType === 'image/png' ? 'PNG' : 'JPEG' }] };
+  }
+  if (attachment.mimeType.startsWith('text/')) {
+    return { title, blocks: [{ type: 'text', text: new TextDecoder().decode(attachment.data) }] };
+  }
+  const size = `${Math.max(1, Math.round(attachment.data.length / 1024))} KB`;
+  return { title, blocks: [{ type: 'notice', text: `${attachment.name} (${attachment.mimeType || 'file'}, ${size}) is submitted alongside this packet as a separate file.` }] };
+};
+
+export const assembleEvidencePacket = (
+  order: Order,
+  letter: string,
+  attachments: PacketAttachment[] = [],
+  merchantName?: string
+): EvidencePacketContent => {
+  const dispute = order.dispute;
+  const sections = [
+    orderSummaryExhibit(order),
+    customerExhibit(order),
+    fulfillmentExhibit(order),
+    communicationExhibit(order),
+    ...attachments.map(attachmentExhibit),
+  ].filter((section): section is Omit<PacketExhibit, 'label'> => section !== null);
+
+  return {
+    title: 'Chargeback Evidence Packet',
+    cover: present([
+      ['Merchant', merchantName],
+      ['Order', order.id],
+      ['Dispute ID', dispute?.id],
+      ['Reason', dispute ? formatDisputeReason(dispute.reason) : undefined],
+      ['Network reason code', dispute?.networkReasonCode],
+      ['Disputed amount', dispute ? formatMoney(dispute.amount, dispute.currency) : undefined],
+      ['Status', getDisputeStatus(order)],
+      ['Evidence due', formatDate(dispute?.evidenceDueBy)],
+      ['Prepared', formatDate(new Date().toISOString())],
+    ]),
+    letter,
+    exhibits: sections.map((section, i) => ({ ...section, label: exhibitLabel(i) })),
+  };
+};
+
+// --- PDF LAYOUT ---
+
+const PAGE = { width: 612, height: 792, margin: 54 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const LINE_HEIGHT = 14;
+const BODY_SIZE = 10;
+
+interface Cursor {
+  doc: jsPDF;
+  y: number;
+}
+
+const newPage = (cursor: Cursor) => {
+  cursor.doc.addPage();
+  cursor.y = PAGE.margin + 20;
+};
+
+const ensureSpace = (cursor: Cursor, height: number) => {
+  if (cursor.y + height > PAGE.height - PAGE.margin) newPage(cursor);
+};
+
+const writeLines = (cursor: Cursor, text: string, x: number, width: number) => {
+  const lines: string[] = cursor.doc.splitTextToSize(text, width);
+  lines.forEach((line) => {
+    ensureSpace(cursor, LINE_HEIGHT);
+    cursor.doc.text(line, x, cursor.y);
+    cursor.y += LINE_HEIGHT;
+  });
+};
+
+const writeHeading = (cursor: Cursor, text: string, size = 14) => {
+  ensureSpace(cursor, LINE_HEIGHT * 3);
+  cursor.doc.setFont('helvetica', 'bold').setFontSize(size);
+  cursor.doc.text(text, PAGE.margin, cursor.y);
+  cursor.y += size + 8;
+  cursor.doc.setFont('helvetica', 'normal').setFontSize(BODY_SIZE);
+};
+
+const writeFields = (cursor: Cursor, rows: Array<[string, string]>) => {
+  const keyWidth = CONTENT_WIDTH * 0.32;
+  rows.forEach(([key, value]) => {
+    const keyLines: string[] = cursor.doc.splitTextToSize(key, keyWidth - 8);
+    const valueLines: string[] = cursor.doc.splitTextToSize(value, CONTENT_WIDTH - keyWidth);
+    const height = Math.max(keyLines.length, valueLines.length) * LINE_HEIGHT;
+    ensureSpace(cursor, height);
+    cursor.doc.setTextColor(110);
+    cursor.doc.text(keyLines, PAGE.margin, cursor.y);
+    cursor.doc.setTextColor(20);
+    cursor.doc.text(valueLines, PAGE.margin + keyWidth, cursor.y);
+    cursor.y += height + 2;
+  });
+  cursor.y += 6;
+};
+
+const writeTable = (cursor: Cursor, columns: string[], rows: string[][]) => {
+  // The first column (item names) is twice as wide as the others
+  const share = CONTENT_WIDTH / (columns.length + 1);
+  const widths = columns.map((_, i) => (i === 0 ? share * 2 : share));
+  const drawRow = (cells: string[], bold: boolean) => {
+    cursor.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    const wrapped = cells.map((cell, i) => cursor.doc.splitTextToSize(cell, widths[i] - 6) as string[]);
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT;
+    ensureSpace(cursor, height + 4);
+    let x = PAGE.margin;
+    wrapped.forEach((lines, i) => {
+      cursor.doc.text(lines, x, cursor.y);
+      x += widths[i];
+    });
+    cursor.y += height;
+    cursor.doc.setDrawColor(220).line(PAGE.margin, cursor.y - LINE_HEIGHT + 4, PAGE.margin + CONTENT_WIDTH, cursor.y - LINE_HEIGHT + 4);
+    cursor.y += 4;
+  };
+  drawRow(columns, true);
+  rows.forEach((row) => drawRow(row, false));
+  cursor.doc.setFont('helvetica', 'normal');
+  cursor.y += 8;
+};
+
+const writeImage = (cursor: Cursor, data: Uint8Array, format: 'PNG' | 'JPEG') => {
+  const props = cursor.doc.getImageProperties(data);
+  const maxHeight = PAGE.height - PAGE.margin * 2 - 40;
+  const scale = Math.min(CONTENT_WIDTH / props.width, maxHeight / props.height, 1);
+  const width = props.width * scale;
+  const height = props.height * scale;
+  ensureSpace(cursor, height);
+  cursor.doc.addImage(data, format, PAGE.margin, cursor.y, width, height);
+  cursor.y += height + 12;
+};
+
+const writeBlock = (cursor: Cursor, block: PacketBlock) => {
+  switch (block.type) {
+    case 'fields':
+      writeFields(cursor, block.rows);
+      break;
+    case 'table':
+      writeTable(cursor, block.columns, block.rows);
+      break;
+    case 'text':
+      writeLines(cursor, block.text, PAGE.margin, CONTENT_WIDTH);
+      cursor.y += 6;
+      break;
+    case 'image':
+      try {
+        writeImage(cursor, block.data, block.format);
+      } catch {
+        writeLines(cursor, 'This image could not be embedded and is submitted as a separate file.', PAGE.margin, CONTENT_WIDTH);
+      }
+      break;
+    case 'notice':
+      cursor.doc.setFont('helvetica', 'italic');
+      writeLines(cursor, block.text, PAGE.margin, CONTENT_WIDTH);
+      cursor.doc.setFont('helvetica', 'normal');
+      cursor.y += 6;
+      break;
+  }
+};
+
+/**
+ * Page 1 is the cover; its table of contents is filled in last, once the
+ * page each section starts on is known.
+ */
+export const renderEvidencePacketPdf = (content: EvidencePacketContent, orderId: string): { blob: Blob; pageCount: number } => {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const cursor: Cursor = { doc, y: PAGE.margin };
+  const contents: Array<[string, number]> = [];
+
+  newPage(cursor);
+  contents.push(['Response Letter', doc.getNumberOfPages()]);
+  writeHeading(cursor, 'Response Letter');
+  writeLines(cursor, content.letter, PAGE.margin, CONTENT_WIDTH);
+
+  content.exhibits.forEach((exhibit) => {
+    newPage(cursor);
+    const heading = `Exhibit ${exhibit.label}: ${exhibit.title}`;
+    contents.push([heading, doc.getNumberOfPages()]);
+    writeHeading(cursor, heading);
+    exhibit.blocks.forEach((block) => writeBlock(cursor, block));
+  });
+
+  // Cover page
+  doc.setPage(1);
+  cursor.y = PAGE.margin + 60;
+  doc.setFont('helvetica', 'bold').setFontSize(22);
+  doc.text(content.title, PAGE.margin, cursor.y);
+  cursor.y += 40;
+  doc.setFont('helvetica', 'normal').setFontSize(BODY_SIZE);
+  writeFields(cursor, content.cover);
+  cursor.y += 20;
+  doc.setFont('helvetica', 'bold').setFontSize(12);
+  doc.text('Contents', PAGE.margin, cursor.y);
+  cursor.y += 20;
+  doc.setFont('helvetica', 'normal').setFontSize(BODY_SIZE);
+  contents.forEach(([title, page]) => {
+    doc.text(title, PAGE.margin, cursor.y);
+    doc.text(String(page), PAGE.margin + CONTENT_WIDTH, cursor.y, { align: 'right' });
+    cursor.y += LINE_HEIGHT + 2;
+  });
+
+  // Running header and page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8).setTextColor(130);
+    if (page > 1) doc.text(`Order ${orderId} · ${content.title}`, PAGE.margin, PAGE.margin - 10);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - PAGE.margin / 2, { align: 'right' });
+    doc.setTextColor(20);
+  }
+
+  return { blob: doc.output('blob'), pageCount };
+};
+
+// --- STORAGE ---
+
+/**
+ * Uploads a packet and records it against the order's dispute.
+ */
+export const saveEvidencePacket = async (
+  order: Order,
+  blob: Blob,
+  exhibitCount: number,
+  pageCount: number
+): Promise<EvidencePacket> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const createdAt = new Date().toISOString();
+  const path = evidencePath(user.id, order.id, 'packets', `${createdAt.replace(/[:.]/g, '-')}.pdf`);
+
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, blob, { contentType: 'application/pdf' });
+  if (uploadError) throw new Error(`Storage Error: ${uploadError.message}`);
+
+  const { data, error } = await supabase
+    .from('evidence_packets')
+    .insert({
+      user_id: user.id,
+      order_id: order.id,
+      dispute_id: order.dispute?.id || null,
+      file_path: path,
+      exhibit_count: exhibitCount,
+      page_count: pageCount,
+      created_by: user.email || user.id,
+      created_at: createdAt,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as EvidencePacket;
+};
+
+export const fetchEvidencePackets = async (orderId: string): Promise<EvidencePacket[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('evidence_packets')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching evidence packets:', error);
+    return [];
+  }
+
+  return data as EvidencePacket[];
+};
+
+/**
+ * The order's uploaded attachments, downloaded and ready to become exhibits.
+ */
+export const loadPacketAttachments = async (orderId: string): Promise<PacketAttachment[]> => {
+  const attachments = await fetchAttachments(orderId);
+  return Promise.all(attachments.map(async (attachment) => ({
+    name: attachment.file_name,
+    label: EVIDENCE_TYPE_LABELS[attachment.evidence_type] || attachment.evidence_type,
+    mimeType: attachment.mime_type,
+    data: await downloadAttachment(attachment),
+  })));
+};
+
+export const packetFileName = (orderId: string) => `evidence-${orderId.replace(/[^A-Za-z0-9_-]/g, '')}.pdf`;
@@ -0,0 +1,56 @@
+// src/services/evidenceStorage.ts
+import { supabase } from '../lib/supabase';
+
+/**
+ * EVIDENCE STORAGE:
+ * Packets and other dispute evidence live in the private 'evidence' bucket
+ * under `<user id>/<order>/...`, so storage policies can tie every object to
+ * its owner by the first path segment.
+ */
+
+export const EVIDENCE_BUCKET = 'evidence';
+
+// Signed links stay valid long enough to open or download the file
+const SIGNED_URL_SECONDS = 60 * 60;
+const LIST_PAGE_SIZE = 1000;
+const REMOVE_CHUNK_SIZE = 500;
+
+// Order numbers like "#1001" are not safe in object keys
+const safeSegment = (value: string) => value.replace(/[^A-Za-z0-9._-]/g, '_') || '_';
+
+export const evidencePath = (userId: string, orderId: string, ...parts: string[]): string =>
+  [userId, safeSegment(orderId), ...parts.map(safeSegment)].join('/');
+
+export const getEvidenceUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error || !data) throw new Error(`Storage Error: ${error?.message || 'Could not create a link.'}`);
+  return data.signedUrl;
+};
+
+// Every object under a prefix; list() returns folders without an id
+const listObjects = async (prefix: string): Promise<string[]> => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).list(prefix, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw new Error(`Storage Error: ${error.message}`);
+    for (const item of data || []) {
+      const path = `${prefix}/${item.name}`;
+      if (item.id) paths.push(path);
+      else paths.push(...(await listObjects(path)));
+    }
+    if (!data || data.length < LIST_PAGE_SIZE) return paths;
+  }
+};
+
+/**
+ * Deletes every evidence file the user owns, i.e. everything under
+ * `<user id>/`. Returns how many objects were removed.
+ */
+export const removeUserEvidence = async (userId: string): Promise<number> => {
+  const paths = await listObjects(userId);
+  for (let i = 0; i < paths.length; i += REMOVE_CHUNK_SIZE) {
+    const { error } = await supabase.storage.from(EVIDENCE_BUCKET).remove(paths.slice(i, i + REMOVE_CHUNK_SIZE));
+    if (error) throw new Error(`Storage Error: ${error.message}`);
+  }
+  return paths.length;
+};
@@ -0,0 +1,79 @@
+// src/services/importProfileService.ts
+import { supabase } from '../lib/supabase';
+import { ImportProfile, ColumnMapping } from '../types';
+import { headerSignature } from './csvColumns';
+
+/**
+ * IMPORT PROFILES:
+ * A named column mapping saved per user in the `import_profiles` table,
+ * keyed by the header signature of the file it was made for. Uploading a file
+ * with the same headers (in any order) picks the profile up automatically.
+ */
+
+export const findProfileForHeaders = (profiles: ImportProfile[], headers: string[]): ImportProfile | null => {
+  const signature = headerSignature(headers);
+  const matches = profiles.filter((p) => p.header_signature === signature);
+  // Most recently saved wins if several were made for the same layout
+  return matches.sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0] || null;
+};
+
+export const fetchImportProfiles = async (): Promise<ImportProfile[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching import profiles:', error);
+    return [];
+  }
+
+  return data as ImportProfile[];
+};
+
+/**
+ * Creates a profile, or updates it when `id` is given.
+ */
+export const saveImportProfile = async (
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  id?: string
+): Promise<ImportProfile> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const now = new Date().toISOString();
+  const fields = {
+    name: name.trim(),
+    header_signature: headerSignature(headers),
+    mapping,
+    updated_at: now,
+  };
+
+  const query = id
+    ? supabase.from('import_profiles').update(fields).eq('user_id', user.id).eq('id', id)
+    : supabase.from('import_profiles').insert({ ...fields, user_id: user.id, created_at: now });
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as ImportProfile;
+};
+
+export const deleteImportProfile = async (id: string): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('import_profiles')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('id', id);
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
@@ -0,0 +1,242 @@
+// src/services/letterQueueService.ts
+import { Order, DisputeStatus, LetterQueue, LetterJob, LetterJobStatus, RebuttalTemplate } from '../types';
+import { getDisputeStatus, saveDisputeDraft, fetchSavedDisputesForOrder } from './disputeService';
+import { generateChargebackResponse } from './letterService';
+import { LlmProvider, LlmError, LlmErrorCode } from './llmService';
+import { fetchAttachments } from './attachmentService';
+import { renderLetterForOrder } from './templateService';
+import { fetchDraftVersions, recordDraftVersion } from './draftService';
+import { buildEvidenceInventory, validateLetterClaims } from './evidenceInventoryService';
+
+/**
+ * BULK LETTER QUEUE:
+ * Drafts letters for many chargebacks at once. A few workers pull jobs in
+ * order; rate limits and network errors are retried with exponential
+ * backoff, a missing or rejected API key halts the whole run. Every change
+ * is written to localStorage, so after a reload the queue reappears and
+ * Resume carries on with whatever had not finished.
+ *
+ * Letters that pass the evidence check are saved as the order's draft (and
+ * as an AI version). Letters with flagged claims are held in the queue for a
+ * person to review in the rebuttal editor, like a single generated letter.
+ */
+
+export const LETTER_QUEUE_CONCURRENCY = 3;
+export const MAX_LETTER_ATTEMPTS = 5;
+const BASE_RETRY_MS = 2000;
+// Idle workers re-check this often, so Pause takes effect during long waits
+const POLL_MS = 500;
+
+const RETRYABLE: LlmErrorCode[] = ['rate_limited', 'network'];
+const HALTING: LlmErrorCode[] = ['missing_key', 'invalid_key'];
+
+export const LETTER_JOB_LABELS: Record<LetterJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Drafting',
+  retrying: 'Waiting to retry',
+  saved: 'Draft saved',
+  review: 'Needs review',
+  opened: 'Opened for review',
+  failed: 'Failed',
+};
+
+export type LetterJobResult =
+  | { status: 'saved' }
+  | { status: 'review'; text: string; flaggedClaims: number };
+
+// Needs Response chargebacks that are not quarantined
+export const isLetterQueueEligible = (order: Order): boolean =>
+  getDisputeStatus(order) === DisputeStatus.NEEDS_RESPONSE && order.import_category !== 'INVALID';
+
+export const isLetterJobPending = (job: LetterJob): boolean =>
+  job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+export const isLetterQueueActive = (queue: LetterQueue | null): boolean =>
+  !!queue && queue.jobs.some(isLetterJobPending);
+
+export const letterQueueCounts = (queue: LetterQueue): Record<LetterJobStatus, number> => {
+  const counts = { queued: 0, running: 0, retrying: 0, saved: 0, review: 0, opened: 0, failed: 0 };
+  queue.jobs.forEach((job) => { counts[job.status]++; });
+  return counts;
+};
+
+export const retryDelay = (attempts: number): number => BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1);
+
+const stamp = (job: LetterJob, patch: Partial<LetterJob>): LetterJob => ({ ...job, ...patch, updatedAt: new Date().toISOString() });
+
+const queuedJob = (orderId: string): LetterJob => ({ orderId, status: 'queued', attempts: 0, updatedAt: new Date().toISOString() });
+
+/**
+ * Adds orders to the queue, starting a new one when there is none. Orders
+ * already waiting keep their place; finished ones are queued again.
+ */
+export const enqueueLetters = (queue: LetterQueue | null, orderIds: string[]): LetterQueue => {
+  const jobs = queue ? [...queue.jobs] : [];
+  Array.from(new Set(orderIds)).forEach((orderId) => {
+    const index = jobs.findIndex((job) => job.orderId === orderId);
+    if (index === -1) jobs.push(queuedJob(orderId));
+    else if (!isLetterJobPending(jobs[index])) jobs[index] = queuedJob(orderId);
+  });
+  return {
+    id: queue?.id || `letters-${Date.now().toString(36)}`,
+    createdAt: queue?.createdAt || new Date().toISOString(),
+    jobs,
+  };
+};
+
+export const retryFailedLetters = (queue: LetterQueue): LetterQueue => ({
+  ...queue,
+  haltedReason: undefined,
+  jobs: queue.jobs.map((job) => (job.status === 'failed' ? stamp(job, { status: 'queued', attempts: 0, error: undefined }) : job)),
+});
+
+export const markLetterOpened = (queue: LetterQueue, orderId: string): LetterQueue => ({
+  ...queue,
+  jobs: queue.jobs.map((job) => (job.orderId === orderId ? stamp(job, { status: 'opened', text: undefined }) : job)),
+});
+
+// --- PERSISTENCE ---
+
+const queueKey = (userId: string) => `fraudguard:letter-queue:${userId}`;
+
+/**
+ * Jobs that were mid-flight when the page went away are queued again; their
+ * attempt count is kept so a flaky order still gives up eventually.
+ */
+export const loadLetterQueue = (userId: string): LetterQueue | null => {
+  try {
+    const raw = localStorage.getItem(queueKey(userId));
+    if (!raw) return null;
+    const queue = JSON.parse(raw) as LetterQueue;
+    return {
+      ...queue,
+      jobs: queue.jobs.map((job) => (job.status === 'running' ? { ...job, status: 'queued' as const } : job)),
+    };
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveLetterQueue = (userId: string, queue: LetterQueue) => {
+  localStorage.setItem(queueKey(userId), JSON.stringify(queue));
+};
+
+export const clearLetterQueue = (userId: string) => {
+  localStorage.removeItem(queueKey(userId));
+};
+
+// --- RUNNER ---
+
+export interface LetterQueueRunner {
+  // Workers finish the letter they are on, then stop
+  stop: () => void;
+  // Applies a change made outside the run, e.g. a review letter being opened
+  edit: (change: (queue: LetterQueue) => LetterQueue) => void;
+  done: Promise<LetterQueue>;
+}
+
+export interface RunLetterQueueOptions {
+  draft: (orderId: string) => Promise<LetterJobResult>;
+  // Called with a new queue object after every change
+  onChange: (queue: LetterQueue) => void;
+  concurrency?: number;
+}
+
+export const runLetterQueue = (
+  initial: LetterQueue,
+  { draft, onChange, concurrency = LETTER_QUEUE_CONCURRENCY }: RunLetterQueueOptions
+): LetterQueueRunner => {
+  let queue: LetterQueue = { ...initial, haltedReason: undefined };
+  let stopped = false;
+
+  const update = (orderId: string, patch: Partial<LetterJob>, queuePatch: Partial<LetterQueue> = {}) => {
+    queue = {
+      ...queue,
+      ...queuePatch,
+      jobs: queue.jobs.map((job) => (job.orderId === orderId ? stamp(job, patch) : job)),
+    };
+    onChange(queue);
+  };
+
+  // Claiming is synchronous, so two workers never take the same job
+  const claimNext = (): LetterJob | null => {
+    const now = Date.now();
+    const job = queue.jobs.find((j) => j.status === 'queued' || (j.status === 'retrying' && (j.retryAt || 0) <= now));
+    if (!job) return null;
+    update(job.orderId, { status: 'running', attempts: job.attempts + 1, retryAt: undefined });
+    return queue.jobs.find((j) => j.orderId === job.orderId) || null;
+  };
+
+  const runJob = async (job: LetterJob) => {
+    try {
+      const result = await draft(job.orderId);
+      update(job.orderId, result.status === 'saved'
+        ? { status: 'saved', error: undefined }
+        : { status: 'review', error: undefined, text: result.text, flaggedClaims: result.flaggedClaims });
+    } catch (error: any) {
+      const code = error instanceof LlmError ? error.code : null;
+      const message = error?.message || 'Letter generation failed.';
+      if (code && HALTING.includes(code)) {
+        // Not this order's fault: put it back and stop everything
+        stopped = true;
+        update(job.orderId, { status: 'queued', attempts: job.attempts - 1, error: undefined }, { haltedReason: message });
+      } else if (code && RETRYABLE.includes(code) && job.attempts < MAX_LETTER_ATTEMPTS) {
+        update(job.orderId, { status: 'retrying', retryAt: Date.now() + retryDelay(job.attempts), error: message });
+      } else {
+        update(job.orderId, { status: 'failed', error: message });
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped) {
+      const job = claimNext();
+      if (job) {
+        await runJob(job);
+        continue;
+      }
+      const waiting = queue.jobs.filter((j) => j.status === 'retrying');
+      if (waiting.length === 0) return;
+      const wakeAt = Math.min(...waiting.map((j) => j.retryAt || 0));
+      await new Promise((res) => setTimeout(res, Math.min(Math.max(wakeAt - Date.now(), 50), POLL_MS)));
+    }
+  };
+
+  onChange(queue);
+  const done = Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker)).then(() => queue);
+  return {
+    stop: () => { stopped = true; },
+    edit: (change) => {
+      queue = change(queue);
+      onChange(queue);
+    },
+    done,
+  };
+};
+
+// --- DRAFTING ---
+
+export interface QueuedLetterContext {
+  provider: LlmProvider;
+  templates: RebuttalTemplate[];
+  merchantName?: string;
+}
+
+/**
+ * One queue job: the same letter a single "Draft Rebuttal" click produces.
+ * A rebuttal that was already submitted is never overwritten.
+ */
+export const draftQueuedLetter = async (order: Order, { provider, templates, merchantName }: QueuedLetterContext): Promise<LetterJobResult> => {
+  const [saved, attachments] = await Promise.all([fetchSavedDisputesForOrder(order.id), fetchAttachments(order.id)]);
+  if (saved[0]?.status === 'Submitted') throw new Error('The rebuttal for this order was already submitted.');
+
+  const template = renderLetterForOrder(templates, { order, attachments, merchantName });
+  const text = await generateChargebackResponse(order, provider, { attachments, draft: template.text });
+
+  const flaggedClaims = validateLetterClaims(text, buildEvidenceInventory(order, attachments)).length;
+  if (flaggedClaims > 0) return { status: 'review', text, flaggedClaims };
+
+  await saveDisputeDraft(order.id, text, order.dispute?.id);
+  await recordDraftVersion(order.id, text, 'ai', await fetchDraftVersions(order.id));
+  return { status: 'saved' };
+};
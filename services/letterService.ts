@@ -0,0 +1,56 @@
+// src/services/letterService.ts
+import { Order, EvidenceAttachment } from '../types';
+import { formatDisputeReason } from './disputeService';
+import { buildEvidenceInventory, formatInventoryForPrompt } from './evidenceInventoryService';
+import { LlmProvider } from './llmService';
+
+export interface LetterOptions {
+  attachments?: EvidenceAttachment[];
+  // The user's template for the dispute reason, already filled in; the
+  // model polishes it rather than starting from nothing
+  draft?: string;
+}
+
+export const buildChargebackPrompt = (order: Order, { attachments = [], draft }: LetterOptions = {}): string => {
+  // Everything the letter may rely on; validateLetterClaims checks the result against the same list
+  const inventory = buildEvidenceInventory(order, attachments);
+
+  // Construct a context-aware prompt
+  return `
+    Act as a Legal Specialist for an E-commerce Merchant.
+    A chargeback has been initiated for the following order.
+    Please write a formal dispute response letter to the Payment Processor (e.g., Stripe/Shopify Payments).
+    
+    OBJECTIVE:
+    Show that the charge was valid by answering the specific dispute reason below.
+    
+    DISPUTE:
+    - Dispute Reason: ${order.dispute ? formatDisputeReason(order.dispute.reason) : 'Not provided'}${order.dispute?.networkReasonCode ? ` (network code ${order.dispute.networkReasonCode})` : ''}
+    - Disputed Amount: ${order.dispute ? `${order.dispute.amount} ${order.dispute.currency}` : 'Not provided'}
+
+    EVIDENCE INVENTORY (the only facts you may state; attachments are submitted with the letter):
+${formatInventoryForPrompt(inventory)}
+${draft ? `
+    DRAFT LETTER (the merchant's template for this dispute reason; drop any sentence the inventory does not support):
+${draft}
+` : ''}
+    INSTRUCTIONS:
+    1. Start with a formal header.
+    2. State clearly that we are contesting the dispute for Order ${order.id}.
+    3. Argue against the stated dispute reason${draft ? ', following the structure of the DRAFT LETTER' : ''}.
+    4. Only state facts listed in the EVIDENCE INVENTORY. If a kind of evidence is not listed (AVS or CVV result, tracking, delivery confirmation, customer communication, refund policy, IP or device data, order history), do not mention it at all.
+    5. Refer to each attachment by file name where it supports a point. Do not print the [E1] style item ids.
+    6. Conclude politely requesting the funds be returned.
+    7. Keep it professional, concise, and persuasive. Do NOT include placeholders like [Insert Date], use the data provided.
+  `;
+};
+
+/**
+ * Throws LlmError when the provider fails; the result is always letter text.
+ */
+export const generateChargebackResponse = async (
+  order: Order,
+  provider: LlmProvider,
+  options: LetterOptions = {}
+): Promise<string> =>
+  provider.generate({ prompt: buildChargebackPrompt(order, options), reference: options.draft });
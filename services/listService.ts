@@ -0,0 +1,230 @@
+// src/services/listService.ts
+import { supabase } from '../lib/supabase';
+import { Order, ListEntry, ListEntryKind, ListType } from '../types';
+import { normalizeEmail, normalizeAddress, shippingAddressKey } from './customerService';
+import { RiskSignal } from './riskService';
+
+/**
+ * BLOCK / ALLOW LISTS:
+ * Entries are stored per user in the `list_entries` table. Values are
+ * normalized on the way in with the same rules used for orders, so an entry
+ * for "John.Doe+x@gmail.com" matches orders from "johndoe@gmail.com".
+ *
+ * During classification a blocklist match is a risk signal that pushes the
+ * order to high risk; an allowlist match (with no blocklist match) clears the
+ * order's risk flags.
+ */
+
+export const LIST_KIND_LABELS: Record<ListEntryKind, string> = {
+  email: 'Email',
+  address: 'Shipping address',
+  ip: 'IP address',
+  card_bin: 'Card BIN',
+  card_last4: 'Card last 4',
+};
+
+const IP_COLUMNS = ['Browser IP', 'Client IP', 'IP Address', 'Customer IP'];
+const BIN_COLUMNS = ['Card BIN', 'Credit Card BIN', 'Payment Card BIN', 'BIN'];
+const LAST4_COLUMNS = ['Card Last4', 'Card Last 4', 'Credit Card Last4', 'Payment Card Last4', 'Last 4'];
+const CARD_NUMBER_COLUMNS = ['Credit Card Number', 'Card Number', 'Payment Card Number'];
+
+const BLOCKLIST_POINTS = 100;
+
+const column = (order: Order, names: string[]): string => {
+  for (const name of names) {
+    const value = order.additional_data?.[name];
+    if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+  }
+  return '';
+};
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * Normalizes a value typed into the list manager. Addresses are entered as
+ * "street, postal code, country". Returns null when the value cannot match anything.
+ */
+export const normalizeListValue = (kind: ListEntryKind, raw: string): string | null => {
+  const value = raw.trim();
+  switch (kind) {
+    case 'email':
+      return normalizeEmail(value);
+    case 'address': {
+      const [street, zip, country] = value.split(',').map((part) => part.trim());
+      return normalizeAddress(street, zip, country);
+    }
+    case 'ip':
+      return value ? value.toLowerCase() : null;
+    case 'card_bin': {
+      const bin = digits(value);
+      return bin.length >= 6 && bin.length <= 8 ? bin : null;
+    }
+    case 'card_last4': {
+      const last4 = digits(value);
+      return last4.length === 4 ? last4 : null;
+    }
+  }
+};
+
+/**
+ * The values an order offers for each kind, read from its customer and the
+ * export columns in additional_data. Missing values are left out.
+ */
+export const orderListValues = (order: Order): Partial<Record<ListEntryKind, string>> => {
+  const values: Partial<Record<ListEntryKind, string>> = {};
+
+  const email = normalizeEmail(order.customer?.email);
+  if (email) values.email = email;
+
+  const address = shippingAddressKey(order);
+  if (address) values.address = address;
+
+  const ip = column(order, IP_COLUMNS).toLowerCase();
+  if (ip) values.ip = ip;
+
+  const cardNumber = digits(column(order, CARD_NUMBER_COLUMNS));
+  const bin = digits(column(order, BIN_COLUMNS)) || (cardNumber.length >= 12 ? cardNumber.slice(0, 6) : '');
+  if (bin.length >= 6 && bin.length <= 8) values.card_bin = bin;
+
+  const last4 = digits(column(order, LAST4_COLUMNS)) || cardNumber;
+  if (last4.length >= 4) values.card_last4 = last4.slice(-4);
+
+  return values;
+};
+
+export const isEntryActive = (entry: ListEntry, now: Date = new Date()): boolean => {
+  return !entry.expires_at || Date.parse(entry.expires_at) > now.getTime();
+};
+
+const entryMatches = (entry: ListEntry, values: Partial<Record<ListEntryKind, string>>): boolean => {
+  const value = values[entry.kind];
+  if (!value) return false;
+  // A BIN entry may be shorter than the order's BIN (6 vs 8 digits), never
+  // shorter than 6: a stray "4" must not match every Visa card
+  if (entry.kind === 'card_bin') {
+    if (entry.value.length < 6 || value.length < 6) return false;
+    return value.startsWith(entry.value) || entry.value.startsWith(value);
+  }
+  return value === entry.value;
+};
+
+export const matchListEntries = (order: Order, entries: ListEntry[], now: Date = new Date()): ListEntry[] => {
+  const values = orderListValues(order);
+  return entries.filter((entry) => isEntryActive(entry, now) && entryMatches(entry, values));
+};
+
+const describeEntry = (entry: ListEntry) =>
+  `${LIST_KIND_LABELS[entry.kind]} ${entry.label}${entry.reason ? ` (${entry.reason})` : ''}`;
+
+/**
+ * Blocklist matches as a risk signal, so they show in the score and reasons.
+ */
+export const blocklistSignals = (entries: ListEntry[]): RiskSignal[] => {
+  const blocked = entries.filter((entry) => entry.list === 'block');
+  if (blocked.length === 0) return [];
+  return [{
+    id: 'blocklist',
+    label: 'On blocklist',
+    evaluate: (order) => {
+      const hits = matchListEntries(order, blocked);
+      return hits.length > 0 ? { points: BLOCKLIST_POINTS, detail: hits.map(describeEntry).join('; ') } : null;
+    },
+  }];
+};
+
+/**
+ * Clears risk flags on allowlisted orders. A blocklist match always wins.
+ * Runs after scoring.
+ */
+export const applyAllowlist = (orders: Order[], entries: ListEntry[]): Order[] => {
+  const allowed = entries.filter((entry) => entry.list === 'allow');
+  if (allowed.length === 0) return orders;
+
+  return orders.map((order) => {
+    if (order.import_category === 'INVALID') return order;
+    const hits = matchListEntries(order, allowed);
+    if (hits.length === 0 || order.risk_reasons?.some((r) => r.signal === 'blocklist')) return order;
+
+    // A rule-assigned "High Risk" category is a risk flag too
+    const ruleRisk = order.import_category === 'RISK' && order.category_source === 'rule';
+    return {
+      ...order,
+      import_category: ruleRisk ? 'AUTO' : order.import_category,
+      category_source: ruleRisk ? undefined : order.category_source,
+      risk_score: 0,
+      risk_category: 'Normal',
+      risk_reasons: [{ signal: 'allowlist', label: 'On allowlist', points: 0, detail: hits.map(describeEntry).join('; ') }],
+      isHighRisk: false,
+    };
+  });
+};
+
+// --- PERSISTENCE ---
+
+export const fetchListEntries = async (): Promise<ListEntry[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('list_entries')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching list entries:', error);
+    return [];
+  }
+
+  return data as ListEntry[];
+};
+
+export const addListEntry = async (
+  list: ListType,
+  kind: ListEntryKind,
+  rawValue: string,
+  reason: string,
+  expiresAt?: string | null
+): Promise<ListEntry> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const value = normalizeListValue(kind, rawValue);
+  if (!value) {
+    throw new Error(kind === 'address'
+      ? 'Enter the address as "street, postal code, country".'
+      : `"${rawValue}" is not a valid ${LIST_KIND_LABELS[kind].toLowerCase()}.`);
+  }
+
+  const { data, error } = await supabase
+    .from('list_entries')
+    .insert({
+      user_id: user.id,
+      list,
+      kind,
+      value,
+      label: rawValue.trim(),
+      reason: reason.trim(),
+      expires_at: expiresAt || null,
+      added_by: user.email || user.id,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as ListEntry;
+};
+
+export const deleteListEntry = async (id: string): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('list_entries')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('id', id);
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
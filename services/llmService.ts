@@ -0,0 +1,111 @@
+// src/services/llmService.ts
+import { GoogleGenAI, ApiError } from "@google/genai";
+
+/**
+ * LLM PROVIDERS:
+ * Letter generation talks to a provider, never to an SDK directly.
+ *   - gemini  Google Gemini, with the user's saved API key or the build-time
+ *             API_KEY as a fallback
+ *   - stub    deterministic and offline: echoes the request's reference text
+ *             (e.g. the filled-in template letter), for tests and demos
+ * Failures throw LlmError with a code the UI can act on; a provider never
+ * returns an error message as if it were generated text.
+ */
+
+export type LlmProviderId = 'gemini' | 'stub';
+
+export type LlmErrorCode = 'missing_key' | 'invalid_key' | 'rate_limited' | 'empty_response' | 'network' | 'unknown';
+
+export class LlmError extends Error {
+  code: LlmErrorCode;
+
+  constructor(code: LlmErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LlmError';
+    this.code = code;
+  }
+}
+
+export interface LlmRequest {
+  prompt: string;
+  // Plain-text starting point; the stub returns it as its answer
+  reference?: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  generate: (request: LlmRequest) => Promise<string>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  stub: 'Offline stub (no AI)',
+};
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const envApiKey = (): string => import.meta.env.VITE_API_KEY || process.env.API_KEY || '';
+
+const geminiError = (error: any): LlmError => {
+  if (error instanceof LlmError) return error;
+  const status = error instanceof ApiError ? error.status : undefined;
+  const message = String(error?.message || '');
+  if (status === 429 || message.includes('429')) {
+    return new LlmError('rate_limited', 'Gemini rate limit exceeded. Please try again in a moment.', { cause: error });
+  }
+  if ((status === 400 && /api key/i.test(message)) || status === 401 || status === 403 || message.includes('401')) {
+    return new LlmError('invalid_key', 'Gemini rejected the API key. Check it in Store Settings.', { cause: error });
+  }
+  if (error instanceof TypeError) {
+    return new LlmError('network', 'Could not reach Gemini. Check your connection.', { cause: error });
+  }
+  return new LlmError('unknown', `Gemini request failed: ${message || 'unknown error'}`, { cause: error });
+};
+
+export const createGeminiProvider = (apiKey?: string): LlmProvider => {
+  const key = apiKey?.trim() || envApiKey();
+  const ai = key ? new GoogleGenAI({ apiKey: key }) : null;
+
+  return {
+    id: 'gemini',
+    label: LLM_PROVIDER_LABELS.gemini,
+    generate: async ({ prompt }) => {
+      if (!ai) {
+        throw new LlmError('missing_key', 'No Gemini API key. Add one in Store Settings, or choose the offline stub.');
+      }
+      let text: string | undefined;
+      try {
+        const response = await ai.models.generateContent({ model: GEMINI_MODEL, contents: prompt });
+        text = response.text;
+      } catch (error) {
+        console.error("Gemini Error:", error);
+        throw geminiError(error);
+      }
+      if (!text?.trim()) throw new LlmError('empty_response', 'Gemini returned an empty response.');
+      return text;
+    },
+  };
+};
+
+// FNV-1a; only needs to be stable, not secure
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const createStubProvider = (): LlmProvider => ({
+  id: 'stub',
+  label: LLM_PROVIDER_LABELS.stub,
+  generate: async ({ prompt, reference }) => {
+    if (reference?.trim()) return reference;
+    return `Offline stub response ${hashText(prompt)}. No model was called.`;
+  },
+});
+
+export const createLlmProvider = (id: LlmProviderId, apiKey?: string): LlmProvider =>
+  id === 'stub' ? createStubProvider() : createGeminiProvider(apiKey);
@@ -0,0 +1,199 @@
+// src/services/orderTimelineService.ts
+import { Order, Alert, SavedDispute, AuditEntry, DisputeStatus, EvidencePacket, EvidenceAttachment } from '../types';
+import { groupAuditEntries, AUDIT_SOURCE_LABELS } from './auditService';
+import { formatDisputeReason, getDisputeStatus } from './disputeService';
+import { EVIDENCE_TYPE_LABELS } from './attachmentService';
+
+/**
+ * ORDER TIMELINE:
+ * Everything known about one order, merged into a single list ordered by
+ * time: when it was placed, the customer's other orders and chargebacks,
+ * each dispute status change, shipments and deliveries, saved rebuttal
+ * drafts, evidence packets and attachments, alerts raised for it and every
+ * audit log entry. Pure; the drawer loads the inputs.
+ */
+
+export type TimelineKind = 'order' | 'linked_order' | 'dispute' | 'shipment' | 'draft' | 'packet' | 'attachment' | 'alert' | 'audit';
+
+export interface TimelineEvent {
+  key: string;
+  kind: TimelineKind;
+  // ISO timestamp; null when the source has no usable date
+  at: string | null;
+  title: string;
+  detail?: string;
+  // Another order the event belongs to (linked orders)
+  orderId?: string;
+  // Audit entries behind an 'audit' event
+  audit?: AuditEntry[];
+}
+
+export interface TimelineInputs {
+  order: Order;
+  // The customer's other orders (from customer linking)
+  linkedOrders: Order[];
+  drafts: SavedDispute[];
+  packets: EvidencePacket[];
+  attachments: EvidenceAttachment[];
+  alerts: Alert[];
+  audit: AuditEntry[];
+}
+
+const toIso = (value?: string | null): string | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const orderPlacedAt = (order: Order) => toIso(order.created_at) || toIso(order.date);
+
+/**
+ * Alerts carry the order in their details (deadline alerts) as JSON text.
+ */
+export const alertOrderId = (alert: Alert): string | null => {
+  if (!alert.details) return null;
+  try {
+    const details = JSON.parse(alert.details);
+    return typeof details?.order_id === 'string' ? details.order_id : null;
+  } catch {
+    return null;
+  }
+};
+
+const orderEvents = (order: Order): TimelineEvent[] => [{
+  key: `order-${order.id}`,
+  kind: 'order',
+  at: orderPlacedAt(order),
+  title: 'Order placed',
+  detail: [order.channel, order.customer?.email].filter(Boolean).join(' · '),
+}];
+
+const linkedOrderEvents = (linked: Order[]): TimelineEvent[] =>
+  linked.flatMap((other) => {
+    const events: TimelineEvent[] = [{
+      key: `linked-${other.id}`,
+      kind: 'linked_order',
+      at: orderPlacedAt(other),
+      title: `Same customer placed ${other.id}`,
+      detail: other.customer?.email,
+      orderId: other.id,
+    }];
+    const status = getDisputeStatus(other);
+    if (other.dispute || status !== DisputeStatus.NONE) {
+      events.push({
+        key: `linked-dispute-${other.id}`,
+        kind: 'linked_order',
+        at: toIso(other.dispute?.openedAt) || orderPlacedAt(other),
+        title: `Chargeback on ${other.id}`,
+        detail: [other.dispute ? formatDisputeReason(other.dispute.reason) : null, status].filter(Boolean).join(' · '),
+        orderId: other.id,
+      });
+    }
+    return events;
+  });
+
+const disputeEvents = (order: Order): TimelineEvent[] => {
+  const dispute = order.dispute;
+  if (!dispute) return [];
+  return (dispute.history || []).map((entry, i) => ({
+    key: `dispute-${dispute.id}-${i}`,
+    kind: 'dispute' as const,
+    at: toIso(entry.at),
+    title: entry.previousStatus ? `Dispute ${entry.previousStatus} → ${entry.status}` : `Dispute opened: ${entry.status}`,
+    detail: [formatDisputeReason(dispute.reason), entry.source.replace(/_/g, ' '), entry.note].filter(Boolean).join(' · '),
+  }));
+};
+
+const shipmentEvents = (order: Order): TimelineEvent[] =>
+  (order.shipments || []).flatMap((shipment) => {
+    const label = [shipment.carrier, shipment.trackingNumber].filter(Boolean).join(' ');
+    const events: TimelineEvent[] = [];
+    if (shipment.shippedAt) {
+      events.push({ key: `shipped-${shipment.trackingNumber}`, kind: 'shipment', at: toIso(shipment.shippedAt), title: 'Shipped', detail: label });
+    }
+    if (shipment.deliveredAt) {
+      events.push({
+        key: `delivered-${shipment.trackingNumber}`,
+        kind: 'shipment',
+        at: toIso(shipment.deliveredAt),
+        title: 'Delivered',
+        detail: [label, shipment.deliveryLocation, shipment.statusSource].filter(Boolean).join(' · '),
+      });
+    }
+    return events;
+  });
+
+const draftEvents = (drafts: SavedDispute[]): TimelineEvent[] =>
+  drafts.map((draft) => ({
+    key: `draft-${draft.id}`,
+    kind: 'draft',
+    at: toIso(draft.created_at),
+    title: `Rebuttal draft saved (${draft.status})`,
+    detail: draft.rebuttal_text,
+  }));
+
+const packetEvents = (packets: EvidencePacket[]): TimelineEvent[] =>
+  packets.map((packet) => ({
+    key: `packet-${packet.id}`,
+    kind: 'packet',
+    at: toIso(packet.created_at),
+    title: 'Evidence packet generated',
+    detail: `${packet.page_count} pages · ${packet.exhibit_count} exhibits · ${packet.created_by}`,
+  }));
+
+const attachmentEvents = (attachments: EvidenceAttachment[]): TimelineEvent[] =>
+  attachments.map((attachment) => ({
+    key: `attachment-${attachment.id}`,
+    kind: 'attachment',
+    at: toIso(attachment.created_at),
+    title: `Evidence attached: ${attachment.file_name}`,
+    detail: `${EVIDENCE_TYPE_LABELS[attachment.evidence_type] || attachment.evidence_type} · ${attachment.created_by}`,
+  }));
+
+const alertEvents = (alerts: Alert[]): TimelineEvent[] =>
+  alerts.map((alert) => ({
+    key: `alert-${alert.id}`,
+    kind: 'alert',
+    at: toIso(alert.created_at),
+    title: alert.title,
+    detail: alert.message,
+  }));
+
+const auditEvents = (audit: AuditEntry[]): TimelineEvent[] =>
+  groupAuditEntries(audit).map((event) => {
+    const first = event.entries[0];
+    return {
+      key: `audit-${event.key}`,
+      kind: 'audit',
+      at: toIso(first.created_at),
+      title: AUDIT_SOURCE_LABELS[first.source],
+      detail: first.actor,
+      audit: event.entries,
+    };
+  });
+
+/**
+ * Newest first; events without a date go last.
+ */
+export const buildOrderTimeline = ({ order, linkedOrders, drafts, packets, attachments, alerts, audit }: TimelineInputs): TimelineEvent[] => {
+  const events = [
+    ...orderEvents(order),
+    ...linkedOrderEvents(linkedOrders),
+    ...disputeEvents(order),
+    ...shipmentEvents(order),
+    ...draftEvents(drafts),
+    ...packetEvents(packets),
+    ...attachmentEvents(attachments),
+    ...alertEvents(alerts),
+    ...auditEvents(audit),
+  ];
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => {
+      if (a.event.at === b.event.at) return a.index - b.index;
+      if (!a.event.at) return 1;
+      if (!b.event.at) return -1;
+      return b.event.at.localeCompare(a.event.at);
+    })
+    .map(({ event }) => event);
+};
@@ -0,0 +1,416 @@
+// src/services/processorDisputeService.ts
+import { supabase } from '../lib/supabase';
+import {
+  Order,
+  Dispute,
+  DisputeStatus,
+  DisputeOutcome,
+  DisputeProcessor,
+  DisputeMatchMethod,
+  DisputeReviewItem,
+  ProcessorDisputeRecord,
+  ImportCategory
+} from '../types';
+import { parseCsvText } from './csvParser';
+import { normalizeHeader } from './csvColumns';
+import { parseAmount } from './csvRowCollector';
+import { normalizeEmail } from './customerService';
+import { normalizeDisputeReason, applyProcessorDispute } from './disputeService';
+
+/**
+ * PROCESSOR DISPUTE IMPORTS:
+ * Reads the Stripe disputes export and the PayPal resolution center download,
+ * and joins each dispute onto a stored order. Matching tries, in order:
+ * 1. the Shopify order number (Stripe metadata, PayPal invoice ID)
+ * 2. the charge / transaction ID found in the order's payment columns
+ * 3. customer email plus amount
+ * 4. amount plus a payment date within two days
+ * A method only counts when it finds exactly one order. Anything left over
+ * goes to the review queue (`dispute_review_queue` table) to be assigned by hand.
+ */
+
+export const PROCESSOR_LABELS: Record<DisputeProcessor, string> = {
+  stripe: 'Stripe',
+  paypal: 'PayPal',
+};
+
+export const MATCH_METHOD_LABELS: Record<DisputeMatchMethod, string> = {
+  order_number: 'order number',
+  charge_id: 'charge ID',
+  email_amount: 'email + amount',
+  date_amount: 'date + amount',
+};
+
+export interface DisputeMatch {
+  record: ProcessorDisputeRecord;
+  order: Order;
+  method: DisputeMatchMethod;
+}
+
+export interface UnmatchedDispute {
+  record: ProcessorDisputeRecord;
+  note: string;
+}
+
+export interface DisputeReconciliation {
+  processor: DisputeProcessor;
+  matches: DisputeMatch[];
+  unmatched: UnmatchedDispute[];
+  // Matched orders with the dispute applied, ready to save
+  updated: Order[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DATE_WINDOW_DAYS = 2;
+
+const PAYMENT_REFERENCE_COLUMNS = ['Payment Reference', 'Payment References', 'Payment ID', 'Transaction ID', 'Charge ID', 'Receipt Number'];
+
+const STATUS_CATEGORY: Record<DisputeStatus, ImportCategory | null> = {
+  [DisputeStatus.NONE]: null,
+  [DisputeStatus.NEEDS_RESPONSE]: 'DISPUTE_OPEN',
+  [DisputeStatus.UNDER_REVIEW]: 'DISPUTE_SUBMITTED',
+  [DisputeStatus.WON]: 'DISPUTE_WON',
+  [DisputeStatus.LOST]: 'DISPUTE_LOST',
+};
+
+// --- PARSING ---
+
+type RowReader = (candidates: string[]) => string;
+
+const rowReader = (headers: string[], row: string[]): RowReader => {
+  const index = new Map<string, number>();
+  headers.forEach((header, i) => {
+    const key = normalizeHeader(header);
+    if (!index.has(key)) index.set(key, i);
+  });
+  return (candidates) => {
+    for (const candidate of candidates) {
+      const i = index.get(candidate);
+      if (i !== undefined && row[i] && row[i].trim()) return row[i].trim();
+    }
+    return '';
+  };
+};
+
+/**
+ * Stripe writes "2024-03-01 12:34" in UTC; everything else goes to Date.parse.
+ */
+const toIsoDate = (raw: string): string | undefined => {
+  if (!raw) return undefined;
+  const utc = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(raw) ? `${raw.replace(' ', 'T')}Z` : raw;
+  const time = Date.parse(utc);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// "Order #1001" in a payment description
+const orderRefFromText = (text: string): string => text.match(/#\s?([A-Za-z0-9-]+)/)?.[1] || '';
+
+const stripeStatus = (raw: string): { status: DisputeStatus; outcome?: DisputeOutcome } => {
+  switch (raw.toLowerCase().replace(/\s+/g, '_')) {
+    case 'warning_needs_response':
+    case 'needs_response':
+      return { status: DisputeStatus.NEEDS_RESPONSE };
+    case 'warning_under_review':
+    case 'under_review':
+      return { status: DisputeStatus.UNDER_REVIEW };
+    // An inquiry that closed without turning into a chargeback
+    case 'warning_closed':
+    case 'won':
+      return { status: DisputeStatus.WON, outcome: 'won' };
+    case 'charge_refunded':
+      return { status: DisputeStatus.LOST, outcome: 'refunded' };
+    case 'lost':
+      return { status: DisputeStatus.LOST, outcome: 'lost' };
+    default:
+      return { status: DisputeStatus.NEEDS_RESPONSE };
+  }
+};
+
+const paypalStatus = (rawStatus: string, rawOutcome: string): { status: DisputeStatus; outcome?: DisputeOutcome } => {
+  const status = rawStatus.toLowerCase();
+  const outcome = rawOutcome.toLowerCase();
+
+  if (outcome.includes('seller') || outcome.includes('cancel')) return { status: DisputeStatus.WON, outcome: 'won' };
+  if (outcome.includes('refund')) return { status: DisputeStatus.LOST, outcome: 'refunded' };
+  if (outcome.includes('buyer')) return { status: DisputeStatus.LOST, outcome: 'lost' };
+  if (outcome.includes('accept')) return { status: DisputeStatus.LOST, outcome: 'accepted' };
+
+  if (status.includes('your response') || status.includes('seller response') || status.includes('action') || status === 'open') {
+    return { status: DisputeStatus.NEEDS_RESPONSE };
+  }
+  // Resolved or closed without a readable outcome: still waiting on PayPal as far as we know
+  return { status: DisputeStatus.UNDER_REVIEW };
+};
+
+const parseStripeRow = (get: RowReader): ProcessorDisputeRecord | null => {
+  const disputeId = get(['id', 'dispute id']);
+  if (!disputeId) return null;
+  const rawStatus = get(['status', 'dispute status']);
+  return {
+    processor: 'stripe',
+    disputeId,
+    chargeId: get(['charge id', 'charge', 'payment intent id', 'payment intent']) || undefined,
+    orderRef: get(['order id metadata', 'order number metadata', 'order metadata', 'order id', 'order number'])
+      || orderRefFromText(get(['charge description', 'description'])) || undefined,
+    email: get(['customer email', 'email', 'receipt email']) || undefined,
+    amount: parseAmount(get(['amount', 'disputed amount'])),
+    currency: (get(['currency']) || 'usd').toUpperCase(),
+    reason: normalizeDisputeReason(get(['reason'])),
+    networkReasonCode: get(['network reason code']) || undefined,
+    ...stripeStatus(rawStatus),
+    type: rawStatus.toLowerCase().startsWith('warning') ? 'inquiry' : 'chargeback',
+    openedAt: toIsoDate(get(['created utc', 'created', 'dispute date'])),
+    evidenceDueBy: toIsoDate(get(['evidence due by utc', 'evidence due by', 'due by'])),
+    transactionDate: toIsoDate(get(['charge created utc', 'charge created', 'payment date'])),
+  };
+};
+
+const parsePaypalRow = (get: RowReader): ProcessorDisputeRecord | null => {
+  const disputeId = get(['case id', 'dispute id', 'case number']);
+  if (!disputeId) return null;
+  const caseType = get(['case type', 'type']).toLowerCase();
+  return {
+    processor: 'paypal',
+    disputeId,
+    chargeId: get(['transaction id', 'disputed transaction id', 'seller transaction id']) || undefined,
+    orderRef: (get(['invoice id', 'invoice number', 'order id', 'order number']) || '').replace(/^#/, '') || undefined,
+    email: get(['buyer email', 'buyer email address', 'customer email', 'email']) || undefined,
+    amount: parseAmount(get(['disputed amount', 'case amount', 'amount', 'transaction amount', 'gross'])),
+    currency: (get(['currency', 'currency code', 'disputed amount currency']) || 'usd').toUpperCase(),
+    reason: normalizeDisputeReason(get(['reason', 'case reason', 'dispute reason'])),
+    networkReasonCode: get(['reason code', 'chargeback reason code']) || undefined,
+    ...paypalStatus(get(['case status', 'status', 'dispute status']), get(['outcome', 'case outcome', 'resolution'])),
+    type: caseType.includes('inquiry') ? 'inquiry' : 'chargeback',
+    openedAt: toIsoDate(get(['filing date', 'case filing date', 'date opened', 'open date', 'created'])),
+    evidenceDueBy: toIsoDate(get(['seller response due date', 'response due date', 'due date', 'respond by'])),
+    transactionDate: toIsoDate(get(['transaction date', 'transaction initiation date'])),
+  };
+};
+
+/**
+ * Tells the two exports apart by their headers.
+ */
+export const detectDisputeExport = (headers: string[]): DisputeProcessor | null => {
+  const keys = new Set(headers.map(normalizeHeader));
+  if (keys.has('case id') || keys.has('case type') || keys.has('buyer email')) return 'paypal';
+  if ((keys.has('id') || keys.has('dispute id')) && (keys.has('evidence due by utc') || keys.has('evidence due by') || keys.has('charge id'))) return 'stripe';
+  return null;
+};
+
+export const parseDisputeExport = (
+  text: string,
+  processor?: DisputeProcessor
+): { processor: DisputeProcessor; records: ProcessorDisputeRecord[] } => {
+  const [headers = [], ...rows] = parseCsvText(text);
+  const detected = processor || detectDisputeExport(headers);
+  if (!detected) throw new Error('This does not look like a Stripe disputes export or a PayPal resolution center download.');
+
+  const parseRow = detected === 'stripe' ? parseStripeRow : parsePaypalRow;
+  const records = rows
+    .map((row) => parseRow(rowReader(headers, row)))
+    .filter((record): record is ProcessorDisputeRecord => !!record);
+
+  if (records.length === 0) throw new Error('No disputes found in the file.');
+  return { processor: detected, records };
+};
+
+// --- MATCHING ---
+
+const orderNumber = (value: string) => value.trim().replace(/^#/, '').replace(/^0+(?=\d)/, '').toLowerCase();
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+const paymentReferences = (order: Order): string =>
+  PAYMENT_REFERENCE_COLUMNS.map((name) => order.additional_data?.[name]).filter(Boolean).join(' ').toLowerCase();
+
+// Orders are compared by created_at: `date` is a display string without a year
+const daysApart = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / DAY;
+
+type Finder = (record: ProcessorDisputeRecord, orders: Order[]) => Order[];
+
+const FINDERS: Array<{ method: DisputeMatchMethod; find: Finder }> = [
+  {
+    method: 'order_number',
+    find: (record, orders) => {
+      if (!record.orderRef) return [];
+      const ref = orderNumber(record.orderRef);
+      return orders.filter((o) => orderNumber(o.id) === ref);
+    },
+  },
+  {
+    method: 'charge_id',
+    find: (record, orders) => {
+      if (!record.chargeId) return [];
+      const charge = record.chargeId.toLowerCase();
+      return orders.filter((o) => paymentReferences(o).includes(charge));
+    },
+  },
+  {
+    method: 'email_amount',
+    find: (record, orders) => {
+      const email = normalizeEmail(record.email);
+      if (!email) return [];
+      const hits = orders.filter((o) => normalizeEmail(o.customer?.email) === email && sameAmount(o.total, record.amount));
+      // Several orders of the same amount: take the one paid closest to the disputed payment
+      if (hits.length > 1 && record.transactionDate) {
+        const near = hits.filter((o) => !isNaN(Date.parse(o.created_at)) && daysApart(o.created_at, record.transactionDate!) <= DATE_WINDOW_DAYS);
+        if (near.length > 0) return near;
+      }
+      return hits;
+    },
+  },
+  {
+    method: 'date_amount',
+    find: (record, orders) => {
+      if (!record.transactionDate) return [];
+      return orders.filter((o) =>
+        sameAmount(o.total, record.amount) &&
+        (o.currency || 'USD').toUpperCase() === record.currency &&
+        !isNaN(Date.parse(o.created_at)) &&
+        daysApart(o.created_at, record.transactionDate!) <= DATE_WINDOW_DAYS
+      );
+    },
+  },
+];
+
+export const matchDisputeRecord = (
+  record: ProcessorDisputeRecord,
+  orders: Order[]
+): { order: Order; method: DisputeMatchMethod } | { note: string } => {
+  const candidates = orders.filter((o) => o.import_category !== 'INVALID');
+  const ambiguous: string[] = [];
+
+  for (const { method, find } of FINDERS) {
+    const hits = find(record, candidates);
+    if (hits.length === 1) return { order: hits[0], method };
+    if (hits.length > 1) ambiguous.push(`${hits.length} orders match by ${MATCH_METHOD_LABELS[method]}`);
+  }
+
+  return { note: ambiguous.length > 0 ? ambiguous.join('; ') : 'No order matches' };
+};
+
+/**
+ * Puts the processor's view of the dispute on the order. An earlier
+ * placeholder dispute from an order import hands its history over.
+ */
+export const applyDisputeRecord = (order: Order, record: ProcessorDisputeRecord): Order => {
+  const incoming: Dispute = {
+    id: `${record.processor}:${record.disputeId}`,
+    source: record.processor,
+    status: record.status,
+    type: record.type,
+    reason: record.reason,
+    networkReasonCode: record.networkReasonCode,
+    chargeId: record.chargeId,
+    amount: record.amount,
+    currency: record.currency,
+    openedAt: record.openedAt,
+    evidenceDueBy: record.evidenceDueBy,
+    // Exports don't carry these; keep what we already know
+    evidenceSentOn: order.dispute?.evidenceSentOn,
+    escalatedBucket: order.dispute?.escalatedBucket,
+    outcome: record.outcome,
+    closedAt: record.outcome ? (order.dispute?.closedAt || new Date().toISOString()) : undefined,
+    history: [],
+  };
+
+  const placeholder = order.dispute?.source === 'import' ? order.dispute : undefined;
+  const base = placeholder ? { ...order, dispute: { ...placeholder, id: incoming.id } } : order;
+  const updated = applyProcessorDispute(base, incoming);
+
+  const category = STATUS_CATEGORY[record.status];
+  return category ? { ...updated, import_category: category, category_source: 'import' } : updated;
+};
+
+/**
+ * Parses an export and matches every dispute against the stored orders.
+ * Nothing is saved here.
+ */
+export const reconcileDisputeExport = (
+  text: string,
+  orders: Order[],
+  processor?: DisputeProcessor
+): DisputeReconciliation => {
+  const parsed = parseDisputeExport(text, processor);
+  const matches: DisputeMatch[] = [];
+  const unmatched: UnmatchedDispute[] = [];
+  const updatedById = new Map<string, Order>();
+
+  for (const record of parsed.records) {
+    const result = matchDisputeRecord(record, orders);
+    if ('note' in result) {
+      unmatched.push({ record, note: result.note });
+      continue;
+    }
+    matches.push({ record, order: result.order, method: result.method });
+    // Several rows for one order (inquiry, then chargeback) apply in file order
+    const current = updatedById.get(result.order.id) || result.order;
+    updatedById.set(result.order.id, applyDisputeRecord(current, record));
+  }
+
+  return { processor: parsed.processor, matches, unmatched, updated: Array.from(updatedById.values()) };
+};
+
+// --- REVIEW QUEUE ---
+
+export const fetchDisputeReviewQueue = async (): Promise<DisputeReviewItem[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('dispute_review_queue')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching dispute review queue:', error);
+    return [];
+  }
+
+  return data as DisputeReviewItem[];
+};
+
+/**
+ * Adds unmatched rows to the queue. Re-importing the same export updates the
+ * queued rows instead of adding duplicates.
+ */
+export const queueUnmatchedDisputes = async (unmatched: UnmatchedDispute[]): Promise<DisputeReviewItem[]> => {
+  if (unmatched.length === 0) return [];
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('dispute_review_queue')
+    .upsert(
+      unmatched.map(({ record, note }) => ({
+        user_id: user.id,
+        processor: record.processor,
+        dispute_id: record.disputeId,
+        record,
+        note,
+        created_at: now,
+      })),
+      { onConflict: 'user_id,processor,dispute_id' }
+    )
+    .select();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as DisputeReviewItem[];
+};
+
+export const removeFromReviewQueue = async (processor: DisputeProcessor, disputeIds: string[]): Promise<void> => {
+  if (disputeIds.length === 0) return;
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('dispute_review_queue')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('processor', processor)
+    .in('dispute_id', disputeIds);
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
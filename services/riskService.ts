@@ -0,0 +1,223 @@
+// src/services/riskService.ts
+import { Order, RiskReason, DisputeStatus } from '../types';
+
+/**
+ * RISK SCORING:
+ * Every order is run through a list of signals. Each signal that fires adds
+ * points and a human-readable reason; the total is mapped to a risk category
+ * using the user's thresholds. Signals are plain objects, so new ones can be
+ * added to DEFAULT_SIGNALS (or passed in) without touching the engine.
+ */
+
+export interface RiskContext {
+  medianOrderValue: number;
+  ordersByEmail: Map<string, Order[]>;
+}
+
+export interface RiskSignal {
+  id: string;
+  label: string;
+  evaluate: (order: Order, context: RiskContext) => { points: number; detail?: string } | null;
+}
+
+export interface RiskThresholds {
+  high: number;
+  medium: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  reasons: RiskReason[];
+}
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = { high: 50, medium: 25 };
+
+const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', '10minutemail.com', 'tempmail.com',
+  'temp-mail.org', 'throwawaymail.com', 'yopmail.com', 'sharklasers.com', 'getnada.com',
+  'dispostable.com', 'trashmail.com', 'maildrop.cc', 'fakeinbox.com', 'mintemail.com',
+  'mohmal.com', 'emailondeck.com', 'tempinbox.com', 'burnermail.io', 'spamgourmet.com',
+];
+
+const RISK_TAGS = ['fraud', 'high-risk', 'risk'];
+const EXPEDITED_PATTERN = /express|expedited|overnight|next[\s-]?day|priority|2[\s-]?day|rush/i;
+const VELOCITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const VELOCITY_MIN_ORDERS = 3;
+
+const orderTime = (order: Order): number => Date.parse(order.created_at || order.date);
+const emailKey = (order: Order): string => (order.customer?.email || '').trim().toLowerCase();
+const isFirstOrder = (order: Order): boolean => (order.customer?.ordersCount || 0) <= 1;
+
+export const DEFAULT_SIGNALS: RiskSignal[] = [
+  {
+    id: 'manual_flag',
+    label: 'Imported as high risk',
+    evaluate: (order) => (order.import_category === 'RISK' ? { points: 50 } : null),
+  },
+  {
+    id: 'native_risk',
+    label: 'Shopify risk analysis',
+    evaluate: (order) => {
+      const level = (order.native_risk_level || '').toLowerCase();
+      if (level === 'high') return { points: 40, detail: 'Shopify rated this order high risk' };
+      if (level === 'medium') return { points: 20, detail: 'Shopify rated this order medium risk' };
+      return null;
+    },
+  },
+  {
+    id: 'fraud_cancel',
+    label: 'Cancelled for fraud',
+    evaluate: (order) => ((order.cancel_reason || '').toLowerCase() === 'fraud' ? { points: 50 } : null),
+  },
+  {
+    id: 'risk_tag',
+    label: 'Tagged as risky',
+    evaluate: (order) => {
+      const tag = (order.tags || []).find((t) => RISK_TAGS.includes(t.toLowerCase()));
+      return tag ? { points: 30, detail: `Tag "${tag}"` } : null;
+    },
+  },
+  {
+    id: 'first_time_customer',
+    label: 'First-time customer',
+    evaluate: (order) => (isFirstOrder(order) ? { points: 10 } : null),
+  },
+  {
+    id: 'high_order_value',
+    label: 'High order value',
+    evaluate: (order, context) => {
+      if (!context.medianOrderValue || !order.total) return null;
+      const ratio = order.total / context.medianOrderValue;
+      if (ratio >= 5) return { points: 30, detail: `${ratio.toFixed(1)}x the store median` };
+      if (ratio >= 3) return { points: 20, detail: `${ratio.toFixed(1)}x the store median` };
+      return null;
+    },
+  },
+  {
+    id: 'country_mismatch',
+    label: 'Billing/shipping country mismatch',
+    evaluate: (order) => {
+      const billing = (order.billing_country || '').trim().toUpperCase();
+      const shipping = (order.shipping_country || '').trim().toUpperCase();
+      if (!billing || !shipping || billing === shipping) return null;
+      return { points: 25, detail: `Billing ${billing}, shipping ${shipping}` };
+    },
+  },
+  {
+    id: 'expedited_first_order',
+    label: 'Expedited shipping on a first order',
+    evaluate: (order) => {
+      if (!isFirstOrder(order) || !EXPEDITED_PATTERN.test(order.deliveryMethod || '')) return null;
+      return { points: 20, detail: order.deliveryMethod };
+    },
+  },
+  {
+    id: 'email_velocity',
+    label: 'Many orders from one email',
+    evaluate: (order, context) => {
+      const key = emailKey(order);
+      const time = orderTime(order);
+      if (!key || isNaN(time)) return null;
+      const recent = (context.ordersByEmail.get(key) || []).filter((other) => {
+        const otherTime = orderTime(other);
+        return !isNaN(otherTime) && Math.abs(otherTime - time) <= VELOCITY_WINDOW_MS;
+      });
+      if (recent.length < VELOCITY_MIN_ORDERS) return null;
+      return { points: 25, detail: `${recent.length} orders within 24 hours` };
+    },
+  },
+  {
+    id: 'prior_chargebacks',
+    label: 'Customer has other chargebacks',
+    evaluate: (order) => {
+      const own = order.disputeStatus && order.disputeStatus !== DisputeStatus.NONE ? 1 : 0;
+      const others = (order.customer?.chargeback_count || 0) - own;
+      if (others <= 0) return null;
+      return { points: Math.min(50, others * 25), detail: `${others} on linked orders` };
+    },
+  },
+  {
+    id: 'disposable_email',
+    label: 'Disposable email domain',
+    evaluate: (order) => {
+      const domain = emailKey(order).split('@')[1];
+      return domain && DISPOSABLE_EMAIL_DOMAINS.includes(domain) ? { points: 30, detail: domain } : null;
+    },
+  },
+];
+
+export const medianOrderValue = (orders: Order[]): number => {
+  const totals = orders
+    .filter((o) => o.import_category !== 'INVALID' && o.total > 0)
+    .map((o) => o.total)
+    .sort((a, b) => a - b);
+
+  if (totals.length === 0) return 0;
+  const mid = Math.floor(totals.length / 2);
+  return totals.length % 2 ? totals[mid] : (totals[mid - 1] + totals[mid]) / 2;
+};
+
+/**
+ * `storeMedian` is for callers that pass only part of the store (the sync
+ * passes the customers a page touches); the median must still be store-wide.
+ */
+export const buildRiskContext = (allOrders: Order[], storeMedian?: number): RiskContext => {
+  // Later entries win, so callers can pass [...stored, ...incoming]
+  const orders = Array.from(new Map(allOrders.map((o) => [o.id, o])).values());
+
+  const ordersByEmail = new Map<string, Order[]>();
+  orders.forEach((order) => {
+    const key = emailKey(order);
+    if (!key) return;
+    const list = ordersByEmail.get(key) || [];
+    list.push(order);
+    ordersByEmail.set(key, list);
+  });
+
+  return { medianOrderValue: storeMedian ?? medianOrderValue(orders), ordersByEmail };
+};
+
+export const scoreOrder = (order: Order, context: RiskContext, signals: RiskSignal[] = DEFAULT_SIGNALS): RiskAssessment => {
+  const reasons: RiskReason[] = [];
+  signals.forEach((signal) => {
+    const result = signal.evaluate(order, context);
+    if (result && result.points > 0) {
+      reasons.push({ signal: signal.id, label: signal.label, points: result.points, detail: result.detail });
+    }
+  });
+  const score = Math.min(100, reasons.reduce((sum, r) => sum + r.points, 0));
+  return { score, reasons };
+};
+
+export const categorizeRisk = (score: number, thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): string => {
+  if (score >= thresholds.high) return 'High Risk';
+  if (score >= thresholds.medium) return 'Medium Risk';
+  return 'Normal';
+};
+
+/**
+ * Scores a batch of orders. `contextOrders` is the population used for the
+ * store median and email velocity; pass every known order, not just the batch.
+ * Quarantined orders are left alone.
+ */
+export const applyRiskScores = (
+  orders: Order[],
+  thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS,
+  contextOrders: Order[] = orders,
+  signals: RiskSignal[] = DEFAULT_SIGNALS,
+  storeMedian?: number
+): Order[] => {
+  const context = buildRiskContext(contextOrders, storeMedian);
+  return orders.map((order) => {
+    if (order.import_category === 'INVALID') return order;
+    const { score, reasons } = scoreOrder(order, context, signals);
+    const riskCategory = categorizeRisk(score, thresholds);
+    return {
+      ...order,
+      risk_score: score,
+      risk_reasons: reasons,
+      risk_category: riskCategory,
+      isHighRisk: riskCategory === 'High Risk',
+    };
+  });
+};
@@ -0,0 +1,315 @@
+// src/services/rulesService.ts
+import { supabase } from '../lib/supabase';
+import { Order, RiskRule, RuleCondition, RuleOperator, RuleActionType, DisputeStatus, ImportCategory } from '../types';
+import { hasTagKeyword } from './tagService';
+import { transitionDispute } from './disputeService';
+import { RiskSignal } from './riskService';
+
+/**
+ * RISK RULES:
+ * A rule is a list of conditions over order fields, tags and additional_data,
+ * joined by "all" or "any", plus the actions to take when it matches.
+ * Rules run highest priority first:
+ *   - add_tag      adds a tag (later rules see it)
+ *   - set_category the first matching rule decides the order's category
+ *   - flag_risk    adds points to the risk score (see ruleSignals)
+ * Rule sets are stored per user in the `risk_rules` table. Users without a
+ * saved set get DEFAULT_RULES, which reproduce the old tag classification.
+ */
+
+export const RULE_OPERATORS: { id: RuleOperator; label: string; needsValue: boolean }[] = [
+  { id: 'equals', label: 'equals', needsValue: true },
+  { id: 'not_equals', label: 'does not equal', needsValue: true },
+  { id: 'contains', label: 'contains', needsValue: true },
+  { id: 'not_contains', label: 'does not contain', needsValue: true },
+  { id: 'greater_than', label: 'is greater than', needsValue: true },
+  { id: 'less_than', label: 'is less than', needsValue: true },
+  { id: 'is_empty', label: 'is empty', needsValue: false },
+  { id: 'is_not_empty', label: 'is not empty', needsValue: false },
+];
+
+export const RULE_ACTIONS: { id: RuleActionType; label: string }[] = [
+  { id: 'flag_risk', label: 'Add risk points' },
+  { id: 'set_category', label: 'Set category' },
+  { id: 'add_tag', label: 'Add tag' },
+];
+
+// Suggestions for the editor; any dot path (or additional_data.<CSV column>) works
+export const RULE_FIELDS = [
+  'tags',
+  'total',
+  'currency',
+  'channel',
+  'source_name',
+  'paymentStatus',
+  'fulfillmentStatus',
+  'deliveryMethod',
+  'itemsCount',
+  'customer.email',
+  'customer.name',
+  'customer.location',
+  'customer.ordersCount',
+  'customer.lifetime_value',
+  'customer.chargeback_count',
+  'billing_country',
+  'shipping_country',
+  'native_risk_level',
+  'cancel_reason',
+  'risk_score',
+  'additional_data.Payment Method',
+];
+
+// Categories a rule may assign, and the dispute status each one implies
+export const CATEGORY_DISPUTE_STATUS: Partial<Record<ImportCategory, DisputeStatus>> = {
+  RISK: DisputeStatus.NONE,
+  DISPUTE_OPEN: DisputeStatus.NEEDS_RESPONSE,
+  DISPUTE_SUBMITTED: DisputeStatus.UNDER_REVIEW,
+  DISPUTE_WON: DisputeStatus.WON,
+  DISPUTE_LOST: DisputeStatus.LOST,
+};
+
+const tagRule = (id: string, name: string, priority: number, keywords: string[], category: ImportCategory): RiskRule => ({
+  id,
+  name,
+  enabled: true,
+  priority,
+  match: 'any',
+  conditions: keywords.map((keyword) => ({ field: 'tags', operator: 'contains', value: keyword })),
+  actions: [{ type: 'set_category', value: category }],
+});
+
+export const DEFAULT_RULES: RiskRule[] = [
+  tagRule('default-won', 'Tagged as won', 50, ['won'], 'DISPUTE_WON'),
+  tagRule('default-lost', 'Tagged as lost', 40, ['lost'], 'DISPUTE_LOST'),
+  tagRule('default-submitted', 'Tagged as submitted', 30, ['submitted', 'under review'], 'DISPUTE_SUBMITTED'),
+  tagRule('default-open', 'Tagged as chargeback', 20, ['chargeback', 'dispute', 'disputed'], 'DISPUTE_OPEN'),
+  tagRule('default-risk', 'Tagged as fraud', 10, ['fraud', 'risk', 'high'], 'RISK'),
+];
+
+// --- EVALUATION ---
+
+const getFieldValue = (order: Order, field: string): unknown => {
+  // CSV column names can contain anything, so only the first dot splits
+  if (field.startsWith('additional_data.')) {
+    return order.additional_data?.[field.slice('additional_data.'.length)];
+  }
+  return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), order);
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === '' || (Array.isArray(value) && value.length === 0);
+
+const compareNumbers = (actual: unknown, expected: string, compare: (a: number, b: number) => boolean) => {
+  const a = typeof actual === 'number' ? actual : parseFloat(String(actual));
+  const b = parseFloat(expected);
+  return !isNaN(a) && !isNaN(b) && compare(a, b);
+};
+
+export const evaluateCondition = (order: Order, condition: RuleCondition): boolean => {
+  const actual = getFieldValue(order, condition.field.trim());
+  const expected = (condition.value || '').trim();
+
+  if (condition.operator === 'is_empty') return isBlank(actual);
+  if (condition.operator === 'is_not_empty') return !isBlank(actual);
+
+  // Lists (tags): contains is a whole-word tag match, numbers compare the count
+  if (Array.isArray(actual)) {
+    const items = actual.map((item) => String(item));
+    const exact = items.some((item) => item.trim().toLowerCase() === expected.toLowerCase());
+    switch (condition.operator) {
+      case 'equals': return exact;
+      case 'not_equals': return !exact;
+      case 'contains': return hasTagKeyword(items, [expected]);
+      case 'not_contains': return !hasTagKeyword(items, [expected]);
+      case 'greater_than': return compareNumbers(items.length, expected, (a, b) => a > b);
+      case 'less_than': return compareNumbers(items.length, expected, (a, b) => a < b);
+    }
+  }
+
+  const text = isBlank(actual) ? '' : String(actual).trim().toLowerCase();
+  const needle = expected.toLowerCase();
+  switch (condition.operator) {
+    case 'equals':
+      return compareNumbers(actual, expected, (a, b) => a === b) || text === needle;
+    case 'not_equals':
+      return !(compareNumbers(actual, expected, (a, b) => a === b) || text === needle);
+    case 'contains':
+      return !!needle && text.includes(needle);
+    case 'not_contains':
+      return !needle || !text.includes(needle);
+    case 'greater_than':
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case 'less_than':
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    default:
+      return false;
+  }
+};
+
+export const ruleMatches = (order: Order, rule: RiskRule): boolean => {
+  if (rule.conditions.length === 0) return false;
+  return rule.match === 'any'
+    ? rule.conditions.some((c) => evaluateCondition(order, c))
+    : rule.conditions.every((c) => evaluateCondition(order, c));
+};
+
+// Highest priority first; ties keep their saved order
+export const sortRules = (rules: RiskRule[]): RiskRule[] => {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority - a.rule.priority) || (a.index - b.index))
+    .map(({ rule }) => rule);
+};
+
+/**
+ * The category the highest-priority matching rule assigns, if any.
+ */
+export const resolveRuleCategory = (order: Order, rules: RiskRule[]): { category: ImportCategory; rule: RiskRule } | null => {
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled) continue;
+    const action = rule.actions.find((a) => a.type === 'set_category' && a.value in CATEGORY_DISPUTE_STATUS);
+    if (action && ruleMatches(order, rule)) return { category: action.value as ImportCategory, rule };
+  }
+  return null;
+};
+
+/**
+ * Rules never override a category chosen at import or by hand, or an order
+ * whose dispute comes straight from the processor.
+ */
+const ruleOwnsCategory = (order: Order) =>
+  order.category_source !== 'import' &&
+  order.category_source !== 'manual' &&
+  (!order.dispute || order.dispute.source === 'import');
+
+const withCategory = (order: Order, category: ImportCategory, note: string): Order => {
+  const status = CATEGORY_DISPUTE_STATUS[category] ?? DisputeStatus.NONE;
+  const moved = transitionDispute(order, status, 'rule', note);
+  return { ...moved, import_category: category, category_source: 'rule' };
+};
+
+/**
+ * Runs add_tag and set_category actions. Quarantined orders are left alone.
+ */
+export const applyRules = (order: Order, rules: RiskRule[]): Order => {
+  if (order.import_category === 'INVALID') return order;
+
+  let current = order;
+  let decided: { category: ImportCategory; rule: RiskRule } | null = null;
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled || !ruleMatches(current, rule)) continue;
+    for (const action of rule.actions) {
+      const value = action.value.trim();
+      if (action.type === 'add_tag' && value && !current.tags.some((t) => t.toLowerCase() === value.toLowerCase())) {
+        current = { ...current, tags: [...current.tags, value] };
+      }
+      if (action.type === 'set_category' && !decided && value in CATEGORY_DISPUTE_STATUS) {
+        decided = { category: value as ImportCategory, rule };
+      }
+    }
+  }
+
+  if (!ruleOwnsCategory(current)) return current;
+
+  if (decided) {
+    const { category, rule } = decided;
+    if (current.import_category === category && current.category_source === 'rule') return current;
+    return withCategory(current, category, `Rule "${rule.name}"`);
+  }
+
+  // The rule that set this category no longer matches
+  if (current.category_source === 'rule') {
+    const reverted = transitionDispute(current, DisputeStatus.NONE, 'rule', 'No rule matches any more');
+    return { ...reverted, import_category: 'AUTO', category_source: undefined };
+  }
+
+  return current;
+};
+
+/**
+ * Turns every enabled flag_risk rule into a risk signal, so rule points show
+ * up in the score and its reasons next to the built-in signals.
+ */
+export const ruleSignals = (rules: RiskRule[]): RiskSignal[] => {
+  return rules
+    .filter((rule) => rule.enabled)
+    .map((rule) => {
+      const points = rule.actions
+        .filter((a) => a.type === 'flag_risk')
+        .reduce((sum, a) => sum + (parseFloat(a.value) || 0), 0);
+      return { rule, points };
+    })
+    .filter(({ points }) => points > 0)
+    .map(({ rule, points }) => ({
+      id: `rule:${rule.id}`,
+      label: rule.name,
+      evaluate: (order: Order) => (ruleMatches(order, rule) ? { points, detail: 'Custom rule' } : null),
+    }));
+};
+
+/**
+ * Problems that would stop a rule from working, for the editor to show.
+ */
+export const validateRule = (rule: RiskRule): string[] => {
+  const problems: string[] = [];
+  if (!rule.name.trim()) problems.push('Name is required');
+  if (rule.conditions.length === 0) problems.push('Add at least one condition');
+  if (rule.actions.length === 0) problems.push('Add at least one action');
+
+  rule.conditions.forEach((c, i) => {
+    const operator = RULE_OPERATORS.find((o) => o.id === c.operator);
+    if (!c.field.trim()) problems.push(`Condition ${i + 1}: field is required`);
+    if (operator?.needsValue && !(c.value || '').trim()) problems.push(`Condition ${i + 1}: value is required`);
+  });
+
+  rule.actions.forEach((a, i) => {
+    if (a.type === 'flag_risk' && !(parseFloat(a.value) > 0)) problems.push(`Action ${i + 1}: points must be a positive number`);
+    if (a.type === 'set_category' && !(a.value in CATEGORY_DISPUTE_STATUS)) problems.push(`Action ${i + 1}: pick a category`);
+    if (a.type === 'add_tag' && !a.value.trim()) problems.push(`Action ${i + 1}: tag is required`);
+  });
+
+  return problems;
+};
+
+export const createEmptyRule = (priority: number): RiskRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: '',
+  enabled: true,
+  priority,
+  match: 'all',
+  conditions: [{ field: 'tags', operator: 'contains', value: '' }],
+  actions: [{ type: 'flag_risk', value: '20' }],
+});
+
+// --- PERSISTENCE ---
+
+export const fetchRiskRules = async (): Promise<RiskRule[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return DEFAULT_RULES;
+
+  const { data, error } = await supabase
+    .from('risk_rules')
+    .select('rules')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching risk rules:', error);
+    return DEFAULT_RULES;
+  }
+
+  // An empty saved set is respected; only a missing row falls back to defaults
+  return Array.isArray(data?.rules) ? (data!.rules as RiskRule[]) : DEFAULT_RULES;
+};
+
+export const saveRiskRules = async (rules: RiskRule[]): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('risk_rules')
+    .upsert({ user_id: user.id, rules, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
@@ -0,0 +1,68 @@
+// src/services/settingsService.ts
+import { supabase } from '../lib/supabase';
+import { RiskThresholds, DEFAULT_RISK_THRESHOLDS } from './riskService';
+import { LlmProviderId } from './llmService';
+import { TrackingAdapterId } from './trackingService';
+
+/**
+ * Per-user preferences, stored as one JSON blob in `profiles.settings`.
+ * Missing keys always fall back to DEFAULT_SETTINGS, so older profiles keep
+ * working as new settings are added.
+ */
+
+export type PaymentProcessor = 'shopify_payments' | 'stripe' | 'paypal' | 'other';
+
+export interface UserSettings {
+  // Days a processor gives to respond, used when a dispute has no due date
+  deadlineDays: Record<PaymentProcessor, number>;
+  // Risk score needed for an order to count as medium / high risk
+  riskThresholds: RiskThresholds;
+  // Who writes AI rebuttal drafts; the API key lives in profiles.gemini_api_key
+  llmProvider: LlmProviderId;
+  // Carrier adapter for delivery events; 'none' keeps Shopify / CSV tracking only
+  trackingAdapter: TrackingAdapterId;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  deadlineDays: {
+    shopify_payments: 7,
+    stripe: 7,
+    paypal: 10,
+    other: 7,
+  },
+  riskThresholds: DEFAULT_RISK_THRESHOLDS,
+  llmProvider: 'gemini',
+  trackingAdapter: 'none',
+};
+
+const withDefaults = (stored: Partial<UserSettings> | null | undefined): UserSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...(stored || {}),
+  deadlineDays: { ...DEFAULT_SETTINGS.deadlineDays, ...(stored?.deadlineDays || {}) },
+  riskThresholds: { ...DEFAULT_SETTINGS.riskThresholds, ...(stored?.riskThresholds || {}) },
+});
+
+export const fetchUserSettings = async (): Promise<UserSettings> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return DEFAULT_SETTINGS;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('settings')
+    .eq('id', user.id)
+    .single();
+
+  if (error) return DEFAULT_SETTINGS;
+  return withDefaults(data?.settings);
+};
+
+export const saveUserSettings = async (settings: UserSettings): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({ id: user.id, settings, updated_at: new Date().toISOString() });
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
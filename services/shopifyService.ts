@@ -1,19 +1,28 @@
 // src/services/shopifyService.ts
-import { Order, PaymentStatus, FulfillmentStatus, DeliveryStatus, DisputeStatus } from '../types';
+import { Order, PaymentStatus, FulfillmentStatus, DeliveryStatus, DisputeStatus, Dispute, DisputeOutcome } from '../types';
+import { normalizeDisputeReason } from './disputeService';
+import { shipmentsFromShopify, applyShipments } from './trackingService';
 
 interface ShopifyGraphQLResponse {
   data?: {
     orders: {
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
       edges: Array<{
         node: {
           id: string;
           name: string;
           createdAt: string;
+          updatedAt: string;
           riskLevel: 'HIGH' | 'MEDIUM' | 'LOW' | 'NORMAL';
           displayFinancialStatus: string;
           displayFulfillmentStatus: string;
           tags: string[];
           cancelReason: string | null;
+          phone: string | null;
+          clientIp: string | null;
           totalPriceSet: {
             shopMoney: {
               amount: string;
@@ -35,13 +44,41 @@ interface ShopifyGraphQLResponse {
           app: {
             name: string;
           } | null;
+          billingAddress: {
+            countryCodeV2: string;
+          } | null;
+          shippingAddress: {
+            address1: string | null;
+            address2: string | null;
+            city: string | null;
+            zip: string | null;
+            phone: string | null;
+            countryCodeV2: string;
+          } | null;
           shippingLine: {
             title: string;
           } | null;
+          transactions: Array<{
+            kind: string;
+            status: string;
+            paymentDetails: {
+              bin?: string | null;
+              number?: string | null;
+            } | null;
+          }>;
+          fulfillments: Array<{
+            createdAt: string;
+            deliveredAt: string | null;
+            displayStatus: string | null;
+            trackingInfo: Array<{ number: string | null; company: string | null; url: string | null }>;
+          }>;
           lineItems: {
             edges: Array<{
               node: {
                 title: string;
+                quantity: number;
+                sku: string | null;
+                originalUnitPriceSet: { shopMoney: { amount: string } } | null;
               }
             }>
           };
@@ -49,7 +86,7 @@ interface ShopifyGraphQLResponse {
       }>
     }
   };
-  errors?: Array<{ message: string }>;
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
 }
 
 const mapFinancialStatus = (status: string): PaymentStatus => {
@@ -70,44 +107,116 @@ const mapFulfillmentStatus = (status: string): FulfillmentStatus => {
   return FulfillmentStatus.UNFULFILLED;
 };
 
-const determineDisputeStatus = (tags: string[]): DisputeStatus => {
-  const lowerTags = tags.map(t => t.toLowerCase());
-  
-  if (lowerTags.some(t => t.includes('won'))) return DisputeStatus.WON;
-  if (lowerTags.some(t => t.includes('lost'))) return DisputeStatus.LOST;
-  
-  if (lowerTags.some(t => t.includes('chargeback') || t.includes('dispute'))) {
-     if (lowerTags.some(t => t.includes('submitted') || t.includes('review') || t.includes('pending'))) {
-        return DisputeStatus.UNDER_REVIEW;
-     }
-     return DisputeStatus.NEEDS_RESPONSE;
+interface ShopifyDisputesResponse {
+  data?: {
+    shopifyPaymentsAccount: {
+      disputes: {
+        pageInfo: {
+          hasNextPage: boolean;
+          endCursor: string | null;
+        };
+        edges: Array<{
+          node: {
+            id: string;
+            status: 'NEEDS_RESPONSE' | 'UNDER_REVIEW' | 'WON' | 'LOST' | 'ACCEPTED' | 'CHARGE_REFUNDED';
+            type: 'CHARGEBACK' | 'INQUIRY';
+            initiatedAt: string;
+            evidenceDueBy: string | null;
+            evidenceSentOn: string | null;
+            finalizedOn: string | null;
+            amount: {
+              amount: string;
+              currencyCode: string;
+            };
+            reasonDetails: {
+              reason: string;
+              networkReasonCode: string | null;
+            };
+            order: {
+              name: string;
+            } | null;
+          }
+        }>
+      }
+    } | null
+  };
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
+}
+
+export interface PaymentsDispute {
+  orderName: string;
+  dispute: Dispute;
+}
+
+const mapPaymentsDisputeStatus = (status: string): DisputeStatus => {
+  switch (status) {
+    case 'NEEDS_RESPONSE': return DisputeStatus.NEEDS_RESPONSE;
+    case 'UNDER_REVIEW': return DisputeStatus.UNDER_REVIEW;
+    case 'WON': return DisputeStatus.WON;
+    // Accepting a dispute or refunding the charge both forfeit the funds
+    case 'LOST':
+    case 'ACCEPTED':
+    case 'CHARGE_REFUNDED':
+      return DisputeStatus.LOST;
+    default:
+      return DisputeStatus.NONE;
   }
+};
 
-  return DisputeStatus.NONE;
+const mapPaymentsDisputeOutcome = (status: string): DisputeOutcome | undefined => {
+  if (status === 'WON') return 'won';
+  if (status === 'LOST') return 'lost';
+  if (status === 'ACCEPTED') return 'accepted';
+  if (status === 'CHARGE_REFUNDED') return 'refunded';
+  return undefined;
 };
 
+const mapGraphQLToDispute = (node: any): Dispute => ({
+  id: node.id,
+  source: 'shopify_payments',
+  status: mapPaymentsDisputeStatus(node.status),
+  type: node.type === 'INQUIRY' ? 'inquiry' : 'chargeback',
+  reason: normalizeDisputeReason(node.reasonDetails?.reason),
+  networkReasonCode: node.reasonDetails?.networkReasonCode || undefined,
+  amount: parseFloat(node.amount?.amount || '0'),
+  currency: node.amount?.currencyCode || 'USD',
+  openedAt: node.initiatedAt,
+  evidenceDueBy: node.evidenceDueBy || undefined,
+  evidenceSentOn: node.evidenceSentOn || undefined,
+  outcome: mapPaymentsDisputeOutcome(node.status),
+  closedAt: node.finalizedOn || undefined,
+  // Filled in by applyProcessorDispute as statuses change
+  history: [],
+});
+
+const compactFields = (fields: Record<string, string | null | undefined>): Record<string, string> => {
+  const result: Record<string, string> = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value) result[key] = value;
+  });
+  return result;
+};
+
+// The card that paid: the first successful sale or authorization with card details
+const paymentCard = (transactions: any[] = []): { bin?: string; number?: string } =>
+  transactions.find((t) => (t.kind === 'SALE' || t.kind === 'AUTHORIZATION') && t.status === 'SUCCESS' && t.paymentDetails?.bin)?.paymentDetails || {};
+
 const mapGraphQLToAppOrder = (node: any): Order => {
   const tagsList = node.tags || [];
-  
-  const nativeRisk = node.riskLevel === 'HIGH' || node.riskLevel === 'MEDIUM';
-  const tagRisk = tagsList.some((t: string) => ['fraud', 'high-risk', 'risk'].includes(t.toLowerCase()));
-  const cancelRisk = node.cancelReason === 'fraud';
+  const card = paymentCard(node.transactions);
 
-  const isHighRisk = nativeRisk || tagRisk || cancelRisk;
-  
   const customerLoc = node.customer?.defaultAddress 
     ? `${node.customer.defaultAddress.city || ''}, ${node.customer.defaultAddress.provinceCode || ''}, ${node.customer.defaultAddress.countryCode || ''}`.replace(/^, /, '').replace(/, $/, '')
     : 'Unknown';
 
-  const disputeStatus = determineDisputeStatus(tagsList);
-
   const total = parseFloat(node.totalPriceSet?.shopMoney?.amount || '0');
   const currency = node.totalPriceSet?.shopMoney?.currencyCode || 'USD';
 
-  return {
+  const order: Order = {
     id: node.name,
     date: new Date(node.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
     created_at: node.createdAt, // Strict field
+    updated_at: node.updatedAt,
     customer: {
       id: node.customer?.id || 'guest',
       name: node.customer ? `${node.customer.firstName || ''} ${node.customer.lastName || ''}`.trim() : 'Guest',
@@ -122,14 +231,41 @@ const mapGraphQLToAppOrder = (node: any): Order => {
     paymentStatus: mapFinancialStatus(node.displayFinancialStatus),
     fulfillmentStatus: mapFulfillmentStatus(node.displayFulfillmentStatus),
     itemsCount: node.lineItems?.edges?.length || 0,
-    deliveryStatus: node.displayFulfillmentStatus === 'FULFILLED' ? DeliveryStatus.DELIVERED : DeliveryStatus.NO_STATUS,
+    line_items: (node.lineItems?.edges || []).map((edge: any) => ({
+      title: edge.node.title,
+      quantity: edge.node.quantity || 1,
+      price: edge.node.originalUnitPriceSet ? parseFloat(edge.node.originalUnitPriceSet.shopMoney.amount) : undefined,
+      sku: edge.node.sku || undefined,
+    })),
+    // Set from the fulfillments' tracking below
+    deliveryStatus: DeliveryStatus.NO_STATUS,
     deliveryMethod: node.shippingLine?.title || 'Standard',
     tags: tagsList,
-    isHighRisk: isHighRisk,
-    risk_category: isHighRisk ? 'High Risk' : 'Normal', // Strict field
-    disputeStatus: disputeStatus,
-    disputeDeadline: disputeStatus === DisputeStatus.NEEDS_RESPONSE ? 'Review ASAP' : undefined
+    remote_tags: tagsList,
+    // Scored by riskService once the whole batch is known
+    isHighRisk: false,
+    native_risk_level: node.riskLevel?.toLowerCase(),
+    cancel_reason: node.cancelReason?.toLowerCase() || undefined,
+    billing_country: node.billingAddress?.countryCodeV2,
+    shipping_country: node.shippingAddress?.countryCodeV2 || node.customer?.defaultAddress?.countryCode,
+    // Filled in from Shopify Payments disputes during sync
+    disputeStatus: DisputeStatus.NONE,
+    // Same column names as the CSV export, so customer linking and rules read both alike
+    additional_data: compactFields({
+      'Phone': node.phone,
+      'Shipping Address1': node.shippingAddress?.address1,
+      'Shipping Address2': node.shippingAddress?.address2,
+      'Shipping City': node.shippingAddress?.city,
+      'Shipping Zip': node.shippingAddress?.zip,
+      'Shipping Country': node.shippingAddress?.countryCodeV2,
+      'Shipping Phone': node.shippingAddress?.phone,
+      'Browser IP': node.clientIp,
+      'Card BIN': card.bin,
+      // Masked, e.g. "•••• •••• •••• 4242"; list matching only reads the digits
+      'Card Number': card.number,
+    })
   };
+  return applyShipments(order, shipmentsFromShopify(node.fulfillments));
 };
 
 const extractShopDomain = (input: string): string => {
@@ -143,11 +279,149 @@ const extractShopDomain = (input: string): string => {
   return domain;
 };
 
-export const fetchOrders = async (domain: string, accessToken: string, useProxy: boolean = false): Promise<Order[]> => {
-  const cleanDomain = extractShopDomain(domain);
-  
-  console.log(`[ShopifyService] Connecting to: ${cleanDomain}`);
 
+export interface OrderPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+  pageNumber: number;
+}
+
+export interface FetchOrdersOptions {
+  // Only pull orders created inside this window (YYYY-MM-DD or ISO).
+  createdAfter?: string;
+  createdBefore?: string;
+  // Only pull orders changed since this timestamp (incremental sync)
+  updatedAfter?: string;
+  // Raw Shopify search syntax, e.g. "financial_status:paid tag:chargeback"
+  query?: string;
+  // Cursor to continue from (used when resuming an interrupted sync)
+  after?: string | null;
+  pageSize?: number;
+  // Called after every page. Awaited, so callers can persist before we move on.
+  onPage?: (orders: Order[], pageInfo: OrderPageInfo) => Promise<void> | void;
+}
+
+const PAGE_SIZE = 250; // Shopify Max
+const MAX_THROTTLE_RETRIES = 5;
+
+/**
+ * Builds the `query:` filter for the orders connection from the sync window.
+ */
+export const buildOrderSearchQuery = (options: Pick<FetchOrdersOptions, 'createdAfter' | 'createdBefore' | 'updatedAfter' | 'query'>): string => {
+  const parts: string[] = [];
+  if (options.updatedAfter) parts.push(`updated_at:>'${options.updatedAfter}'`);
+  if (options.createdAfter) parts.push(`created_at:>='${options.createdAfter}'`);
+  if (options.createdBefore) parts.push(`created_at:<='${options.createdBefore}'`);
+  if (options.query && options.query.trim()) parts.push(`(${options.query.trim()})`);
+  return parts.join(' AND ');
+};
+
+const ORDERS_QUERY = `
+  query Orders($first: Int!, $after: String, $query: String) {
+    orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT, reverse: true) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node {
+          name
+          createdAt
+          updatedAt
+          riskLevel
+          displayFinancialStatus
+          displayFulfillmentStatus
+          tags
+          cancelReason
+          phone
+          clientIp
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          customer {
+            id
+            firstName
+            lastName
+            email
+            ordersCount
+            defaultAddress {
+              city
+              provinceCode
+              countryCode
+            }
+          }
+          app {
+            name
+          }
+          billingAddress {
+            countryCodeV2
+          }
+          shippingAddress {
+            address1
+            address2
+            city
+            zip
+            phone
+            countryCodeV2
+          }
+          shippingLine {
+            title
+          }
+          transactions(first: 5) {
+            kind
+            status
+            paymentDetails {
+              ... on CardPaymentDetails {
+                bin
+                number
+              }
+            }
+          }
+          fulfillments(first: 10) {
+            createdAt
+            deliveredAt
+            displayStatus
+            trackingInfo(first: 5) {
+              number
+              company
+              url
+            }
+          }
+          lineItems(first: 5) {
+            edges {
+              node {
+                title
+                quantity
+                sku
+                originalUnitPriceSet {
+                  shopMoney {
+                    amount
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Sends a single GraphQL request, walking the proxy strategies until one answers.
+ * Throttled responses are retried with backoff before giving up.
+ */
+const postGraphQL = async <T>(
+  domain: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, any>,
+  useProxy: boolean
+): Promise<T> => {
+  const cleanDomain = extractShopDomain(domain);
   const targetUrl = `https://${cleanDomain}/admin/api/2024-01/graphql.json`;
 
   const strategies = useProxy 
@@ -157,100 +431,181 @@ export const fetchOrders = async (domain: string, accessToken: string, useProxy:
       ] 
     : [{ name: 'Direct', url: (url: string) => url }];
 
-  // Increased limit to 250 (Shopify Max)
-  const query = `
-    {
-      orders(first: 250, sortKey: CREATED_AT, reverse: true) {
+  let lastError: any = new Error("Unknown error occurred");
+
+  for (const strategy of strategies) {
+    for (let attempt = 0; attempt <= MAX_THROTTLE_RETRIES; attempt++) {
+      try {
+        const url = strategy.url(targetUrl);
+        
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 20000); // 20s timeout
+
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'X-Shopify-Access-Token': accessToken,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ query, variables }),
+          credentials: 'omit',
+          signal: controller.signal
+        });
+        
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          if (response.status === 403) throw new Error(`Shopify 403: Check 'read_orders' scope.`);
+          if (response.status === 401) throw new Error(`Shopify 401: Invalid Access Token.`);
+          if (response.status === 429 && attempt < MAX_THROTTLE_RETRIES) {
+            await new Promise(res => setTimeout(res, 1000 * 2 ** attempt));
+            continue;
+          }
+          throw new Error(`Proxy/API Error: ${response.status}`);
+        }
+
+        const json = await response.json();
+        
+        if (json.errors) {
+          const throttled = json.errors.some((e: any) => e.extensions?.code === 'THROTTLED');
+          if (throttled && attempt < MAX_THROTTLE_RETRIES) {
+            console.warn(`[ShopifyService] Throttled, retrying (attempt ${attempt + 1})`);
+            await new Promise(res => setTimeout(res, 1000 * 2 ** attempt));
+            continue;
+          }
+          throw new Error(json.errors[0].message);
+        }
+
+        return json as T;
+
+      } catch (err: any) {
+        console.warn(`[ShopifyService] ${strategy.name} failed:`, err.message);
+        lastError = err;
+        break;
+      }
+    }
+
+    if (!useProxy) throw lastError;
+    await new Promise(res => setTimeout(res, 500));
+  }
+
+  throw lastError;
+};
+
+/**
+ * Pulls every order matching the window, following `pageInfo.endCursor` until
+ * Shopify reports no further pages. Pass `after` to continue an earlier run.
+ */
+export const fetchOrders = async (
+  domain: string,
+  accessToken: string,
+  useProxy: boolean = false,
+  options: FetchOrdersOptions = {}
+): Promise<Order[]> => {
+  console.log(`[ShopifyService] Connecting to: ${extractShopDomain(domain)}`);
+
+  const searchQuery = buildOrderSearchQuery(options);
+  const allOrders: Order[] = [];
+  let cursor: string | null = options.after || null;
+  let pageNumber = 0;
+
+  while (true) {
+    const json = await postGraphQL<ShopifyGraphQLResponse>(
+      domain,
+      accessToken,
+      ORDERS_QUERY,
+      { first: options.pageSize || PAGE_SIZE, after: cursor, query: searchQuery || null },
+      useProxy
+    );
+
+    if (!json.data?.orders) break;
+
+    pageNumber++;
+    const { edges, pageInfo } = json.data.orders;
+    const pageOrders = edges.map(edge => mapGraphQLToAppOrder(edge.node));
+    allOrders.push(...pageOrders);
+
+    if (options.onPage) {
+      await options.onPage(pageOrders, { ...pageInfo, pageNumber });
+    }
+
+    if (!pageInfo.hasNextPage || !pageInfo.endCursor) break;
+    cursor = pageInfo.endCursor;
+  }
+
+  console.log(`[ShopifyService] Fetched ${allOrders.length} orders in ${pageNumber} pages`);
+  return allOrders;
+};
+
+const DISPUTES_QUERY = `
+  query Disputes($first: Int!, $after: String) {
+    shopifyPaymentsAccount {
+      disputes(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         edges {
           node {
-            name
-            createdAt
-            riskLevel
-            displayFinancialStatus
-            displayFulfillmentStatus
-            tags
-            cancelReason
-            totalPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
+            id
+            status
+            type
+            initiatedAt
+            evidenceDueBy
+            evidenceSentOn
+            finalizedOn
+            amount {
+              amount
+              currencyCode
             }
-            customer {
-              id
-              firstName
-              lastName
-              email
-              ordersCount
-              defaultAddress {
-                city
-                provinceCode
-                countryCode
-              }
+            reasonDetails {
+              reason
+              networkReasonCode
             }
-            app {
+            order {
               name
             }
-            shippingLine {
-              title
-            }
-            lineItems(first: 5) {
-              edges {
-                node {
-                  title
-                }
-              }
-            }
           }
         }
       }
     }
-  `;
+  }
+`;
 
-  let lastError: any = new Error("Unknown error occurred");
+/**
+ * Pulls every Shopify Payments dispute on the account.
+ * Requires the `read_shopify_payments_disputes` scope.
+ */
+export const fetchPaymentsDisputes = async (
+  domain: string,
+  accessToken: string,
+  useProxy: boolean = false
+): Promise<PaymentsDispute[]> => {
+  const disputes: PaymentsDispute[] = [];
+  let cursor: string | null = null;
 
-  for (const strategy of strategies) {
-    try {
-      const url = strategy.url(targetUrl);
-      console.log(`[ShopifyService] Attempting strategy: ${strategy.name}`);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 20000); // 20s timeout
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'X-Shopify-Access-Token': accessToken,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ query }),
-        credentials: 'omit',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        if (response.status === 403) throw new Error(`Shopify 403: Check 'read_orders' scope.`);
-        if (response.status === 401) throw new Error(`Shopify 401: Invalid Access Token.`);
-        throw new Error(`Proxy/API Error: ${response.status}`);
-      }
+  while (true) {
+    const json: ShopifyDisputesResponse = await postGraphQL<ShopifyDisputesResponse>(
+      domain,
+      accessToken,
+      DISPUTES_QUERY,
+      { first: PAGE_SIZE, after: cursor },
+      useProxy
+    );
 
-      const json: ShopifyGraphQLResponse = await response.json();
-      
-      if (json.errors) throw new Error(json.errors[0].message);
-      if (!json.data?.orders) return [];
+    const connection = json.data?.shopifyPaymentsAccount?.disputes;
+    if (!connection) break;
 
-      console.log(`[ShopifyService] Success via ${strategy.name}`);
-      return json.data.orders.edges.map(edge => mapGraphQLToAppOrder(edge.node));
+    connection.edges.forEach(({ node }) => {
+      if (node.order?.name) {
+        disputes.push({ orderName: node.order.name, dispute: mapGraphQLToDispute(node) });
+      }
+    });
 
-    } catch (err: any) {
-      console.warn(`[ShopifyService] ${strategy.name} failed:`, err.message);
-      lastError = err;
-      if (!useProxy) throw err;
-      await new Promise(res => setTimeout(res, 500));
-    }
+    if (!connection.pageInfo.hasNextPage || !connection.pageInfo.endCursor) break;
+    cursor = connection.pageInfo.endCursor;
   }
 
-  throw lastError;
+  console.log(`[ShopifyService] Fetched ${disputes.length} Shopify Payments disputes`);
+  return disputes;
 };
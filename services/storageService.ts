@@ -1,5 +1,8 @@
 import { supabase } from '../lib/supabase';
 import { Order } from '../types';
+import { withDisputeRecord, transitionDispute, getDisputeStatus } from './disputeService';
+import { mergeShipments, applyShipments } from './trackingService';
+import { removeUserEvidence } from './evidenceStorage';
 
 /**
  * SINGLE DB STRATEGY:
@@ -65,13 +68,127 @@ export const loadOrdersFromDb = async (): Promise<Order[]> => {
   }
 
   // And unwrap it so the UI gets the full Order object with Identifiers
-  return (data || []).map((row: any) => row.data as Order);
+  return (data || []).map((row: any) => withDisputeRecord(row.data as Order));
+};
+
+// Keeps `in (...)` filters well inside URL length limits
+const ID_CHUNK_SIZE = 200;
+
+export const loadOrdersByIds = async (ids: string[]): Promise<Order[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || ids.length === 0) return [];
+
+  const orders: Order[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('data')
+      .eq('user_id', user.id)
+      .in('id', ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      console.error('[Storage] Failed to load orders by id:', error);
+      throw new Error(`Database Error: ${error.message}`);
+    }
+    (data || []).forEach((row: any) => orders.push(withDisputeRecord(row.data as Order)));
+  }
+
+  return orders;
+};
+
+/**
+ * DELTA MERGE:
+ * Shopify is the source of truth for the order itself, but some fields only
+ * exist locally and must survive a re-sync:
+ * - savedDispute (rebuttal drafts)
+ * - dispute state (the sync applies processor disputes on top of the merged order)
+ * - original_category / import_error (quarantine state and history)
+ * - category_source (who decided the category)
+ * - CSV columns in additional_data that the API does not return
+ * - manual tag edits (tags added or removed in the app since the last sync)
+ * - carrier tracking looked up in the app (see mergeShipments)
+ */
+export const mergeOrderDelta = (existing: Order | undefined, incoming: Order): Order => {
+  if (!existing) return incoming;
+
+  // Three-way tag merge: last remote tags vs. local tags vs. new remote tags
+  const previousRemote = existing.remote_tags || existing.tags || [];
+  const localAdded = existing.tags.filter((t) => !previousRemote.includes(t));
+  const localRemoved = previousRemote.filter((t) => !existing.tags.includes(t));
+  const mergedTags = [
+    ...incoming.tags.filter((t) => !localRemoved.includes(t)),
+    ...localAdded.filter((t) => !incoming.tags.includes(t)),
+  ];
+
+  const merged: Order = applyShipments({
+    ...incoming,
+    tags: mergedTags,
+    remote_tags: incoming.tags,
+    savedDispute: incoming.savedDispute || existing.savedDispute,
+    dispute: existing.dispute,
+    disputeStatus: existing.disputeStatus,
+    disputeDeadline: existing.disputeDeadline,
+    original_category: existing.original_category,
+    category_source: existing.category_source,
+    import_error: existing.import_error,
+    additional_data: { ...(existing.additional_data || {}), ...(incoming.additional_data || {}) },
+  }, mergeShipments(existing.shipments, incoming.shipments));
+
+  // A quarantined order stays quarantined until the user fixes or approves it
+  if (existing.import_category === 'INVALID') {
+    merged.import_category = 'INVALID';
+  } else if (existing.import_category && !incoming.import_category) {
+    merged.import_category = existing.import_category;
+  }
+
+  return merged;
+};
+
+/**
+ * CSV counterpart of mergeOrderDelta: what only lives locally is kept the
+ * same way. Picking a category in the import dialog is a decision, though, so
+ * unlike a sync it moves the category and a dispute the import itself made;
+ * a processor's dispute is never touched. A bad row still quarantines.
+ */
+export const mergeImportedOrder = (existing: Order | undefined, incoming: Order): Order => {
+  if (!existing) return incoming;
+  const merged = mergeOrderDelta(existing, incoming);
+
+  if (existing.import_category === 'INVALID') return merged;
+  if (incoming.import_category === 'INVALID') {
+    return {
+      ...merged,
+      original_category: existing.import_category,
+      import_error: incoming.import_error,
+      isHighRisk: false,
+    };
+  }
+  if (!incoming.import_category || incoming.import_category === 'AUTO') {
+    return { ...merged, import_category: existing.import_category || 'AUTO' };
+  }
+
+  // The processor's dispute decides where the order belongs, not the file
+  const ownDispute = !merged.dispute || merged.dispute.source === 'import';
+  if (incoming.dispute && !ownDispute) return { ...merged, import_category: existing.import_category };
+
+  const categorized = { ...merged, category_source: incoming.category_source };
+  const status = getDisputeStatus(incoming);
+  if (!incoming.dispute || getDisputeStatus(merged) === status) return categorized;
+  return transitionDispute(categorized, status, 'import', `Imported as ${incoming.import_category}`);
 };
 
 export const clearAllImportedData = async (): Promise<void> => {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated.');
 
+  // Evidence rows are looked up by order number, so a re-import would pick them up again
+  await removeUserEvidence(user.id);
+  await supabase.from('evidence_packets').delete().eq('user_id', user.id);
+  await supabase.from('evidence_attachments').delete().eq('user_id', user.id);
+  await supabase.from('dispute_review_queue').delete().eq('user_id', user.id);
   await supabase.from('disputes').delete().eq('user_id', user.id);
+  await supabase.from('dispute_draft_versions').delete().eq('user_id', user.id);
+  await supabase.from('import_batch_orders').delete().eq('user_id', user.id);
+  await supabase.from('import_batches').delete().eq('user_id', user.id);
   await supabase.from('orders').delete().eq('user_id', user.id);
 };
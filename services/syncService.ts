@@ -0,0 +1,250 @@
+// src/services/syncService.ts
+import { supabase } from '../lib/supabase';
+import { Order, ShopifyCredentials, Dispute } from '../types';
+import { fetchOrders, buildOrderSearchQuery, fetchPaymentsDisputes } from './shopifyService';
+import { fetchSavedDisputes, applyProcessorDispute } from './disputeService';
+import { loadOrdersByIds, loadOrdersFromDb, mergeOrderDelta } from './storageService';
+import { startImportBatch, writeBatchOrders, finishImportBatch } from './batchService';
+import { classifyOrders, ClassificationConfig, DEFAULT_CLASSIFICATION } from './classificationService';
+import { createCustomerIndex } from './customerService';
+import { medianOrderValue } from './riskService';
+
+/**
+ * SHOPIFY SYNC:
+ * Pages are written to the database as soon as they arrive, and the cursor of
+ * the last saved page is kept in localStorage. If the tab is closed or the
+ * network drops halfway through, the next sync with the same window picks up
+ * from that cursor instead of starting over.
+ *
+ * INCREMENTAL MODE:
+ * The newest Shopify `updatedAt` we have stored is kept per user on the
+ * profile row. Incremental runs only ask for orders updated after it, and
+ * every page is merged into the stored orders rather than overwriting them.
+ *
+ * DISPUTES:
+ * Shopify Payments disputes are fetched in full on every run (there are far
+ * fewer of them than orders, and a status change does not always bump the
+ * order's updatedAt). Disputes for orders outside this run's window are
+ * patched onto the stored copies.
+ */
+
+export interface SyncWindow {
+  createdAfter?: string;
+  createdBefore?: string;
+  query?: string;
+  // Only fetch orders updated since the last successful sync
+  incremental?: boolean;
+}
+
+export interface SyncProgress {
+  pagesFetched: number;
+  ordersFetched: number;
+  resumed: boolean;
+  done: boolean;
+}
+
+export interface SyncCheckpoint {
+  filter: string;
+  cursor: string;
+  pagesFetched: number;
+  ordersFetched: number;
+  highWaterMark: string | null;
+  updatedAt: string;
+}
+
+export interface SyncResult {
+  ordersFetched: number;
+  pagesFetched: number;
+  resumed: boolean;
+  // The high-water mark after this run (null when nothing has been synced yet)
+  syncCursor: string | null;
+  // null when disputes could not be read (e.g. missing scope or no Shopify Payments)
+  disputesFetched: number | null;
+  warnings: string[];
+}
+
+const checkpointKey = (domain: string) => `fraudguard:sync-checkpoint:${domain.trim().toLowerCase()}`;
+
+export const loadSyncCheckpoint = (domain: string): SyncCheckpoint | null => {
+  try {
+    const raw = localStorage.getItem(checkpointKey(domain));
+    return raw ? (JSON.parse(raw) as SyncCheckpoint) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const saveSyncCheckpoint = (domain: string, checkpoint: SyncCheckpoint) => {
+  localStorage.setItem(checkpointKey(domain), JSON.stringify(checkpoint));
+};
+
+export const clearSyncCheckpoint = (domain: string) => {
+  localStorage.removeItem(checkpointKey(domain));
+};
+
+export const fetchSyncCursor = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('last_synced_updated_at')
+    .eq('id', user.id)
+    .single();
+
+  if (error) return null;
+  return data?.last_synced_updated_at || null;
+};
+
+const saveSyncCursor = async (cursor: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({ id: user.id, last_synced_updated_at: cursor, updated_at: new Date().toISOString() });
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+};
+
+const latestUpdatedAt = (orders: Order[], current: string | null): string | null => {
+  return orders.reduce<string | null>((max, order) => {
+    if (!order.updated_at) return max;
+    return !max || Date.parse(order.updated_at) > Date.parse(max) ? order.updated_at : max;
+  }, current);
+};
+
+// Keeps the most recently opened dispute per order
+const indexDisputesByOrder = (disputes: Array<{ orderName: string; dispute: Dispute }>) => {
+  const byOrder = new Map<string, Dispute>();
+  disputes.forEach(({ orderName, dispute }) => {
+    const current = byOrder.get(orderName);
+    if (!current || Date.parse(dispute.openedAt || '') > Date.parse(current.openedAt || '')) {
+      byOrder.set(orderName, dispute);
+    }
+  });
+  return byOrder;
+};
+
+export const syncShopifyOrders = async (
+  credentials: ShopifyCredentials,
+  window: SyncWindow,
+  onProgress?: (progress: SyncProgress) => void,
+  classification: ClassificationConfig = DEFAULT_CLASSIFICATION
+): Promise<SyncResult> => {
+  const { shopDomain, accessToken, useProxy = false } = credentials;
+  if (!shopDomain || !accessToken) {
+    throw new Error('Shopify store domain and access token are required to sync.');
+  }
+
+  const previousCursor = await fetchSyncCursor();
+  const updatedAfter = window.incremental && previousCursor ? previousCursor : undefined;
+  const filter = buildOrderSearchQuery({ ...window, updatedAfter });
+
+  // Only resume when the previous run used the exact same window
+  const existing = loadSyncCheckpoint(shopDomain);
+  const checkpoint = existing && existing.filter === filter ? existing : null;
+  if (existing && !checkpoint) clearSyncCheckpoint(shopDomain);
+
+  const resumed = !!checkpoint;
+  let pagesFetched = checkpoint?.pagesFetched || 0;
+  let ordersFetched = checkpoint?.ordersFetched || 0;
+
+  const savedDisputes = await fetchSavedDisputes();
+  const warnings: string[] = [];
+
+  // Risk signals compare each order against everything we know about the
+  // store. Pages are linked against the clusters they touch, and the median
+  // is taken once: one page barely moves it
+  const storedOrders = await loadOrdersFromDb();
+  const customers = createCustomerIndex(storedOrders);
+  const storeMedian = medianOrderValue(storedOrders);
+
+  let disputesByOrder = new Map<string, Dispute>();
+  let disputesFetched: number | null = null;
+  try {
+    const paymentsDisputes = await fetchPaymentsDisputes(shopDomain, accessToken, useProxy);
+    disputesByOrder = indexDisputesByOrder(paymentsDisputes);
+    disputesFetched = paymentsDisputes.length;
+  } catch (err: any) {
+    console.warn('[SyncService] Could not read Shopify Payments disputes:', err.message);
+    warnings.push(`Disputes were not synced (${err.message}). Check the 'read_shopify_payments_disputes' scope.`);
+  }
+  const seenOrderIds = new Set<string>();
+
+  onProgress?.({ pagesFetched, ordersFetched, resumed, done: false });
+
+  let highWaterMark = checkpoint?.highWaterMark || previousCursor;
+
+  // Each run is its own batch, so a bad sync can be rolled back from Import History
+  const batch = await startImportBatch({ source: 'shopify_sync', fileName: shopDomain });
+  let rowsThisRun = 0;
+  let ordersWritten = 0;
+
+  try {
+    await fetchOrders(shopDomain, accessToken, useProxy, {
+      ...window,
+      updatedAfter,
+      after: checkpoint?.cursor,
+      onPage: async (pageOrders: Order[], pageInfo) => {
+        const stored = await loadOrdersByIds(pageOrders.map((o) => o.id));
+        const storedById = new Map(stored.map((o) => [o.id, o]));
+
+        const merged = pageOrders.map((order) => {
+          seenOrderIds.add(order.id);
+          const saved = savedDisputes.find((d) => d.order_id === order.id);
+          const dispute = disputesByOrder.get(order.id);
+          const incoming = saved ? { ...order, savedDispute: saved } : order;
+          const merged = mergeOrderDelta(storedById.get(order.id), incoming);
+          return dispute ? applyProcessorDispute(merged, dispute) : merged;
+        });
+
+        const classified = classifyOrders(merged, classification, customers.related(merged), storeMedian);
+        customers.put(classified);
+
+        ordersWritten += (await writeBatchOrders(batch, classified, storedById)).length;
+        rowsThisRun += pageOrders.length;
+        highWaterMark = latestUpdatedAt(pageOrders, highWaterMark);
+
+        pagesFetched++;
+        ordersFetched += pageOrders.length;
+
+        if (pageInfo.hasNextPage && pageInfo.endCursor) {
+          saveSyncCheckpoint(shopDomain, {
+            filter,
+            cursor: pageInfo.endCursor,
+            pagesFetched,
+            ordersFetched,
+            highWaterMark,
+            updatedAt: new Date().toISOString(),
+          });
+        }
+
+        onProgress?.({ pagesFetched, ordersFetched, resumed, done: false });
+      },
+    });
+
+    clearSyncCheckpoint(shopDomain);
+
+    const unseenDisputeOrderIds = Array.from(disputesByOrder.keys()).filter((id) => !seenOrderIds.has(id));
+    if (unseenDisputeOrderIds.length > 0) {
+      const stored = await loadOrdersByIds(unseenDisputeOrderIds);
+      const disputed = stored.map((order) => applyProcessorDispute(order, disputesByOrder.get(order.id)!));
+      const patched = classifyOrders(disputed, classification, customers.related(disputed), storeMedian);
+      ordersWritten += (await writeBatchOrders(batch, patched, new Map(stored.map((o) => [o.id, o])))).length;
+    }
+  } finally {
+    await finishImportBatch(batch, rowsThisRun, ordersWritten);
+  }
+
+  // A windowed or filtered full sync may have skipped orders, so it must not
+  // move the high-water mark past them.
+  const coversEverything = !window.createdAfter && !window.createdBefore && !window.query;
+  if (coversEverything && highWaterMark && highWaterMark !== previousCursor) {
+    await saveSyncCursor(highWaterMark);
+  }
+
+  onProgress?.({ pagesFetched, ordersFetched, resumed, done: true });
+
+  return { ordersFetched, pagesFetched, resumed, syncCursor: highWaterMark, disputesFetched, warnings };
+};
@@ -0,0 +1,28 @@
+// src/services/tagService.ts
+
+/**
+ * Tags are matched on whole words, never substrings.
+ * "chargeback-won" contains the word "won"; "wonderful-customer" does not.
+ */
+export const tagTokens = (tag: string): string[] => {
+  return tag.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+};
+
+const containsPhrase = (tokens: string[], phrase: string[]): boolean => {
+  if (phrase.length === 0 || phrase.length > tokens.length) return false;
+  for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) return true;
+  }
+  return false;
+};
+
+/**
+ * True if any tag contains one of the keywords as a whole word (or, for
+ * multi-word keywords like "under review", as consecutive words).
+ */
+export const hasTagKeyword = (tags: string[], keywords: string[]): boolean => {
+  return tags.some((tag) => {
+    const tokens = tagTokens(tag);
+    return keywords.some((keyword) => containsPhrase(tokens, tagTokens(keyword)));
+  });
+};
@@ -0,0 +1,330 @@
+// src/services/templateService.ts
+import { supabase } from '../lib/supabase';
+import { Order, DisputeReason, TemplateReason, RebuttalTemplate, EvidenceAttachment } from '../types';
+import { formatDisputeReason } from './disputeService';
+import { EVIDENCE_TYPE_LABELS } from './attachmentService';
+import { primaryShipment, SHIPMENT_STATUS_LABELS } from './trackingService';
+
+/**
+ * REBUTTAL TEMPLATES:
+ * One letter per dispute reason, written with `{{order.id}}`-style
+ * placeholders and filled in from the order, its customer and dispute, the
+ * uploaded evidence and the merchant. Rendering is plain substitution, so a
+ * letter can be produced with no LLM at all.
+ * Users edit the built-in letters in the `rebuttal_templates` table. Saves
+ * never overwrite: each one adds the next version, and the newest version
+ * of a reason is the one used.
+ */
+
+export const TEMPLATE_REASONS: { reason: TemplateReason; label: string; covers: DisputeReason[] }[] = [
+  {
+    reason: DisputeReason.FRAUDULENT,
+    label: 'Fraudulent / unauthorized',
+    covers: [DisputeReason.FRAUDULENT, DisputeReason.UNRECOGNIZED, DisputeReason.DEBIT_NOT_AUTHORIZED],
+  },
+  { reason: DisputeReason.PRODUCT_NOT_RECEIVED, label: 'Product not received', covers: [DisputeReason.PRODUCT_NOT_RECEIVED] },
+  { reason: DisputeReason.PRODUCT_UNACCEPTABLE, label: 'Not as described', covers: [DisputeReason.PRODUCT_UNACCEPTABLE] },
+  { reason: DisputeReason.DUPLICATE, label: 'Duplicate charge', covers: [DisputeReason.DUPLICATE] },
+  { reason: DisputeReason.SUBSCRIPTION_CANCELED, label: 'Subscription cancelled', covers: [DisputeReason.SUBSCRIPTION_CANCELED] },
+  { reason: DisputeReason.CREDIT_NOT_PROCESSED, label: 'Credit not processed', covers: [DisputeReason.CREDIT_NOT_PROCESSED] },
+  { reason: DisputeReason.GENERAL, label: 'General (all other reasons)', covers: [] },
+];
+
+export const templateReasonFor = (reason?: DisputeReason): TemplateReason =>
+  TEMPLATE_REASONS.find((t) => reason && t.covers.includes(reason))?.reason || DisputeReason.GENERAL;
+
+// Shown in the editor; any other order field also works as {{order.<field>}}
+export const TEMPLATE_VARIABLES: { key: string; label: string }[] = [
+  { key: 'order.id', label: 'Order number' },
+  { key: 'order.date', label: 'Order date' },
+  { key: 'order.total', label: 'Order total with currency' },
+  { key: 'order.items', label: 'Line items, e.g. "2 × Hoodie (SKU H-1)"' },
+  { key: 'order.itemsCount', label: 'Number of items' },
+  { key: 'order.paymentStatus', label: 'Payment status' },
+  { key: 'order.fulfillmentStatus', label: 'Fulfillment status' },
+  { key: 'order.deliveryMethod', label: 'Delivery method' },
+  { key: 'order.channel', label: 'Sales channel' },
+  { key: 'customer.name', label: 'Customer name' },
+  { key: 'customer.email', label: 'Customer email' },
+  { key: 'customer.location', label: 'Shipping location' },
+  { key: 'customer.ordersCount', label: 'Orders the customer has placed' },
+  { key: 'dispute.id', label: 'Dispute ID' },
+  { key: 'dispute.reason', label: 'Dispute reason' },
+  { key: 'dispute.networkReasonCode', label: 'Card network reason code' },
+  { key: 'dispute.amount', label: 'Disputed amount with currency' },
+  { key: 'dispute.openedAt', label: 'Date the dispute was opened' },
+  { key: 'dispute.evidenceDueBy', label: 'Evidence due date' },
+  { key: 'shipment.carrier', label: 'Carrier of the delivered (or first) shipment' },
+  { key: 'shipment.trackingNumber', label: 'Tracking number' },
+  { key: 'shipment.status', label: 'Tracking status, e.g. "Delivered"' },
+  { key: 'shipment.deliveredAt', label: 'Date the carrier reported delivery' },
+  { key: 'shipment.deliveryLocation', label: 'Where the parcel was left' },
+  { key: 'evidence.list', label: 'Uploaded evidence, one file per line' },
+  { key: 'merchant.name', label: 'Store name' },
+  { key: 'today', label: "Today's date" },
+];
+
+const HEADER = `{{merchant.name}}
+{{today}}
+
+Re: Dispute {{dispute.id}} for order {{order.id}} ({{dispute.amount}})
+Reason given: {{dispute.reason}}
+
+To the dispute team,
+`;
+
+const FOOTER = `
+Supporting evidence:
+{{evidence.list}}
+
+For the reasons above we ask that the dispute be decided in our favour and the funds of {{dispute.amount}} returned.
+
+Sincerely,
+{{merchant.name}}`;
+
+export const DEFAULT_TEMPLATES: Record<TemplateReason, string> = {
+  [DisputeReason.FRAUDULENT]: `${HEADER}
+We are contesting this dispute because order {{order.id}} was a genuine purchase that we fulfilled as ordered.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- It was shipped by {{order.deliveryMethod}} to {{customer.location}}, the address given at checkout. Fulfillment status: {{order.fulfillmentStatus}}.
+- The customer has placed {{customer.ordersCount}} orders with us.
+${FOOTER}`,
+
+  [DisputeReason.PRODUCT_NOT_RECEIVED]: `${HEADER}
+We are contesting this dispute because order {{order.id}} was shipped to the address the customer provided.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- It was sent by {{order.deliveryMethod}} to {{customer.location}}. Fulfillment status: {{order.fulfillmentStatus}}.
+
+The attached evidence shows the shipment and its delivery.
+${FOOTER}`,
+
+  [DisputeReason.PRODUCT_UNACCEPTABLE]: `${HEADER}
+We are contesting this dispute because the goods supplied in order {{order.id}} matched their description.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- Each item was supplied as described on our store at the time of purchase.
+
+Our refund policy sets out how customers can return items they are unhappy with. We have no record of a return being started for this order.
+${FOOTER}`,
+
+  [DisputeReason.DUPLICATE]: `${HEADER}
+We are contesting this dispute because the charge for order {{order.id}} is not a duplicate.
+
+- Order {{order.id}} was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- It was charged once. Any other charge to this card belongs to a separate order for separate goods.
+${FOOTER}`,
+
+  [DisputeReason.SUBSCRIPTION_CANCELED]: `${HEADER}
+We are contesting this dispute because the charge for order {{order.id}} was made before any cancellation was received.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- The customer agreed to our subscription and cancellation terms at checkout.
+${FOOTER}`,
+
+  [DisputeReason.CREDIT_NOT_PROCESSED]: `${HEADER}
+We are contesting this dispute because the customer is not owed a refund for order {{order.id}}.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- Payment status: {{order.paymentStatus}}. We have no record of a return being received under our refund policy.
+${FOOTER}`,
+
+  [DisputeReason.GENERAL]: `${HEADER}
+We are contesting this dispute for order {{order.id}}.
+
+- The order was placed on {{order.date}} by {{customer.name}} ({{customer.email}}) for {{order.total}}.
+- It contained: {{order.items}}.
+- It was sent by {{order.deliveryMethod}} to {{customer.location}}. Fulfillment status: {{order.fulfillmentStatus}}.
+${FOOTER}`,
+};
+
+// --- RENDERING ---
+
+export interface TemplateInputs {
+  order: Order;
+  attachments?: EvidenceAttachment[];
+  merchantName?: string;
+  // Defaults to now; passed in so output is reproducible
+  today?: Date;
+}
+
+export interface RenderedLetter {
+  text: string;
+  // Placeholders with no value; they are left in the text as written
+  missing: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const formatDate = (value?: string | Date): string | undefined => {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return typeof value === 'string' ? value : undefined;
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+const formatAmount = (amount: number | undefined, currency?: string): string | undefined => {
+  if (amount === undefined || amount === null || isNaN(amount)) return undefined;
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount);
+};
+
+const describeItems = (order: Order): string | undefined => {
+  if (!order.line_items || order.line_items.length === 0) return undefined;
+  return order.line_items
+    .map((item) => `${item.quantity} × ${item.title}${item.sku ? ` (SKU ${item.sku})` : ''}`)
+    .join(', ');
+};
+
+const buildContext = ({ order, attachments = [], merchantName, today = new Date() }: TemplateInputs) => {
+  const dispute = order.dispute;
+  const shipment = primaryShipment(order);
+  return {
+    order: {
+      ...order,
+      date: formatDate(order.date),
+      total: formatAmount(order.total, order.currency),
+      items: describeItems(order),
+    },
+    customer: order.customer,
+    dispute: dispute && {
+      ...dispute,
+      reason: formatDisputeReason(dispute.reason),
+      amount: formatAmount(dispute.amount, dispute.currency),
+      openedAt: formatDate(dispute.openedAt),
+      evidenceDueBy: formatDate(dispute.evidenceDueBy),
+    },
+    shipment: shipment && {
+      ...shipment,
+      status: SHIPMENT_STATUS_LABELS[shipment.status],
+      deliveredAt: formatDate(shipment.deliveredAt),
+    },
+    evidence: {
+      list: attachments.length > 0
+        ? attachments.map((a) => `- ${EVIDENCE_TYPE_LABELS[a.evidence_type] || a.evidence_type}: ${a.file_name}`).join('\n')
+        : undefined,
+    },
+    merchant: { name: merchantName },
+    today: formatDate(today),
+  };
+};
+
+const resolve = (context: Record<string, any>, path: string): string | undefined => {
+  // CSV column names can contain anything, so only the first dot splits
+  const extra = 'order.additional_data.';
+  const value = path.startsWith(extra)
+    ? context.order?.additional_data?.[path.slice(extra.length)]
+    : path.split('.').reduce<any>((v, key) => (v == null ? undefined : v[key]), context);
+
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) {
+    const parts = value.filter((v) => typeof v !== 'object');
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+  return typeof value === 'object' ? undefined : String(value);
+};
+
+export const renderTemplate = (body: string, inputs: TemplateInputs): RenderedLetter => {
+  const context = buildContext(inputs);
+  const missing = new Set<string>();
+  const text = body.replace(PLACEHOLDER, (placeholder, path: string) => {
+    const value = resolve(context, path);
+    if (value === undefined) {
+      missing.add(path);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, missing: Array.from(missing) };
+};
+
+/**
+ * Placeholders in a template that no order could ever fill (typos).
+ */
+export const unknownPlaceholders = (body: string): string[] => {
+  const known = new Set(TEMPLATE_VARIABLES.map((v) => v.key));
+  const roots = ['order.', 'customer.', 'dispute.', 'shipment.'];
+  const found = Array.from(body.matchAll(PLACEHOLDER), (m) => m[1]);
+  return Array.from(new Set(found.filter((path) => !known.has(path) && !roots.some((root) => path.startsWith(root)))));
+};
+
+// --- VERSIONS ---
+
+export const latestTemplate = (templates: RebuttalTemplate[], reason: TemplateReason): RebuttalTemplate | undefined =>
+  templates
+    .filter((t) => t.reason === reason)
+    .sort((a, b) => b.version - a.version)[0];
+
+export const templateBody = (templates: RebuttalTemplate[], reason: TemplateReason): string =>
+  latestTemplate(templates, reason)?.body ?? DEFAULT_TEMPLATES[reason];
+
+/**
+ * Fills in the template for the order's dispute reason.
+ */
+export const renderLetterForOrder = (templates: RebuttalTemplate[], inputs: TemplateInputs): RenderedLetter =>
+  renderTemplate(templateBody(templates, templateReasonFor(inputs.order.dispute?.reason)), inputs);
+
+// --- PERSISTENCE ---
+
+/**
+ * Every saved version, newest first.
+ */
+export const fetchRebuttalTemplates = async (): Promise<RebuttalTemplate[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('rebuttal_templates')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching rebuttal templates:', error);
+    return [];
+  }
+
+  return data as RebuttalTemplate[];
+};
+
+/**
+ * Saves `body` as the next version of the reason's template. Restoring an
+ * old version saves its body again, so history is never rewritten.
+ */
+export const saveRebuttalTemplate = async (reason: TemplateReason, body: string): Promise<RebuttalTemplate> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data: latest, error: versionError } = await supabase
+    .from('rebuttal_templates')
+    .select('version')
+    .eq('user_id', user.id)
+    .eq('reason', reason)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (versionError) throw new Error(`Database Error: ${versionError.message}`);
+
+  const { data, error } = await supabase
+    .from('rebuttal_templates')
+    .insert({
+      user_id: user.id,
+      reason,
+      version: (latest?.version || 0) + 1,
+      body,
+      created_by: user.email || user.id,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database Error: ${error.message}`);
+  return data as RebuttalTemplate;
+};
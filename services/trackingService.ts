@@ -0,0 +1,297 @@
+// src/services/trackingService.ts
+import { Order, DeliveryStatus, Shipment, ShipmentStatus, TrackingEvent } from '../types';
+
+/**
+ * SHIPMENT TRACKING:
+ * Delivery status used to be guessed from the fulfillment status. Now it
+ * follows the order's shipments:
+ *   - Shopify fulfillments bring tracking numbers, the carrier and, when
+ *     Shopify knows it, the delivered date
+ *   - CSV imports read tracking columns from additional_data
+ *   - a carrier adapter can then be asked for scan events, the delivered
+ *     timestamp and where the parcel was left
+ * Only a shipment reported as delivered makes the order Delivered.
+ *
+ * Adapters are pluggable. The mock adapter invents plausible, repeatable
+ * events from the tracking number so the flow can be tried locally. Its
+ * results are marked simulated: they never make an order Delivered and are
+ * left out of letters, claim checks and evidence packets.
+ */
+
+export type TrackingAdapterId = 'none' | 'mock';
+
+export interface TrackingRequest {
+  trackingNumber: string;
+  carrier?: string;
+  shippedAt?: string;
+}
+
+export interface TrackingResult {
+  status: ShipmentStatus;
+  // Newest first
+  events: TrackingEvent[];
+  deliveredAt?: string;
+  deliveryLocation?: string;
+  // Made up rather than reported by a carrier
+  simulated?: boolean;
+}
+
+export interface CarrierAdapter {
+  id: TrackingAdapterId;
+  label: string;
+  track: (request: TrackingRequest) => Promise<TrackingResult>;
+}
+
+export const TRACKING_ADAPTER_LABELS: Record<TrackingAdapterId, string> = {
+  none: 'Off (tracking numbers only)',
+  mock: 'Mock carrier (local testing)',
+};
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  unknown: 'No status',
+  pre_transit: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+  returned: 'Returned to sender',
+};
+
+// --- CARRIERS ---
+
+// Best-effort guesses for numbers that arrive without a carrier
+const CARRIER_PATTERNS: Array<{ carrier: string; pattern: RegExp }> = [
+  { carrier: 'UPS', pattern: /^1Z[0-9A-Z]{16}$/i },
+  { carrier: 'USPS', pattern: /^(94|93|92|95)\d{20}$|^[A-Z]{2}\d{9}US$/i },
+  { carrier: 'FedEx', pattern: /^\d{12}$|^\d{15}$/ },
+  { carrier: 'DHL', pattern: /^\d{10}$|^JD\d{18}$/i },
+];
+
+export const detectCarrier = (trackingNumber: string): string | undefined =>
+  CARRIER_PATTERNS.find(({ pattern }) => pattern.test(trackingNumber.replace(/\s/g, '')))?.carrier;
+
+// Shopify's fulfillment displayStatus values
+const SHOPIFY_STATUSES: Record<string, ShipmentStatus> = {
+  LABEL_PRINTED: 'pre_transit',
+  LABEL_PURCHASED: 'pre_transit',
+  READY_FOR_PICKUP: 'pre_transit',
+  CONFIRMED: 'pre_transit',
+  IN_TRANSIT: 'in_transit',
+  FULFILLED: 'unknown',
+  MARKED_AS_FULFILLED: 'unknown',
+  OUT_FOR_DELIVERY: 'out_for_delivery',
+  ATTEMPTED_DELIVERY: 'exception',
+  FAILURE: 'exception',
+  DELIVERED: 'delivered',
+  PICKED_UP: 'delivered',
+  CANCELED: 'returned',
+};
+
+/**
+ * Shipments from the `fulfillments` of a Shopify order node. One shipment
+ * per tracking number; fulfillments without tracking are skipped.
+ */
+export const shipmentsFromShopify = (fulfillments: any[] = []): Shipment[] =>
+  fulfillments.flatMap((fulfillment) => {
+    const status = fulfillment.deliveredAt ? 'delivered' : SHOPIFY_STATUSES[fulfillment.displayStatus] || 'unknown';
+    return (fulfillment.trackingInfo || [])
+      .filter((info: any) => info?.number)
+      .map((info: any): Shipment => ({
+        trackingNumber: String(info.number).trim(),
+        carrier: info.company || detectCarrier(String(info.number)),
+        trackingUrl: info.url || undefined,
+        status,
+        shippedAt: fulfillment.createdAt || undefined,
+        deliveredAt: fulfillment.deliveredAt || undefined,
+        statusSource: 'Shopify',
+      }));
+  });
+
+const TRACKING_NUMBER_COLUMN = /tracking (number|no|#|code)|^tracking$/i;
+const CARRIER_COLUMN = /tracking company|carrier|shipping company/i;
+const TRACKING_URL_COLUMN = /tracking (url|link)/i;
+const SHIPPED_AT_COLUMN = /fulfilled at|shipped at|ship date/i;
+
+const firstColumn = (data: Record<string, any>, pattern: RegExp): string | undefined => {
+  const key = Object.keys(data).find((k) => pattern.test(k) && data[k] !== null && String(data[k]).trim() !== '');
+  return key ? String(data[key]).trim() : undefined;
+};
+
+/**
+ * Shipments from imported CSV columns. Several numbers in one cell
+ * (comma, semicolon or space separated) become several shipments.
+ */
+export const shipmentsFromColumns = (data: Record<string, any> = {}): Shipment[] => {
+  const numbers = firstColumn(data, TRACKING_NUMBER_COLUMN);
+  if (!numbers) return [];
+  const carrier = firstColumn(data, CARRIER_COLUMN);
+  const trackingUrl = firstColumn(data, TRACKING_URL_COLUMN);
+  const shippedAt = firstColumn(data, SHIPPED_AT_COLUMN);
+  return Array.from(new Set(numbers.split(/[,;\s]+/).filter(Boolean))).map((trackingNumber) => ({
+    trackingNumber,
+    carrier: carrier || detectCarrier(trackingNumber),
+    trackingUrl,
+    status: 'unknown' as const,
+    shippedAt,
+  }));
+};
+
+// --- ORDER STATUS ---
+
+/**
+ * Sets deliveryStatus, delivered_at and delivery_location from the
+ * shipments. An order is Delivered only when every shipment is; the latest
+ * delivery is the one reported. Simulated statuses count as no status.
+ */
+export const applyShipments = (order: Order, shipments: Shipment[]): Order => {
+  if (shipments.length === 0) {
+    return { ...order, shipments: undefined, deliveryStatus: DeliveryStatus.NO_STATUS, delivered_at: undefined, delivery_location: undefined };
+  }
+  const reported = shipments.filter((s) => !s.simulated);
+  const delivered = reported.filter((s) => s.status === 'delivered');
+  const allDelivered = delivered.length === shipments.length;
+  const latest = [...delivered].sort((a, b) => Date.parse(b.deliveredAt || '') - Date.parse(a.deliveredAt || ''))[0];
+  const moving = reported.some((s) => s.status === 'in_transit' || s.status === 'out_for_delivery' || s.status === 'delivered');
+
+  return {
+    ...order,
+    shipments,
+    deliveryStatus: allDelivered ? DeliveryStatus.DELIVERED : moving ? DeliveryStatus.IN_TRANSIT : DeliveryStatus.NO_STATUS,
+    delivered_at: allDelivered ? latest?.deliveredAt : undefined,
+    delivery_location: allDelivered ? latest?.deliveryLocation : undefined,
+  };
+};
+
+/**
+ * Keeps what a carrier lookup found when Shopify re-sends the same tracking
+ * number, unless Shopify has since seen the delivery itself or the lookup
+ * was simulated. Tracking that only exists locally (e.g. from a CSV)
+ * survives a sync without any.
+ */
+export const mergeShipments = (existing: Shipment[] = [], incoming: Shipment[] = []): Shipment[] => {
+  if (incoming.length === 0) return existing;
+  return incoming.map((shipment) => {
+    const known = existing.find((s) => s.trackingNumber === shipment.trackingNumber);
+    if (!known?.checkedAt || known.simulated || shipment.status === 'delivered') return shipment;
+    return {
+      ...shipment,
+      status: known.status,
+      events: known.events,
+      deliveredAt: known.deliveredAt,
+      deliveryLocation: known.deliveryLocation,
+      statusSource: known.statusSource,
+      checkedAt: known.checkedAt,
+    };
+  });
+};
+
+/**
+ * The order's shipments as evidence: a simulated lookup keeps its tracking
+ * number but loses the status, scans and delivery it made up.
+ */
+export const reportedShipments = (order: Order): Shipment[] =>
+  (order.shipments || []).map((shipment) => shipment.simulated
+    ? {
+      trackingNumber: shipment.trackingNumber,
+      carrier: shipment.carrier,
+      trackingUrl: shipment.trackingUrl,
+      shippedAt: shipment.shippedAt,
+      status: 'unknown',
+    }
+    : shipment);
+
+// The shipment a letter should talk about: a delivered one, else the first
+export const primaryShipment = (order: Order): Shipment | undefined => {
+  const shipments = reportedShipments(order);
+  return shipments.find((s) => s.status === 'delivered') || shipments[0];
+};
+
+// --- ADAPTERS ---
+
+// FNV-1a; the mock only needs the same number to give the same story
+const hashNumber = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const MOCK_CITIES = ['Columbus, OH', 'Memphis, TN', 'Louisville, KY', 'Reno, NV', 'Allentown, PA'];
+const MOCK_DROP_OFFS = ['Front door', 'Mailroom', 'Porch', 'Left with resident', 'Parcel locker'];
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Repeatable fake tracking: most numbers are delivered three to five days
+ * after shipping, some are still moving and a few hit an exception.
+ */
+export const createMockCarrierAdapter = (): CarrierAdapter => ({
+  id: 'mock',
+  label: TRACKING_ADAPTER_LABELS.mock,
+  track: async ({ trackingNumber, shippedAt }) => {
+    const hash = hashNumber(trackingNumber);
+    const shipped = Date.parse(shippedAt || '') || Date.now() - 6 * 24 * HOUR;
+    const hub = MOCK_CITIES[hash % MOCK_CITIES.length];
+    const outcome = hash % 10;
+    const transitHours = 72 + (hash % 48);
+
+    const scans: TrackingEvent[] = [
+      { at: new Date(shipped).toISOString(), status: 'pre_transit', description: 'Shipping label created' },
+      { at: new Date(shipped + 8 * HOUR).toISOString(), status: 'in_transit', description: 'Picked up by carrier' },
+      { at: new Date(shipped + 30 * HOUR).toISOString(), status: 'in_transit', description: 'Arrived at carrier facility', location: hub },
+    ];
+    const events = scans.filter((e) => Date.parse(e.at) <= Date.now());
+
+    const arrivesAt = shipped + transitHours * HOUR;
+    if (outcome === 0) {
+      events.push({ at: new Date(shipped + 52 * HOUR).toISOString(), status: 'exception', description: 'Delivery attempted, no access to address' });
+    } else if (outcome > 1 && arrivesAt <= Date.now()) {
+      events.push(
+        { at: new Date(arrivesAt - 6 * HOUR).toISOString(), status: 'out_for_delivery', description: 'Out for delivery' },
+        { at: new Date(arrivesAt).toISOString(), status: 'delivered', description: `Delivered: ${MOCK_DROP_OFFS[hash % MOCK_DROP_OFFS.length]}` }
+      );
+    }
+
+    const last = events[events.length - 1];
+    const delivered = last?.status === 'delivered';
+    return {
+      status: last?.status || 'unknown',
+      events: events.reverse(),
+      deliveredAt: delivered ? last.at : undefined,
+      deliveryLocation: delivered ? MOCK_DROP_OFFS[hash % MOCK_DROP_OFFS.length] : undefined,
+      simulated: true,
+    };
+  },
+});
+
+export const createCarrierAdapter = (id: TrackingAdapterId): CarrierAdapter | null =>
+  id === 'mock' ? createMockCarrierAdapter() : null;
+
+/**
+ * Asks the adapter about every shipment on the order and returns the order
+ * with their status applied. A shipment the carrier cannot answer for keeps
+ * what it had; the errors are returned for the caller to report.
+ */
+export const refreshOrderTracking = async (order: Order, adapter: CarrierAdapter): Promise<{ order: Order; errors: string[] }> => {
+  const errors: string[] = [];
+  const shipments = await Promise.all((order.shipments || []).map(async (shipment): Promise<Shipment> => {
+    try {
+      const result = await adapter.track({ trackingNumber: shipment.trackingNumber, carrier: shipment.carrier, shippedAt: shipment.shippedAt });
+      return {
+        ...shipment,
+        status: result.status,
+        events: result.events,
+        deliveredAt: result.deliveredAt,
+        deliveryLocation: result.deliveryLocation,
+        statusSource: adapter.label,
+        checkedAt: new Date().toISOString(),
+        simulated: result.simulated || undefined,
+      };
+    } catch (error: any) {
+      errors.push(`${shipment.trackingNumber}: ${error?.message || 'tracking lookup failed'}`);
+      return shipment;
+    }
+  }));
+  return { order: applyShipments(order, shipments), errors };
+};
@@ -1,6 +1,10 @@
 // src/services/validationService.ts
-import { Order, DisputeStatus, ImportCategory } from '../types';
+import { Order, DisputeStatus, DisputeEventSource, ImportCategory, RiskRule } from '../types';
 import { loadOrdersFromDb, saveOrdersToDb } from './storageService';
+import { recordOrderChanges } from './auditService';
+import { transitionDispute } from './disputeService';
+import { resolveRuleCategory, CATEGORY_DISPUTE_STATUS, DEFAULT_RULES } from './rulesService';
+import { classifyOrders, ClassificationConfig, DEFAULT_CLASSIFICATION } from './classificationService';
 
 // --- HELPERS (Must be at the top to avoid ReferenceError) ---
 
@@ -9,30 +13,15 @@ const isValidDate = (dateStr: string) => !isNaN(Date.parse(dateStr));
 const hasNumbers = (str: string) => /\d/.test(str);
 
 /**
- * Helper to figure out where an order belongs based on tags.
+ * Sets the dispute status implied by a category. A dispute reported by a
+ * processor is left alone: only our own import placeholders follow tags.
  */
-const determineCategoryFromTags = (tags: string[]) => {
-    const lowerTags = tags.map(t => t.toLowerCase());
-    
-    if (lowerTags.some(t => t.includes('won'))) {
-        return { category: 'DISPUTE_WON', status: DisputeStatus.WON, isHighRisk: false };
-    } 
-    if (lowerTags.some(t => t.includes('lost'))) {
-        return { category: 'DISPUTE_LOST', status: DisputeStatus.LOST, isHighRisk: false };
-    } 
-    if (lowerTags.some(t => t.includes('submitted') || t.includes('under review'))) {
-        return { category: 'DISPUTE_SUBMITTED', status: DisputeStatus.UNDER_REVIEW, isHighRisk: true };
-    } 
-    if (lowerTags.some(t => t.includes('open') || t.includes('chargeback') || t.includes('dispute'))) {
-        return { category: 'DISPUTE_OPEN', status: DisputeStatus.NEEDS_RESPONSE, isHighRisk: true };
-    }
-    // No specific category found
-    return null;
-};
+const withCategoryDispute = (order: Order, status: DisputeStatus, source: DisputeEventSource, note: string): Order =>
+  order.dispute && order.dispute.source !== 'import' ? order : transitionDispute(order, status, source, note);
 
 // --- MAIN LOGIC ---
 
-export const validateOrder = (order: Order): Order => {
+export const validateOrder = (order: Order, rules: RiskRule[] = DEFAULT_RULES): Order => {
   const errorReasons: string[] = [];
 
   // 1. ID Check
@@ -61,13 +50,14 @@ export const validateOrder = (order: Order): Order => {
     // Preserve original category if it exists
     const prevCategory = order.import_category !== 'INVALID' ? order.import_category : order.original_category;
 
+    // The dispute is kept as is; quarantined orders are left out of every
+    // dispute view by their category, and recovery picks it back up
     return {
       ...order,
       import_category: 'INVALID',
       original_category: prevCategory,
       import_error: errorReasons.join(', '),
-      isHighRisk: false, 
-      disputeStatus: DisputeStatus.NONE 
+      isHighRisk: false
     };
   } 
   
@@ -75,29 +65,29 @@ export const validateOrder = (order: Order): Order => {
     // RECOVERY: It was broken, now it is fixed.
     
     // 1. Try to use the remembered original category
-    let targetCategory = order.original_category;
-    let classification = null;
+    const targetCategory = order.original_category as ImportCategory | undefined;
 
-    if (targetCategory && targetCategory !== 'AUTO' && targetCategory !== 'INVALID') {
+    if (targetCategory && targetCategory in CATEGORY_DISPUTE_STATUS) {
         // Restore based on saved intent
-        if (targetCategory === 'DISPUTE_WON') classification = { category: 'DISPUTE_WON', status: DisputeStatus.WON, isHighRisk: false };
-        else if (targetCategory === 'DISPUTE_LOST') classification = { category: 'DISPUTE_LOST', status: DisputeStatus.LOST, isHighRisk: false };
-        else if (targetCategory === 'DISPUTE_SUBMITTED') classification = { category: 'DISPUTE_SUBMITTED', status: DisputeStatus.UNDER_REVIEW, isHighRisk: true };
-        else if (targetCategory === 'DISPUTE_OPEN') classification = { category: 'DISPUTE_OPEN', status: DisputeStatus.NEEDS_RESPONSE, isHighRisk: true };
-        else classification = { category: 'RISK', status: DisputeStatus.NONE, isHighRisk: true };
-    } else {
-        // 2. Fallback to tags
-        const tagClass = determineCategoryFromTags(order.tags);
-        // 3. Last resort fallback for AUTO-SCAN (Default to Risk to avoid crash)
-        classification = tagClass || { category: 'RISK', status: DisputeStatus.NONE, isHighRisk: true };
+        const recovered = withCategoryDispute(order, CATEGORY_DISPUTE_STATUS[targetCategory]!, 'validation', 'Restored after data fix');
+        return {
+          ...recovered,
+          import_category: targetCategory,
+          import_error: undefined
+        };
     }
 
+    // 2. Fallback to the user's rules
+    const match = resolveRuleCategory(order, rules);
+    // 3. Last resort fallback for AUTO-SCAN (Default to Risk to avoid crash)
+    const category: ImportCategory = match ? match.category : 'RISK';
+
+    const recovered = withCategoryDispute(order, CATEGORY_DISPUTE_STATUS[category]!, 'validation', 'Restored after data fix');
     return {
-      ...order,
-      import_category: classification.category as ImportCategory,
-      import_error: undefined,
-      disputeStatus: classification.status,
-      isHighRisk: classification.isHighRisk
+      ...recovered,
+      import_category: category,
+      category_source: match ? 'rule' : order.category_source,
+      import_error: undefined
     };
   }
 
@@ -107,7 +97,7 @@ export const validateOrder = (order: Order): Order => {
 /**
  * Applies manual edits to an order and immediately re-checks if it is valid.
  */
-export const applyFixesAndRevalidate = (original: Order, updates: Partial<Order>): Order => {
+export const applyFixesAndRevalidate = (original: Order, updates: Partial<Order>, rules: RiskRule[] = DEFAULT_RULES): Order => {
     const merged = { 
         ...original, 
         ...updates,
@@ -116,47 +106,64 @@ export const applyFixesAndRevalidate = (original: Order, updates: Partial<Order>
             ...(updates.customer || {})
         }
     };
-    return validateOrder(merged);
+    return validateOrder(merged, rules);
 };
 
 /**
  * Forcefully moves an order out of Quarantine.
- * STRICT MODE: Throws an error if the tags don't clearly indicate where the order belongs.
+ * STRICT MODE: Throws an error if no category rule says where the order belongs.
  */
-export const forceApproveOrder = (order: Order): Order => {
-    const classification = determineCategoryFromTags(order.tags);
+export const forceApproveOrder = (order: Order, rules: RiskRule[] = DEFAULT_RULES): Order => {
+    const match = resolveRuleCategory(order, rules);
 
     // If we can't tell what this order is, FAIL and tell the user to fix it.
-    if (!classification) {
+    if (!match) {
         throw new Error(
-            "Cannot determine order type. Please EDIT the tags to include 'won', 'lost', 'submitted', or 'chargeback' before marking as valid."
+            "Cannot determine order type. No category rule matches this order. EDIT its tags (e.g. 'won', 'lost', 'submitted', 'chargeback') or add a rule before marking as valid."
         );
     }
 
+    const approved = withCategoryDispute(order, CATEGORY_DISPUTE_STATUS[match.category]!, 'manual', `Manually approved (rule "${match.rule.name}")`);
     return {
-        ...order,
-        import_category: classification.category as ImportCategory,
-        disputeStatus: classification.status,
-        isHighRisk: classification.isHighRisk,
+        ...approved,
+        import_category: match.category,
+        category_source: 'manual',
         import_error: undefined
     };
 };
 
-export const revalidateDatabase = async (): Promise<number> => {
+/**
+ * Validation, rules and scoring for a whole set of stored orders, without
+ * saving anything. Shared by revalidateDatabase and the rule backtest.
+ */
+export const reclassifyOrders = (orders: Order[], config: ClassificationConfig = DEFAULT_CLASSIFICATION): Order[] => {
+  // Validate first so quarantined orders are excluded from rules and scoring
+  return classifyOrders(orders.map((order) => validateOrder(order, config.rules)), config);
+};
+
+export const revalidateDatabase = async (config: ClassificationConfig = DEFAULT_CLASSIFICATION): Promise<number> => {
   const allOrders = await loadOrdersFromDb();
   if (allOrders.length === 0) return 0;
 
+  const validatedOrders = reclassifyOrders(allOrders, config);
+
   let changesCount = 0;
-  const validatedOrders = allOrders.map(order => {
-    const validated = validateOrder(order);
-    if (validated.import_category !== order.import_category || validated.import_error !== order.import_error) {
+  validatedOrders.forEach((validated, i) => {
+    const order = allOrders[i];
+    if (
+      validated.import_category !== order.import_category ||
+      validated.import_error !== order.import_error ||
+      validated.tags.length !== order.tags.length ||
+      validated.risk_category !== order.risk_category ||
+      validated.risk_score !== order.risk_score
+    ) {
       changesCount++;
     }
-    return validated;
   });
 
   if (changesCount > 0) {
     await saveOrdersToDb(validatedOrders);
+    await recordOrderChanges(validatedOrders.map((after, i) => ({ before: allOrders[i], after })), 'revalidate');
   }
 
   return changesCount;
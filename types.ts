@@ -27,7 +27,9 @@ export enum DisputeStatus {
   LOST = 'Lost'
 }
 
-export type TabType = 'RISK' | 'DISPUTES' | 'HISTORY' | 'ALL' | 'QUARANTINE';
+export type TabType = 'RISK' | 'DISPUTES' | 'HISTORY' | 'ALL' | 'QUARANTINE' | 'RULES' | 'LISTS' | 'REVIEW' | 'IMPORTS' | 'TEMPLATES';
+
+export type DeadlineBucket = 'OVERDUE' | 'DUE_48H' | 'THIS_WEEK' | 'LATER' | 'NO_DEADLINE';
 
 export type ImportCategory = 'AUTO' | 'RISK' | 'DISPUTE_OPEN' | 'DISPUTE_SUBMITTED' | 'DISPUTE_WON' | 'DISPUTE_LOST' | 'INVALID';
 
@@ -39,14 +41,402 @@ export interface Customer {
   ordersCount: number;
   first_name?: string;
   last_name?: string;
+  // Filled in by customer linking across every stored order
+  cluster_id?: string;
+  lifetime_value?: number;
+  chargeback_count?: number;
+}
+
+export type IdentityKind = 'email' | 'phone' | 'address' | 'device' | 'shopify_customer';
+
+// Orders we believe belong to the same person
+export interface CustomerCluster {
+  id: string;
+  orderIds: string[];
+  emails: string[];
+  ordersCount: number;
+  lifetimeValue: number;
+  chargebackCount: number;
+  lostCount: number;
+  // Which identifiers joined more than one order
+  linkedBy: IdentityKind[];
 }
 
 export interface SavedDispute {
   id: string;
   order_id: string;
+  dispute_id?: string;
+  // 'Draft' until the rebuttal is marked as sent, then 'Submitted'
   status: string;
   rebuttal_text: string;
   created_at: string;
+  updated_at?: string;
+  // Date the rebuttal was sent to the processor
+  submitted_at?: string | null;
+}
+
+// Where a rebuttal version's text came from
+export type DraftSource = 'ai' | 'template' | 'edit';
+
+// Immutable snapshot of a rebuttal; the live text is SavedDispute.rebuttal_text
+export interface DraftVersion {
+  id: string;
+  order_id: string;
+  version: number;
+  text: string;
+  source: DraftSource;
+  created_by: string;
+  created_at: string;
+}
+
+// Network reason for a dispute, normalized across processors
+export enum DisputeReason {
+  FRAUDULENT = 'fraudulent',
+  UNRECOGNIZED = 'unrecognized',
+  PRODUCT_NOT_RECEIVED = 'product_not_received',
+  PRODUCT_UNACCEPTABLE = 'product_unacceptable',
+  CREDIT_NOT_PROCESSED = 'credit_not_processed',
+  DUPLICATE = 'duplicate',
+  SUBSCRIPTION_CANCELED = 'subscription_canceled',
+  DEBIT_NOT_AUTHORIZED = 'debit_not_authorized',
+  INCORRECT_ACCOUNT_DETAILS = 'incorrect_account_details',
+  INSUFFICIENT_FUNDS = 'insufficient_funds',
+  BANK_CANNOT_PROCESS = 'bank_cannot_process',
+  CUSTOMER_INITIATED = 'customer_initiated',
+  GENERAL = 'general'
+}
+
+// How a closed dispute ended. 'accepted' and 'refunded' both forfeit the funds.
+export type DisputeOutcome = 'won' | 'lost' | 'accepted' | 'refunded';
+
+// Processors whose dispute exports we import
+export type DisputeProcessor = 'stripe' | 'paypal';
+
+export type DisputeEventSource = 'shopify_payments' | 'import' | 'validation' | 'manual' | 'rule' | DisputeProcessor;
+
+export interface DisputeHistoryEntry {
+  at: string;
+  status: DisputeStatus;
+  previousStatus?: DisputeStatus;
+  source: DisputeEventSource;
+  note?: string;
+}
+
+// A chargeback or inquiry, with every status change it has been through
+export interface Dispute {
+  id: string;
+  source: 'shopify_payments' | 'import' | DisputeProcessor;
+  status: DisputeStatus;
+  type?: 'chargeback' | 'inquiry';
+  reason: DisputeReason;
+  networkReasonCode?: string;
+  // Processor charge / transaction the dispute was raised against
+  chargeId?: string;
+  amount: number;
+  currency: string;
+  openedAt?: string;
+  evidenceDueBy?: string;
+  evidenceSentOn?: string;
+  outcome?: DisputeOutcome;
+  closedAt?: string;
+  history: DisputeHistoryEntry[];
+  // Most urgent deadline bucket we have already alerted on
+  escalatedBucket?: DeadlineBucket;
+}
+
+// One row of a Stripe or PayPal dispute export, normalized
+export interface ProcessorDisputeRecord {
+  processor: DisputeProcessor;
+  disputeId: string;
+  chargeId?: string;
+  // Shopify order number if the export carries one (metadata, invoice ID)
+  orderRef?: string;
+  email?: string;
+  amount: number;
+  currency: string;
+  reason: DisputeReason;
+  networkReasonCode?: string;
+  status: DisputeStatus;
+  type: 'chargeback' | 'inquiry';
+  outcome?: DisputeOutcome;
+  openedAt?: string;
+  evidenceDueBy?: string;
+  // When the disputed payment was made
+  transactionDate?: string;
+}
+
+export type DisputeMatchMethod = 'order_number' | 'charge_id' | 'email_amount' | 'date_amount';
+
+// A dispute row we could not tie to an order, waiting for someone to assign it
+export interface DisputeReviewItem {
+  id: string;
+  processor: DisputeProcessor;
+  dispute_id: string;
+  record: ProcessorDisputeRecord;
+  // Why matching failed
+  note: string;
+  created_at: string;
+}
+
+// One triggered signal from the risk scoring engine
+export interface RiskReason {
+  signal: string;
+  label: string;
+  points: number;
+  detail?: string;
+}
+
+// --- RISK RULES ---
+
+export type RuleOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface RuleCondition {
+  // Dot path into the order, e.g. "total", "customer.email", "tags" or "additional_data.Payment Method"
+  field: string;
+  operator: RuleOperator;
+  value?: string;
+}
+
+export type RuleActionType = 'flag_risk' | 'set_category' | 'add_tag';
+
+export interface RuleAction {
+  type: RuleActionType;
+  // Points for flag_risk, an ImportCategory for set_category, the tag for add_tag
+  value: string;
+}
+
+export interface RiskRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Higher runs first; the first matching set_category wins
+  priority: number;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// Who decided an order's import_category. Rules only re-decide their own.
+export type CategorySource = 'import' | 'manual' | 'rule';
+
+// --- BLOCK / ALLOW LISTS ---
+
+export type ListType = 'block' | 'allow';
+
+export type ListEntryKind = 'email' | 'address' | 'ip' | 'card_bin' | 'card_last4';
+
+export interface ListEntry {
+  id: string;
+  list: ListType;
+  kind: ListEntryKind;
+  // Normalized the same way order values are, so matching is a plain comparison
+  value: string;
+  // What the user typed, for display
+  label: string;
+  reason: string;
+  expires_at?: string | null;
+  // Email of the team member who added it
+  added_by: string;
+  created_at: string;
+}
+
+// --- CSV IMPORT PROFILES ---
+
+export type CsvField =
+  | 'orderId'
+  | 'createdAt'
+  | 'email'
+  | 'financialStatus'
+  | 'fulfillmentStatus'
+  | 'total'
+  | 'currency'
+  | 'tags'
+  | 'riskLevel'
+  | 'customerName'
+  | 'phone'
+  | 'shippingAddress1'
+  | 'shippingCity'
+  | 'shippingZip'
+  | 'shippingProvince'
+  | 'shippingCountry'
+  | 'billingCountry'
+  | 'shippingMethod'
+  | 'lineItemQuantity'
+  | 'lineItemName'
+  | 'lineItemPrice'
+  | 'lineItemSku'
+  | 'cancelledAt';
+
+// Field -> header text in the file. Unmapped fields are left out.
+export type ColumnMapping = Partial<Record<CsvField, string>>;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  // Normalized, sorted headers; files with the same signature reuse the profile
+  header_signature: string;
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+// --- IMPORT BATCHES ---
+
+export type ImportBatchSource = 'csv' | 'shopify_sync' | 'dispute_export';
+
+// One CSV import, Shopify sync or dispute export, with every order it wrote
+export interface ImportBatch {
+  id: string;
+  source: ImportBatchSource;
+  // File name, or the store domain for a sync
+  file_name: string;
+  row_count: number;
+  order_count: number;
+  // The category picked in the import dialog (CSV imports only)
+  category?: ImportCategory | null;
+  // Email of the team member who ran it
+  created_by: string;
+  created_at: string;
+  rolled_back_at?: string | null;
+}
+
+// --- EVIDENCE ---
+
+// A generated evidence packet PDF, kept in storage against the order's dispute
+export interface EvidencePacket {
+  id: string;
+  order_id: string;
+  dispute_id?: string | null;
+  // Path inside the 'evidence' storage bucket
+  file_path: string;
+  exhibit_count: number;
+  page_count: number;
+  created_by: string;
+  created_at: string;
+}
+
+export type EvidenceType = 'proof_of_delivery' | 'customer_communication' | 'refund_policy' | 'avs_cvv' | 'other';
+
+// A supporting file (receipt, tracking screenshot, chat log) kept with an order's dispute
+export interface EvidenceAttachment {
+  id: string;
+  order_id: string;
+  dispute_id?: string | null;
+  // Path inside the 'evidence' storage bucket
+  file_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  evidence_type: EvidenceType;
+  created_by: string;
+  created_at: string;
+}
+
+// --- SHIPMENT TRACKING ---
+
+export type ShipmentStatus = 'unknown' | 'pre_transit' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception' | 'returned';
+
+// One scan reported by the carrier
+export interface TrackingEvent {
+  at: string;
+  status: ShipmentStatus;
+  description: string;
+  location?: string;
+}
+
+// A tracking number from a Shopify fulfillment or a CSV tracking column
+export interface Shipment {
+  trackingNumber: string;
+  carrier?: string;
+  trackingUrl?: string;
+  status: ShipmentStatus;
+  shippedAt?: string;
+  deliveredAt?: string;
+  deliveryLocation?: string;
+  // Newest first; only filled in by a carrier adapter
+  events?: TrackingEvent[];
+  // Who reported the status, e.g. "Shopify" or the adapter label
+  statusSource?: string;
+  checkedAt?: string;
+  // Set when the status came from a test adapter; never evidence
+  simulated?: boolean;
+}
+
+// --- REBUTTAL TEMPLATES ---
+
+// Dispute reasons with their own letter; every other reason uses GENERAL
+export type TemplateReason =
+  | DisputeReason.FRAUDULENT
+  | DisputeReason.PRODUCT_NOT_RECEIVED
+  | DisputeReason.PRODUCT_UNACCEPTABLE
+  | DisputeReason.DUPLICATE
+  | DisputeReason.SUBSCRIPTION_CANCELED
+  | DisputeReason.CREDIT_NOT_PROCESSED
+  | DisputeReason.GENERAL;
+
+// One saved version of a user's template; saving again adds a new version
+export interface RebuttalTemplate {
+  id: string;
+  reason: TemplateReason;
+  version: number;
+  body: string;
+  created_by: string;
+  created_at: string;
+}
+
+// --- LETTER QUEUE ---
+
+// saved: the draft is stored. review: the letter has flagged claims and waits
+// for a person (nothing stored yet). opened: a review letter went to the editor.
+export type LetterJobStatus = 'queued' | 'running' | 'retrying' | 'saved' | 'review' | 'opened' | 'failed';
+
+export interface LetterJob {
+  orderId: string;
+  status: LetterJobStatus;
+  attempts: number;
+  // Epoch ms of the next attempt while retrying
+  retryAt?: number;
+  error?: string;
+  // Only kept for 'review', until the letter is opened
+  text?: string;
+  flaggedClaims?: number;
+  updatedAt: string;
+}
+
+// Lives in localStorage so a reload can pick up where it stopped
+export interface LetterQueue {
+  id: string;
+  createdAt: string;
+  jobs: LetterJob[];
+  // Why the run stopped early, e.g. a missing API key
+  haltedReason?: string;
+}
+
+// --- AUDIT LOG ---
+
+export type AuditSource = 'edit' | 'approve' | 'revalidate' | 'import' | 'sync' | 'rollback' | 'escalation' | 'tracking';
+
+// One changed field of one order. Rows are only ever inserted.
+export interface AuditEntry {
+  id: string;
+  order_id: string;
+  // Dotted path into the order, e.g. "customer.email"; "*" when the whole order was created or deleted
+  field_path: string;
+  old_value: any;
+  new_value: any;
+  // Email of the team member, or their user ID
+  actor: string;
+  source: AuditSource;
+  batch_id?: string | null;
+  created_at: string;
 }
 
 export interface Alert {
@@ -74,20 +464,50 @@ export interface Order {
   tags: string[];
   isHighRisk: boolean;
   disputeStatus: DisputeStatus;
+  // ISO date the evidence is due (from the processor when available)
   disputeDeadline?: string;
+  dispute?: Dispute;
   
   savedDispute?: SavedDispute; 
   created_at?: string;
+  // Shopify's updatedAt; drives the incremental sync high-water mark
+  updated_at?: string;
+  // Tags as last seen on Shopify, so local tag edits survive a re-sync
+  remote_tags?: string[];
   currency?: string;
   source_name?: string;
+  // Derived from risk_score using the user's thresholds
   risk_category?: string;
+  risk_score?: number;
+  risk_reasons?: RiskReason[];
+  // Inputs the scoring engine reads that are not shown elsewhere
+  native_risk_level?: string;
+  cancel_reason?: string;
+  billing_country?: string;
+  shipping_country?: string;
   import_category?: string;
+  category_source?: CategorySource;
   
   // Remembers what the order WAS before it became INVALID
   original_category?: string; 
   
   additional_data?: Record<string, any>;
+  line_items?: LineItem[];
+  // Tracking numbers; deliveryStatus, delivered_at and delivery_location follow them
+  shipments?: Shipment[];
+  delivered_at?: string;
+  delivery_location?: string;
   import_error?: string; 
+  // Last import batch that wrote this order
+  import_batch_id?: string;
+}
+
+export interface LineItem {
+  title: string;
+  quantity: number;
+  // Unit price in the order currency
+  price?: number;
+  sku?: string;
 }
 
 export interface ShopifyCredentials {
@@ -0,0 +1,22 @@
+// src/workers/csvWorker.ts
+import { ImportCategory, ColumnMapping } from '../types';
+import { collectShopifyCsv } from '../services/csvRowCollector';
+
+/**
+ * Parses a CSV export off the main thread. Receives { file, category, mapping }
+ * and posts progress messages, then either the collected records or an error.
+ */
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<{ file: File; category: ImportCategory; mapping?: ColumnMapping }>) => {
+  const { file, category, mapping } = event.data;
+  try {
+    const records = await collectShopifyCsv(file, category, (progress) => {
+      ctx.postMessage({ type: 'progress', progress });
+    }, mapping);
+    ctx.postMessage({ type: 'done', records });
+  } catch (err: any) {
+    ctx.postMessage({ type: 'error', message: err?.message || 'Could not parse the CSV file.' });
+  }
+};